@@ -0,0 +1,16 @@
+export function onAbortSignal(signal: AbortSignal | undefined, onAbort: () => void): () => void {
+	if (!signal) return () => {};
+
+	if (signal.aborted) {
+		let isUnsubscribed = false;
+		queueMicrotask(() => {
+			if (!isUnsubscribed) onAbort();
+		});
+		return () => {
+			isUnsubscribed = true;
+		};
+	}
+
+	signal.addEventListener("abort", onAbort, { once: true });
+	return () => signal.removeEventListener("abort", onAbort);
+}
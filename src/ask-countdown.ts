@@ -0,0 +1,48 @@
+const COUNTDOWN_TICK_MS = 1000;
+
+export interface Countdown {
+	reset(seconds: number | undefined): void;
+	stop(): void;
+	getRemainingSeconds(): number | undefined;
+}
+
+export function createCountdown(onTick: () => void, onExpire: () => void): Countdown {
+	let remainingSeconds: number | undefined;
+	let tickTimer: ReturnType<typeof setInterval> | undefined;
+
+	const stop = () => {
+		if (tickTimer) clearInterval(tickTimer);
+		tickTimer = undefined;
+		remainingSeconds = undefined;
+	};
+
+	const reset = (seconds: number | undefined) => {
+		stop();
+		if (seconds == null || !Number.isFinite(seconds) || seconds <= 0) return;
+
+		remainingSeconds = Math.ceil(seconds);
+		tickTimer = setInterval(() => {
+			remainingSeconds = (remainingSeconds ?? 1) - 1;
+			if (remainingSeconds <= 0) {
+				stop();
+				onExpire();
+				return;
+			}
+			onTick();
+		}, COUNTDOWN_TICK_MS);
+	};
+
+	return {
+		reset,
+		stop,
+		getRemainingSeconds: () => remainingSeconds,
+	};
+}
+
+export function formatCountdown(seconds: number): string {
+	const safeSeconds = Math.max(0, Math.ceil(seconds));
+	if (safeSeconds < 60) return `${safeSeconds}s`;
+	const minutes = Math.floor(safeSeconds / 60);
+	const remainder = safeSeconds % 60;
+	return `${minutes}m ${String(remainder).padStart(2, "0")}s`;
+}
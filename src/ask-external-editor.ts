@@ -0,0 +1,58 @@
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getAskMessages, type AskMessages } from "./ask-messages";
+
+export interface SuspendableTui {
+	stop(): void;
+	start(): void;
+	requestRender(force?: boolean): void;
+}
+
+export type ExternalEditorResult = { ok: true; text: string } | { ok: false; error: string };
+
+export function resolveExternalEditorCommand(env: NodeJS.ProcessEnv = process.env): string | undefined {
+	return env.VISUAL?.trim() || env.EDITOR?.trim() || undefined;
+}
+
+export function editTextInExternalEditor(
+	tui: SuspendableTui,
+	text: string,
+	messages: AskMessages = getAskMessages(),
+): ExternalEditorResult {
+	const editorErrors = messages.editorErrors;
+	const editorCommand = resolveExternalEditorCommand();
+	if (!editorCommand) return { ok: false, error: editorErrors.noEditor };
+
+	let tempDirectory: string | undefined;
+	let isTuiStopped = false;
+	try {
+		// A private directory keeps other local users from planting a file or symlink at the note path.
+		tempDirectory = mkdtempSync(join(tmpdir(), "pi-ask-"));
+		const tempFilePath = join(tempDirectory, "note.md");
+		writeFileSync(tempFilePath, text, { encoding: "utf8", flag: "wx" });
+		tui.stop();
+		isTuiStopped = true;
+		const result = spawnSync("sh", ["-c", `${editorCommand} "$1"`, "sh", tempFilePath], { stdio: "inherit" });
+		if (result.error) return { ok: false, error: editorErrors.startFailed(editorCommand, result.error.message) };
+		if (result.signal) return { ok: false, error: editorErrors.terminated(result.signal) };
+		if (result.status !== 0) return { ok: false, error: editorErrors.exitCode(result.status) };
+		return { ok: true, text: readFileSync(tempFilePath, "utf8").replace(/\r?\n$/, "") };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { ok: false, error: editorErrors.editFailed(message) };
+	} finally {
+		if (isTuiStopped) {
+			tui.start();
+			tui.requestRender(true);
+		}
+		if (tempDirectory) {
+			try {
+				rmSync(tempDirectory, { recursive: true, force: true });
+			} catch {
+				// A leftover private temp directory is harmless.
+			}
+		}
+	}
+}
@@ -0,0 +1,173 @@
+import { readFileSync } from "node:fs";
+import {
+	allowsOtherOption,
+	buildNumberSelectionResult,
+	buildSelectedOptionRecords,
+	getNumberAnswerIssue,
+	isNumberQuestion,
+	isRankQuestion,
+	isTextQuestion,
+	parseNumberAnswer,
+	resolveRecommendedOptionIndexes,
+	type AskQuestion,
+	type AskSelection,
+} from "./ask-logic";
+
+export const HEADLESS_POLICY_ENV = "PI_ASK_HEADLESS";
+export const HEADLESS_ANSWERS_FILE_ENV = "PI_ASK_ANSWERS_FILE";
+export const DEFAULT_HEADLESS_ANSWERS_FILE = ".pi/ask-answers.json";
+
+export type HeadlessPolicy = "fail" | "recommended" | "first" | "answers";
+export type HeadlessResolution = "recommended" | "first" | "answers-file";
+export type HeadlessAnswer = string | string[];
+export type HeadlessAnswers = Record<string, HeadlessAnswer>;
+
+export interface HeadlessSelection {
+	selection: AskSelection;
+	resolvedBy?: HeadlessResolution;
+}
+
+const HEADLESS_POLICIES: HeadlessPolicy[] = ["fail", "recommended", "first", "answers"];
+
+export function parseHeadlessPolicy(rawPolicy: string | undefined): HeadlessPolicy {
+	const normalizedPolicy = rawPolicy?.trim().toLowerCase();
+	if (!normalizedPolicy) return "fail";
+	return HEADLESS_POLICIES.find((policy) => policy === normalizedPolicy) ?? "fail";
+}
+
+function isHeadlessAnswer(value: unknown): value is HeadlessAnswer {
+	if (typeof value === "string") return true;
+	return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+export function parseHeadlessAnswers(rawJson: string): HeadlessAnswers {
+	const parsed: unknown = JSON.parse(rawJson);
+	if (parsed == null || typeof parsed !== "object" || Array.isArray(parsed)) {
+		throw new Error("answers file must contain a JSON object keyed by question id");
+	}
+
+	const answers: HeadlessAnswers = {};
+	for (const [questionId, answer] of Object.entries(parsed)) {
+		if (!isHeadlessAnswer(answer)) {
+			throw new Error(`answer for "${questionId}" must be a string or an array of strings`);
+		}
+		answers[questionId] = answer;
+	}
+	return answers;
+}
+
+export function loadHeadlessAnswers(filePath: string): HeadlessAnswers {
+	return parseHeadlessAnswers(readFileSync(filePath, "utf8"));
+}
+
+function findOptionIndexForAnswer(question: AskQuestion, answerEntry: string): number {
+	const labelMatchIndex = question.options.findIndex((option) => option.label === answerEntry);
+	if (labelMatchIndex >= 0) return labelMatchIndex;
+	return question.options.findIndex((option) => option.value === answerEntry);
+}
+
+function buildOptionSelection(question: AskQuestion, selectedOptionIndexes: number[]): AskSelection {
+	if (selectedOptionIndexes.length === 0) return { selectedOptions: [] };
+	return {
+		selectedOptions: selectedOptionIndexes.map((optionIndex) => question.options[optionIndex].label),
+		selectedOptionRecords: buildSelectedOptionRecords(question.options, selectedOptionIndexes),
+	};
+}
+
+function buildSelectionFromAnswer(question: AskQuestion, answer: HeadlessAnswer): AskSelection {
+	const answerEntries = (Array.isArray(answer) ? answer : [answer])
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0);
+	const candidateEntries = answerEntries.slice(0, question.multi ? (question.maxSelect ?? answerEntries.length) : 1);
+
+	const selectedOptionIndexes = [
+		...new Set(
+			candidateEntries
+				.map((entry) => findOptionIndexForAnswer(question, entry))
+				.filter((optionIndex) => optionIndex >= 0),
+		),
+	];
+	const customEntries = candidateEntries.filter((entry) => findOptionIndexForAnswer(question, entry) < 0);
+	const selection = buildOptionSelection(question, selectedOptionIndexes);
+
+	if (customEntries.length > 0 && (isTextQuestion(question) || allowsOtherOption(question))) {
+		return { ...selection, customInput: customEntries.join(", ") };
+	}
+	return selection;
+}
+
+function buildRankingFromAnswer(question: AskQuestion, answer: HeadlessAnswer): AskSelection {
+	const answerEntries = (Array.isArray(answer) ? answer : [answer]).map((entry) => entry.trim());
+	const rankedOptionIndexes = [
+		...new Set(
+			answerEntries
+				.map((entry) => findOptionIndexForAnswer(question, entry))
+				.filter((optionIndex) => optionIndex >= 0),
+		),
+	];
+	if (rankedOptionIndexes.length === 0) return { selectedOptions: [] };
+	const remainingOptionIndexes = question.options
+		.map((_option, optionIndex) => optionIndex)
+		.filter((optionIndex) => !rankedOptionIndexes.includes(optionIndex));
+	return buildOptionSelection(question, [...rankedOptionIndexes, ...remainingOptionIndexes]);
+}
+
+function buildNumberFromAnswer(question: AskQuestion, answer: HeadlessAnswer): AskSelection {
+	const [answerEntry = ""] = Array.isArray(answer) ? answer : [answer];
+	const value = parseNumberAnswer(answerEntry);
+	if (value == null || getNumberAnswerIssue(question, answerEntry)) return { selectedOptions: [] };
+	return buildNumberSelectionResult(value, question.unit);
+}
+
+function resolveNumberPreset(question: AskQuestion, presetIndex: number): AskSelection {
+	const preset = question.presets?.[presetIndex];
+	return preset == null ? { selectedOptions: [] } : buildNumberSelectionResult(preset, question.unit);
+}
+
+export function resolveHeadlessSelection(
+	question: AskQuestion,
+	policy: Exclude<HeadlessPolicy, "fail">,
+	answers: HeadlessAnswers = {},
+): HeadlessSelection {
+	if (policy === "answers") {
+		const answer = Object.hasOwn(answers, question.id) ? answers[question.id] : undefined;
+		if (answer == null) return { selection: { selectedOptions: [] } };
+
+		const selection = isRankQuestion(question)
+			? buildRankingFromAnswer(question, answer)
+			: isNumberQuestion(question)
+				? buildNumberFromAnswer(question, answer)
+				: buildSelectionFromAnswer(question, answer);
+		if (selection.selectedOptions.length === 0 && !selection.customInput) {
+			return { selection };
+		}
+		return { selection, resolvedBy: "answers-file" };
+	}
+
+	if (isRankQuestion(question)) {
+		const givenOrder = question.options.map((_option, optionIndex) => optionIndex);
+		return { selection: buildOptionSelection(question, givenOrder), resolvedBy: "first" };
+	}
+
+	const recommendedOptionIndexes = resolveRecommendedOptionIndexes(question.recommended, question.options.length);
+	if (policy === "recommended" && recommendedOptionIndexes.length > 0) {
+		if (isNumberQuestion(question)) {
+			return { selection: resolveNumberPreset(question, recommendedOptionIndexes[0]), resolvedBy: "recommended" };
+		}
+		return {
+			selection: buildOptionSelection(
+				question,
+				question.multi ? recommendedOptionIndexes : recommendedOptionIndexes.slice(0, 1),
+			),
+			resolvedBy: "recommended",
+		};
+	}
+
+	if (isNumberQuestion(question)) {
+		const selection = resolveNumberPreset(question, 0);
+		return selection.numberValue == null ? { selection } : { selection, resolvedBy: "first" };
+	}
+
+	if (question.options.length === 0) return { selection: { selectedOptions: [] } };
+	return { selection: buildOptionSelection(question, [0]), resolvedBy: "first" };
+}
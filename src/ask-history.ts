@@ -0,0 +1,187 @@
+import { getAgentDir, type ExtensionAPI, type ExtensionCommandContext, type SessionEntry } from "@mariozechner/pi-coding-agent";
+import { loadAskKeybindingsConfigOrDefault, resolveAskKeybindingsFilePath } from "./ask-keymap";
+import {
+	formatNumberWithUnit,
+	isNumberQuestion,
+	type AskOption,
+	type AskPrefilledAnswer,
+	type AskQuestion,
+	type AskQuestionCondition,
+	type AskQuestionType,
+	type AskSelection,
+} from "./ask-logic";
+import { getAskMessages, resolveAskLocale, type AskMessages } from "./ask-messages";
+import {
+	formatPrefilledAnswerSummary,
+	readStoredAskResults,
+	toPrefilledAnswer,
+	type StoredQuestionResult,
+} from "./ask-previous-answers";
+import { askQuestionsWithTabs } from "./ask-tabs-ui";
+
+export const ASK_HISTORY_COMMAND = "ask-history";
+
+const HISTORY_QUESTION_TYPES: AskQuestionType[] = ["choice", "text", "rank", "number"];
+
+export interface AskHistoryCall {
+	entryId: string;
+	timestamp: string;
+	questions: AskQuestion[];
+}
+
+export interface AskAnswerRevision {
+	id: string;
+	before: string;
+	after: string;
+}
+
+function isQuestionCondition(value: unknown): value is AskQuestionCondition {
+	if (value == null || typeof value !== "object") return false;
+	const condition = value as Partial<AskQuestionCondition>;
+	const selected = condition.selected;
+	return (
+		typeof condition.id === "string" &&
+		(typeof selected === "string" || (Array.isArray(selected) && selected.every((entry) => typeof entry === "string")))
+	);
+}
+
+function toHistoryQuestion(result: StoredQuestionResult & { id: string }): AskQuestion {
+	const type = HISTORY_QUESTION_TYPES.find((candidate) => candidate === result.type);
+	const previousAnswer = toPrefilledAnswer(result);
+	const optionLabels = Array.isArray(result.options)
+		? result.options.filter((option): option is string => typeof option === "string")
+		: [];
+	const presets = Array.isArray(result.presets)
+		? result.presets.filter((preset): preset is number => typeof preset === "number")
+		: [];
+	const unit = typeof result.unit === "string" ? result.unit : undefined;
+	const options: AskOption[] =
+		type === "text"
+			? []
+			: type === "number"
+				? presets.map((preset) => ({ label: formatNumberWithUnit(preset, unit) }))
+				: optionLabels.map((label) => {
+						const record = previousAnswer?.selectedOptionRecords?.find((candidate) => candidate.label === label);
+						return record && record.value !== label ? { label, value: record.value } : { label };
+					});
+
+	return {
+		id: result.id,
+		question: typeof result.question === "string" ? result.question : result.id,
+		...(typeof result.description === "string" ? { description: result.description } : {}),
+		...(type ? { type } : {}),
+		options,
+		...(result.allowOther === false ? { allowOther: false } : {}),
+		...(typeof result.otherLabel === "string" ? { otherLabel: result.otherLabel } : {}),
+		multi: result.multi === true,
+		...(typeof result.minSelect === "number" ? { minSelect: result.minSelect } : {}),
+		...(typeof result.maxSelect === "number" ? { maxSelect: result.maxSelect } : {}),
+		...(type === "number" && presets.length > 0 ? { presets } : {}),
+		...(type === "number" && unit ? { unit } : {}),
+		...(type === "number" && typeof result.min === "number" ? { min: result.min } : {}),
+		...(type === "number" && typeof result.max === "number" ? { max: result.max } : {}),
+		...(type === "number" && typeof result.step === "number" ? { step: result.step } : {}),
+		...(isQuestionCondition(result.showIf) ? { showIf: result.showIf } : {}),
+		...(result.required === false || result.skipped === true ? { required: false } : {}),
+		...(previousAnswer ? { previousAnswer } : {}),
+	};
+}
+
+export function collectAskHistory(entries: SessionEntry[]): AskHistoryCall[] {
+	const calls: AskHistoryCall[] = [];
+	for (const entry of entries) {
+		const results = readStoredAskResults(entry);
+		if (!results || results.length === 0) continue;
+		calls.push({ entryId: entry.id, timestamp: entry.timestamp, questions: results.map(toHistoryQuestion) });
+	}
+	return calls;
+}
+
+function formatHistoryTimestamp(timestamp: string): string {
+	return timestamp.replace("T", " ").slice(0, 16);
+}
+
+function formatHistoryAnswer(
+	question: AskQuestion,
+	answer: AskPrefilledAnswer | undefined,
+	messages: AskMessages = getAskMessages(),
+): string {
+	if (!answer || (answer.selectedOptions.length === 0 && !answer.customInput)) return messages.history.noAnswer;
+	return formatPrefilledAnswerSummary(question, answer, messages);
+}
+
+export function formatAskHistoryCall(
+	call: AskHistoryCall,
+	callNumber: number,
+	messages: AskMessages = getAskMessages(),
+): string {
+	const answers = call.questions.map((question) => {
+		const answerSummary = formatHistoryAnswer(question, question.previousAnswer, messages);
+		return `${question.id} "${question.question}" → ${answerSummary}`;
+	});
+	return `#${callNumber} ${formatHistoryTimestamp(call.timestamp)}  ${answers.join(" | ")}`;
+}
+
+export function findAnswerRevisions(questions: AskQuestion[], selections: AskSelection[]): AskAnswerRevision[] {
+	const revisions: AskAnswerRevision[] = [];
+	questions.forEach((question, questionIndex) => {
+		const previousAnswer = question.previousAnswer;
+		const selection = selections[questionIndex];
+		if (
+			isNumberQuestion(question) &&
+			previousAnswer?.numberValue != null &&
+			previousAnswer.numberValue === selection?.numberValue
+		) {
+			return;
+		}
+		const before = formatHistoryAnswer(question, previousAnswer);
+		const after = formatHistoryAnswer(question, selection);
+		if (before !== after) revisions.push({ id: question.id, before, after });
+	});
+	return revisions;
+}
+
+export function buildAnswerRevisionMessage(call: AskHistoryCall, revisions: AskAnswerRevision[]): string {
+	const revisionLines = revisions.map((revision) => `- ${revision.id}: ${revision.before} → ${revision.after}`);
+	return [
+		`I revised my answers to the ask call from ${formatHistoryTimestamp(call.timestamp)}:`,
+		...revisionLines,
+		"Treat the revised answers as the current decision.",
+	].join("\n");
+}
+
+export async function runAskHistoryCommand(pi: ExtensionAPI, ctx: ExtensionCommandContext): Promise<void> {
+	const keybindings = loadAskKeybindingsConfigOrDefault(resolveAskKeybindingsFilePath(getAgentDir()), (warning) =>
+		ctx.ui.notify(warning, "warning"),
+	);
+	const messages = getAskMessages(resolveAskLocale(keybindings.locale));
+
+	if (!ctx.hasUI) {
+		ctx.ui.notify(messages.history.requiresInteractive(ASK_HISTORY_COMMAND), "error");
+		return;
+	}
+
+	const calls = collectAskHistory(ctx.sessionManager.getBranch()).reverse();
+	if (calls.length === 0) {
+		ctx.ui.notify(messages.history.noCalls, "info");
+		return;
+	}
+
+	const callLabels = calls.map((call, callIndex) => formatAskHistoryCall(call, calls.length - callIndex, messages));
+	const pickedLabel = await ctx.ui.select(messages.history.selectTitle, callLabels);
+	const call = pickedLabel == null ? undefined : calls[callLabels.indexOf(pickedLabel)];
+	if (!call) return;
+
+	const { cancelled, selections } = await askQuestionsWithTabs(ctx.ui, call.questions, {
+		keybindings,
+		locale: keybindings.locale,
+	});
+	if (cancelled) return;
+
+	const revisions = findAnswerRevisions(call.questions, selections);
+	if (revisions.length === 0) {
+		ctx.ui.notify(messages.history.noChanges, "info");
+		return;
+	}
+	pi.sendUserMessage(buildAnswerRevisionMessage(call, revisions), ctx.isIdle() ? undefined : { deliverAs: "followUp" });
+}
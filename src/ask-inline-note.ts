@@ -1,11 +1,20 @@
 import { wrapTextWithAnsi } from "@mariozechner/pi-tui";
+import { getAskMessages, type AskMessages } from "./ask-messages";
 
-const INLINE_NOTE_SEPARATOR = " — note: ";
+const INLINE_NOTE_SEPARATOR = " — ";
 const INLINE_EDIT_CURSOR_INVERT_ON = "\u001b[7m";
 const INLINE_EDIT_CURSOR_INVERT_OFF = "\u001b[27m";
 
 export const INLINE_NOTE_WRAP_PADDING = 2;
 
+export function splitNoteLines(rawNote: string): string[] {
+	return rawNote.trim().split(/\r\n|\r|\n/);
+}
+
+export function isMultilineNote(rawNote: string): boolean {
+	return splitNoteLines(rawNote).length > 1;
+}
+
 function sanitizeNoteForInlineDisplay(rawNote: string): string {
 	return rawNote.replace(/[\r\n\t]/g, " ").replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, "");
 }
@@ -42,21 +51,36 @@ function truncateTextKeepingHead(text: string, maxLength: number): string {
 	return `${text.slice(0, maxLength - 1)}…`;
 }
 
+function formatInlineNote(
+	rawNote: string,
+	isEditingNote: boolean,
+	editingCursorIndex: number | undefined,
+	messages: AskMessages,
+): string {
+	if (isEditingNote) return messages.inlineNote(buildEditingInlineNote(rawNote, editingCursorIndex), 1);
+
+	const noteLines = splitNoteLines(rawNote);
+	if (noteLines.length > 1) {
+		return messages.inlineNote(sanitizeNoteForInlineDisplay(noteLines[0]).trim(), noteLines.length);
+	}
+	return messages.inlineNote(sanitizeNoteForInlineDisplay(rawNote).trim(), 1);
+}
+
 export function buildOptionLabelWithInlineNote(
 	baseOptionLabel: string,
 	rawNote: string,
 	isEditingNote: boolean,
 	maxInlineLabelLength?: number,
 	editingCursorIndex?: number,
+	messages: AskMessages = getAskMessages(),
 ): string {
 	const sanitizedNote = sanitizeNoteForInlineDisplay(rawNote);
 	if (!isEditingNote && sanitizedNote.trim().length === 0) {
 		return baseOptionLabel;
 	}
 
-	const labelPrefix = `${baseOptionLabel}${INLINE_NOTE_SEPARATOR}`;
-	const inlineNote = isEditingNote ? buildEditingInlineNote(rawNote, editingCursorIndex) : sanitizedNote.trim();
-	const inlineLabel = `${labelPrefix}${inlineNote}`;
+	const inlineNote = formatInlineNote(rawNote, isEditingNote, editingCursorIndex, messages);
+	const inlineLabel = `${baseOptionLabel}${INLINE_NOTE_SEPARATOR}${inlineNote}`;
 
 	if (maxInlineLabelLength == null) {
 		return inlineLabel;
@@ -74,6 +98,7 @@ export function buildWrappedOptionLabelWithInlineNote(
 	maxInlineLabelLength: number,
 	wrapPadding = INLINE_NOTE_WRAP_PADDING,
 	editingCursorIndex?: number,
+	messages: AskMessages = getAskMessages(),
 ): string[] {
 	const inlineLabel = buildOptionLabelWithInlineNote(
 		baseOptionLabel,
@@ -81,6 +106,7 @@ export function buildWrappedOptionLabelWithInlineNote(
 		isEditingNote,
 		undefined,
 		editingCursorIndex,
+		messages,
 	);
 	const sanitizedWrapPadding = Number.isFinite(wrapPadding) ? Math.max(0, Math.floor(wrapPadding)) : 0;
 	const sanitizedMaxInlineLabelLength = Number.isFinite(maxInlineLabelLength)
@@ -90,3 +116,38 @@ export function buildWrappedOptionLabelWithInlineNote(
 	const wrappedLines = wrapTextWithAnsi(inlineLabel, wrapWidth);
 	return wrappedLines.length > 0 ? wrappedLines : [""];
 }
+
+export function buildExpandedNoteLines(
+	optionLabel: string,
+	sourceLines: string[],
+	maxLineLength: number,
+	editingCursor: { line: number; col: number },
+	messages: AskMessages = getAskMessages(),
+): string[] {
+	return [
+		messages.noteHeader(sanitizeNoteForInlineDisplay(optionLabel), sourceLines.length),
+		...buildWrappedTextAnswerLines(sourceLines, maxLineLength, editingCursor),
+	];
+}
+
+export function buildWrappedTextAnswerLines(
+	sourceLines: string[],
+	maxLineLength: number,
+	editingCursor?: { line: number; col: number },
+): string[] {
+	const wrapWidth = Number.isFinite(maxLineLength) ? Math.max(1, Math.floor(maxLineLength)) : 1;
+	const safeSourceLines = sourceLines.length > 0 ? sourceLines : [""];
+	const wrappedLines: string[] = [];
+
+	for (let lineIndex = 0; lineIndex < safeSourceLines.length; lineIndex++) {
+		const sourceLine = safeSourceLines[lineIndex];
+		const displayLine =
+			editingCursor?.line === lineIndex
+				? buildEditingInlineNote(sourceLine, editingCursor.col)
+				: sanitizeNoteForInlineDisplay(sourceLine);
+		const wrappedSourceLine = wrapTextWithAnsi(displayLine, wrapWidth);
+		wrappedLines.push(...(wrappedSourceLine.length > 0 ? wrappedSourceLine : [""]));
+	}
+
+	return wrappedLines;
+}
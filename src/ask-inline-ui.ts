@@ -2,8 +2,6 @@ import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
 import {
 	Editor,
 	Markdown,
-	type EditorTheme,
-	type MarkdownTheme,
 	Key,
 	matchesKey,
 	truncateToWidth,
@@ -12,91 +10,133 @@ import {
 import {
 	OTHER_OPTION,
 	appendRecommendedTagToOptionLabels,
+	buildSelectedOptionRecords,
 	buildSingleSelectionResult,
+	resolveRecommendedOptionIndexes,
 	type AskOption,
+	type AskPrefilledAnswer,
 	type AskSelection,
 } from "./ask-logic";
+import { onAbortSignal } from "./ask-abort";
+import { createCountdown, formatCountdown } from "./ask-countdown";
+import { editTextInExternalEditor, resolveExternalEditorCommand } from "./ask-external-editor";
 import { getLinearCursorIndexFromEditor } from "./ask-inline-editor-cursor";
-import { INLINE_NOTE_WRAP_PADDING, buildWrappedOptionLabelWithInlineNote } from "./ask-inline-note";
+import {
+	INLINE_NOTE_WRAP_PADDING,
+	buildExpandedNoteLines,
+	buildWrappedOptionLabelWithInlineNote,
+	isMultilineNote,
+} from "./ask-inline-note";
+import {
+	formatAskKeyHints,
+	getBoundCharacterKeys,
+	matchesAskKey,
+	matchesStopEditingKey,
+	resolveAskKeymap,
+	type AskKeybindingsConfig,
+} from "./ask-keymap";
+import { getAskMessages, resolveAskLocale, type AskLocale } from "./ask-messages";
+import {
+	filterOptionIndexes,
+	findFuzzyMatchPositions,
+	formatOptionFilterStatus,
+	highlightMatchPositions,
+	isPrintableCharacter,
+	moveCursorWithinVisibleOptions,
+	resolveVisibleCursorIndex,
+} from "./ask-option-filter";
+import { formatPrefilledAnswerHint, resolvePrefilledAnswerState } from "./ask-previous-answers";
+import { findQuickSelectOptionIndex, formatQuickSelectGutter, resolveQuickSelectKeys } from "./ask-quick-select";
 import { appendWrappedTextLines } from "./ask-text-wrap";
+import { createAskEditorTheme, createAskMarkdownTheme } from "./ask-ui-theme";
+
+const EXPANDED_NOTE_INDENT = "   ";
 
 interface SingleQuestionInput {
 	question: string;
 	description?: string;
 	options: AskOption[];
-	recommended?: number;
+	allowOther?: boolean;
+	otherLabel?: string;
+	otherPlaceholder?: string;
+	recommended?: number | number[];
+	timeoutSeconds?: number;
+	previousAnswer?: AskPrefilledAnswer;
+	presetAnswer?: AskPrefilledAnswer;
+}
+
+interface AskInlineOptions {
+	signal?: AbortSignal;
+	keybindings?: AskKeybindingsConfig;
+	locale?: AskLocale;
 }
 
 interface InlineSelectionResult {
 	cancelled: boolean;
-	selectedOption?: string;
+	selectedOptionIndex?: number;
 	note?: string;
-}
-
-function resolveInitialCursorIndexFromRecommendedOption(
-	recommendedOptionIndex: number | undefined,
-	optionCount: number,
-): number {
-	if (recommendedOptionIndex == null) return 0;
-	if (recommendedOptionIndex < 0 || recommendedOptionIndex >= optionCount) return 0;
-	return recommendedOptionIndex;
+	timedOut?: boolean;
 }
 
 export async function askSingleQuestionWithInlineNote(
 	ui: ExtensionUIContext,
 	questionInput: SingleQuestionInput,
+	options: AskInlineOptions = {},
 ): Promise<AskSelection> {
+	const messages = getAskMessages(resolveAskLocale(options.locale));
+	const hints = messages.hints;
 	const baseOptionLabels = questionInput.options.map((option) => option.label);
 	const optionLabelsWithRecommendedTag = appendRecommendedTagToOptionLabels(
 		baseOptionLabels,
 		questionInput.recommended,
+		messages.recommendedTag,
 	);
-	const selectableOptionLabels = [...optionLabelsWithRecommendedTag, OTHER_OPTION];
-	const initialCursorIndex = resolveInitialCursorIndexFromRecommendedOption(
+	const allowOther = questionInput.allowOther !== false;
+	const otherOptionLabel = questionInput.otherLabel?.trim() || messages.otherOption;
+	const selectableOptionLabels = allowOther
+		? [...optionLabelsWithRecommendedTag, otherOptionLabel]
+		: optionLabelsWithRecommendedTag;
+	const [recommendedOptionIndex] = resolveRecommendedOptionIndexes(
 		questionInput.recommended,
 		optionLabelsWithRecommendedTag.length,
 	);
+	const prefilledAnswerState = resolvePrefilledAnswerState(questionInput, messages);
+	const initialCursorIndex = prefilledAnswerState?.selectedOptionIndexes[0] ?? recommendedOptionIndex ?? 0;
+
+	const otherOptionIndex = allowOther ? baseOptionLabels.length : -1;
 
-	const result = await ui.custom<InlineSelectionResult>((tui, theme, _keybindings, done) => {
+	const result = await ui.custom<InlineSelectionResult>((tui, theme, keybindings, done) => {
+		const keymap = resolveAskKeymap(options.keybindings, keybindings);
+		const keyHints = formatAskKeyHints(keymap);
+		const quickSelectKeys = resolveQuickSelectKeys(getBoundCharacterKeys(keymap));
 		let cursorOptionIndex = initialCursorIndex;
+		let filterQuery: string | undefined;
 		let isNoteEditorOpen = false;
+		let isNoteEditorExpanded = false;
+		let externalEditorError: string | undefined;
+		let isFinished = false;
 		let cachedRenderedLines: string[] | undefined;
 		let cachedRenderedWidth: number | undefined;
-		const noteByOptionIndex = new Map<number, string>();
-
-		const editorTheme: EditorTheme = {
-			borderColor: (text) => theme.fg("accent", text),
-			selectList: {
-				selectedPrefix: (text) => theme.fg("accent", text),
-				selectedText: (text) => theme.fg("accent", text),
-				description: (text) => theme.fg("muted", text),
-				scrollInfo: (text) => theme.fg("dim", text),
-				noMatch: (text) => theme.fg("warning", text),
-			},
-		};
-		const noteEditor = new Editor(tui, editorTheme);
-		const markdownTheme: MarkdownTheme = {
-			heading: (text) => theme.fg("mdHeading", text),
-			link: (text) => theme.fg("mdLink", text),
-			linkUrl: (text) => theme.fg("mdLinkUrl", text),
-			code: (text) => theme.fg("mdCode", text),
-			codeBlock: (text) => theme.fg("mdCodeBlock", text),
-			codeBlockBorder: (text) => theme.fg("mdCodeBlockBorder", text),
-			quote: (text) => theme.fg("mdQuote", text),
-			quoteBorder: (text) => theme.fg("mdQuoteBorder", text),
-			hr: (text) => theme.fg("mdHr", text),
-			listBullet: (text) => theme.fg("mdListBullet", text),
-			bold: (text) => theme.bold(text),
-			italic: (text) => theme.italic(text),
-			strikethrough: (text) => theme.strikethrough(text),
-			underline: (text) => theme.underline(text),
-		};
+		const noteByOptionIndex = new Map<number, string>(
+			(prefilledAnswerState?.noteByOptionIndex ?? []).map((note, optionIndex) => [optionIndex, note]),
+		);
+
+		const noteEditor = new Editor(tui, createAskEditorTheme(theme));
+		const markdownTheme = createAskMarkdownTheme(theme);
+
 		const questionDescriptionMarkdown =
 			questionInput.description && questionInput.description.trim().length > 0
 				? new Markdown(questionInput.description, 0, 0, markdownTheme, {
 						color: (text) => theme.fg("muted", text),
 					})
 				: undefined;
+		const optionDescriptionMarkdownByOption = questionInput.options.map((option) =>
+			option.description && option.description.trim().length > 0
+				? new Markdown(option.description, 0, 0, markdownTheme, {
+						color: (text) => theme.fg("muted", text),
+					})
+				: undefined,
+		);
 
 		const requestUiRerender = () => {
 			cachedRenderedLines = undefined;
@@ -104,41 +144,105 @@ export async function askSingleQuestionWithInlineNote(
 			tui.requestRender();
 		};
 
+		let unsubscribeAbort = () => {};
+		const countdown = createCountdown(requestUiRerender, () => {
+			if (recommendedOptionIndex == null) {
+				finish({ cancelled: true, timedOut: true });
+				return;
+			}
+			finish({
+				cancelled: false,
+				selectedOptionIndex: recommendedOptionIndex,
+				note: getTrimmedNoteForOption(recommendedOptionIndex),
+				timedOut: true,
+			});
+		});
+		const finish = (result: InlineSelectionResult) => {
+			if (isFinished) return;
+			isFinished = true;
+			unsubscribeAbort();
+			countdown.stop();
+			isNoteEditorOpen = false;
+			cachedRenderedLines = undefined;
+			cachedRenderedWidth = undefined;
+			done(result);
+		};
+		unsubscribeAbort = onAbortSignal(options.signal, () => finish({ cancelled: true }));
+
 		const getRawNoteForOption = (optionIndex: number): string => noteByOptionIndex.get(optionIndex) ?? "";
 		const getTrimmedNoteForOption = (optionIndex: number): string => getRawNoteForOption(optionIndex).trim();
 
-		const loadCurrentNoteIntoEditor = () => {
+		const openNoteEditor = () => {
+			isNoteEditorOpen = true;
+			isNoteEditorExpanded = isMultilineNote(getRawNoteForOption(cursorOptionIndex));
 			noteEditor.setText(getRawNoteForOption(cursorOptionIndex));
+			requestUiRerender();
 		};
 
 		const saveCurrentNoteFromEditor = (value: string) => {
 			noteByOptionIndex.set(cursorOptionIndex, value);
 		};
 
-		const submitCurrentSelection = (selectedOptionLabel: string, note: string) => {
-			done({
+		const editNoteInExternalEditor = () => {
+			const editResult = editTextInExternalEditor(tui, getRawNoteForOption(cursorOptionIndex), messages);
+			if (!editResult.ok) {
+				externalEditorError = editResult.error;
+				requestUiRerender();
+				return;
+			}
+			saveCurrentNoteFromEditor(editResult.text);
+			openNoteEditor();
+		};
+
+		const getVisibleOptionIndexes = (): number[] =>
+			filterQuery == null
+				? selectableOptionLabels.map((_optionLabel, optionIndex) => optionIndex)
+				: filterOptionIndexes(baseOptionLabels, filterQuery, otherOptionIndex);
+
+		const updateFilterQuery = (nextFilterQuery: string | undefined) => {
+			filterQuery = nextFilterQuery;
+			const visibleOptionIndexes = getVisibleOptionIndexes();
+			cursorOptionIndex = nextFilterQuery
+				? (visibleOptionIndexes[0] ?? cursorOptionIndex)
+				: resolveVisibleCursorIndex(visibleOptionIndexes, cursorOptionIndex);
+			requestUiRerender();
+		};
+
+		const submitCurrentSelection = (selectedOptionIndex: number, note: string) => {
+			finish({
 				cancelled: false,
-				selectedOption: selectedOptionLabel,
+				selectedOptionIndex,
 				note,
 			});
 		};
 
+		const selectCursorOption = () => {
+			const trimmedNote = getTrimmedNoteForOption(cursorOptionIndex);
+
+			if (cursorOptionIndex === otherOptionIndex && !trimmedNote) {
+				openNoteEditor();
+				return;
+			}
+
+			submitCurrentSelection(cursorOptionIndex, trimmedNote);
+		};
+
 		noteEditor.onChange = (value) => {
 			saveCurrentNoteFromEditor(value);
+			if (value.includes("\n")) isNoteEditorExpanded = true;
 			requestUiRerender();
 		};
 
 		noteEditor.onSubmit = (value) => {
 			saveCurrentNoteFromEditor(value);
-			const selectedOptionLabel = selectableOptionLabels[cursorOptionIndex];
 			const trimmedNote = value.trim();
 
-			if (selectedOptionLabel === OTHER_OPTION && !trimmedNote) {
+			if (cursorOptionIndex === otherOptionIndex && !trimmedNote) {
 				requestUiRerender();
 				return;
 			}
 
-			submitCurrentSelection(selectedOptionLabel, trimmedNote);
+			submitCurrentSelection(cursorOptionIndex, trimmedNote);
 		};
 
 		const render = (width: number): string[] => {
@@ -159,21 +263,49 @@ export async function askSingleQuestionWithInlineNote(
 					addLine(` ${descriptionLine}`);
 				}
 			}
+			if (prefilledAnswerState) {
+				addLine(theme.fg("dim", ` ${formatPrefilledAnswerHint(prefilledAnswerState, messages)}`));
+			}
 			renderedLines.push("");
 
-			const activeEditingCursorIndex = isNoteEditorOpen
-				? getLinearCursorIndexFromEditor(noteEditor)
-				: undefined;
-			for (let optionIndex = 0; optionIndex < selectableOptionLabels.length; optionIndex++) {
-				const optionLabel = selectableOptionLabels[optionIndex];
+			if (filterQuery != null) {
+				const matchingOptionCount = getVisibleOptionIndexes().filter(
+					(optionIndex) => optionIndex !== otherOptionIndex,
+				).length;
+				const filterStatus = formatOptionFilterStatus(
+					filterQuery,
+					matchingOptionCount,
+					baseOptionLabels.length,
+					0,
+					messages,
+				);
+				addLine(theme.fg("accent", ` ${filterStatus}`));
+			}
+
+			const isEditingNoteInline = isNoteEditorOpen && !isNoteEditorExpanded;
+			const activeEditingCursorIndex = isEditingNoteInline ? getLinearCursorIndexFromEditor(noteEditor) : undefined;
+			for (const optionIndex of getVisibleOptionIndexes()) {
+				const matchPositions =
+					filterQuery != null && optionIndex !== otherOptionIndex
+						? (findFuzzyMatchPositions(baseOptionLabels[optionIndex], filterQuery) ?? [])
+						: [];
+				const optionLabel = highlightMatchPositions(selectableOptionLabels[optionIndex], matchPositions, (text) =>
+					theme.underline(theme.bold(text)),
+				);
 				const isCursorOption = optionIndex === cursorOptionIndex;
-				const isEditingThisOption = isNoteEditorOpen && isCursorOption;
+				const isEditingThisOption = isEditingNoteInline && isCursorOption;
+				const quickSelectGutter = formatQuickSelectGutter(
+					optionIndex,
+					!isNoteEditorOpen && filterQuery == null,
+					(key) => theme.fg("dim", key),
+					quickSelectKeys,
+				);
 				const cursorPrefixText = isCursorOption ? "→ " : "  ";
 				const cursorPrefix = isCursorOption ? theme.fg("accent", cursorPrefixText) : cursorPrefixText;
 				const bullet = isCursorOption ? "●" : "○";
 				const markerText = `${bullet} `;
 				const optionColor = isCursorOption ? "accent" : "text";
-				const prefixWidth = visibleWidth(cursorPrefixText) + visibleWidth(markerText);
+				const prefixWidth = quickSelectGutter.width + visibleWidth(cursorPrefixText) + visibleWidth(markerText);
 				const wrappedInlineLabelLines = buildWrappedOptionLabelWithInlineNote(
 					optionLabel,
 					getRawNoteForOption(optionIndex),
@@ -181,22 +313,94 @@ export async function askSingleQuestionWithInlineNote(
 					Math.max(1, width - prefixWidth),
 					INLINE_NOTE_WRAP_PADDING,
 					isEditingThisOption ? activeEditingCursorIndex : undefined,
+					messages,
 				);
 				const continuationPrefix = " ".repeat(prefixWidth);
-				addLine(`${cursorPrefix}${theme.fg(optionColor, `${markerText}${wrappedInlineLabelLines[0] ?? ""}`)}`);
+				addLine(
+					`${quickSelectGutter.text}${cursorPrefix}${theme.fg(optionColor, `${markerText}${wrappedInlineLabelLines[0] ?? ""}`)}`,
+				);
 				for (const wrappedLine of wrappedInlineLabelLines.slice(1)) {
 					addLine(`${continuationPrefix}${theme.fg(optionColor, wrappedLine)}`);
 				}
+				if (
+					isEditingThisOption &&
+					optionIndex === otherOptionIndex &&
+					questionInput.otherPlaceholder &&
+					getRawNoteForOption(optionIndex).length === 0
+				) {
+					addLine(`${continuationPrefix}${theme.fg("dim", questionInput.otherPlaceholder)}`);
+				}
+			}
+
+			if (isNoteEditorOpen && isNoteEditorExpanded) {
+				renderedLines.push("");
+				const [headerLine, ...noteLines] = buildExpandedNoteLines(
+					selectableOptionLabels[cursorOptionIndex],
+					noteEditor.getLines(),
+					Math.max(1, width - EXPANDED_NOTE_INDENT.length),
+					noteEditor.getCursor(),
+					messages,
+				);
+				addLine(theme.fg("muted", ` ${headerLine}`));
+				for (const noteLine of noteLines) {
+					addLine(`${EXPANDED_NOTE_INDENT}${theme.fg("accent", noteLine)}`);
+				}
+			}
+
+			const cursorOptionDescriptionMarkdown = optionDescriptionMarkdownByOption[cursorOptionIndex];
+			if (cursorOptionDescriptionMarkdown) {
+				renderedLines.push("");
+				for (const descriptionLine of cursorOptionDescriptionMarkdown.render(Math.max(1, width - 3))) {
+					addLine(`   ${descriptionLine}`);
+				}
 			}
 
 			renderedLines.push("");
 
-			if (isNoteEditorOpen) {
-				addLine(theme.fg("dim", " Typing note inline • Enter submit • Tab/Esc stop editing"));
-			} else if (getTrimmedNoteForOption(cursorOptionIndex).length > 0) {
-				addLine(theme.fg("dim", " ↑↓ move • Enter submit • Tab edit note • Esc cancel"));
+			if (externalEditorError) {
+				addLine(theme.fg("warning", ` ${externalEditorError}`));
+			}
+			const externalEditorHint = resolveExternalEditorCommand()
+				? ` • ${keyHints.externalEditor} ${hints.externalEditor}`
+				: "";
+			if (isNoteEditorOpen && isNoteEditorExpanded) {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.editingNote} • Enter ${hints.submit} • Shift+Enter ${hints.newLine} • ${keyHints.expandNote} ${hints.collapse} • ${keyHints.stopEditing} ${hints.stopEditing}${externalEditorHint}`,
+					),
+				);
+			} else if (isNoteEditorOpen) {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.typingNoteInline} • Enter ${hints.submit} • ${keyHints.stopEditing} ${hints.stopEditing} • ${keyHints.expandNote} ${hints.expand}${externalEditorHint}`,
+					),
+				);
+			} else if (filterQuery != null) {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.typeToFilter} • ${keyHints.typingMove} ${hints.move} • ${keyHints.select} ${hints.submit} • ${keyHints.note} ${hints.note} • ${keyHints.cancel} ${hints.clearFilter}`,
+					),
+				);
 			} else {
-				addLine(theme.fg("dim", " ↑↓ move • Enter submit • Tab add note • Esc cancel"));
+				const noteAction = getTrimmedNoteForOption(cursorOptionIndex).length > 0 ? hints.editNote : hints.addNote;
+				addLine(
+					theme.fg(
+						"dim",
+						` ${keyHints.move} ${hints.move} • ${keyHints.select} ${hints.submit} • ${keyHints.note} ${noteAction} • ${keyHints.filter} ${hints.filter} • ${keyHints.cancel} ${hints.cancel}`,
+					),
+				);
+			}
+
+			const remainingSeconds = countdown.getRemainingSeconds();
+			if (remainingSeconds != null) {
+				const timeoutAction =
+					recommendedOptionIndex == null
+						? messages.cancelling
+						: messages.autoSelecting(`"${baseOptionLabels[recommendedOptionIndex]}"`);
+				addLine(theme.fg("warning", ` ⏱ ${messages.countdown(timeoutAction, formatCountdown(remainingSeconds))}`));
 			}
 
 			addLine(theme.fg("accent", "─".repeat(width)));
@@ -205,14 +409,24 @@ export async function askSingleQuestionWithInlineNote(
 			return renderedLines;
 		};
 
-		const handleInput = (data: string) => {
-			if (matchesKey(data, Key.ctrl("c"))) {
-				done({ cancelled: true });
+		const handleKeyInput = (data: string) => {
+			if (matchesAskKey(keymap, data, "interrupt")) {
+				finish({ cancelled: true });
 				return;
 			}
 
+			externalEditorError = undefined;
 			if (isNoteEditorOpen) {
-				if (matchesKey(data, Key.tab) || matchesKey(data, Key.escape)) {
+				if (matchesAskKey(keymap, data, "externalEditor", { ignoreCharacterKeys: true })) {
+					editNoteInExternalEditor();
+					return;
+				}
+				if (matchesAskKey(keymap, data, "expandNote", { ignoreCharacterKeys: true })) {
+					isNoteEditorExpanded = !isNoteEditorExpanded;
+					requestUiRerender();
+					return;
+				}
+				if (matchesStopEditingKey(keymap, data)) {
 					isNoteEditorOpen = false;
 					requestUiRerender();
 					return;
@@ -222,44 +436,81 @@ export async function askSingleQuestionWithInlineNote(
 				return;
 			}
 
-			if (matchesKey(data, Key.up)) {
-				cursorOptionIndex = Math.max(0, cursorOptionIndex - 1);
+			if (filterQuery != null) {
+				if (matchesAskKey(keymap, data, "cancel", { ignoreCharacterKeys: true })) {
+					updateFilterQuery(undefined);
+					return;
+				}
+				if (matchesKey(data, Key.backspace)) {
+					updateFilterQuery(filterQuery.length > 0 ? filterQuery.slice(0, -1) : undefined);
+					return;
+				}
+				if (isPrintableCharacter(data)) {
+					updateFilterQuery(`${filterQuery}${data}`);
+					return;
+				}
+				if (getVisibleOptionIndexes().length === 0) return;
+			} else if (matchesAskKey(keymap, data, "filter")) {
+				updateFilterQuery("");
+				return;
+			} else {
+				const quickSelectOptionIndex = findQuickSelectOptionIndex(
+					data,
+					selectableOptionLabels.length,
+					quickSelectKeys,
+				);
+				if (quickSelectOptionIndex != null) {
+					cursorOptionIndex = quickSelectOptionIndex;
+					selectCursorOption();
+					return;
+				}
+			}
+
+			if (matchesAskKey(keymap, data, "up")) {
+				cursorOptionIndex = moveCursorWithinVisibleOptions(getVisibleOptionIndexes(), cursorOptionIndex, -1);
 				requestUiRerender();
 				return;
 			}
-			if (matchesKey(data, Key.down)) {
-				cursorOptionIndex = Math.min(selectableOptionLabels.length - 1, cursorOptionIndex + 1);
+			if (matchesAskKey(keymap, data, "down")) {
+				cursorOptionIndex = moveCursorWithinVisibleOptions(getVisibleOptionIndexes(), cursorOptionIndex, 1);
 				requestUiRerender();
 				return;
 			}
 
-			if (matchesKey(data, Key.tab)) {
-				isNoteEditorOpen = true;
-				loadCurrentNoteIntoEditor();
-				requestUiRerender();
+			if (matchesAskKey(keymap, data, "note")) {
+				openNoteEditor();
 				return;
 			}
 
-			if (matchesKey(data, Key.enter)) {
-				const selectedOptionLabel = selectableOptionLabels[cursorOptionIndex];
-				const trimmedNote = getTrimmedNoteForOption(cursorOptionIndex);
+			if (matchesAskKey(keymap, data, "expandNote")) {
+				openNoteEditor();
+				isNoteEditorExpanded = true;
+				return;
+			}
 
-				if (selectedOptionLabel === OTHER_OPTION && !trimmedNote) {
-					isNoteEditorOpen = true;
-					loadCurrentNoteIntoEditor();
-					requestUiRerender();
-					return;
-				}
+			if (matchesAskKey(keymap, data, "externalEditor")) {
+				editNoteInExternalEditor();
+				return;
+			}
 
-				submitCurrentSelection(selectedOptionLabel, trimmedNote);
+			if (matchesAskKey(keymap, data, "select")) {
+				selectCursorOption();
 				return;
 			}
 
-			if (matchesKey(data, Key.escape)) {
-				done({ cancelled: true });
+			if (matchesAskKey(keymap, data, "cancel")) {
+				finish({ cancelled: true });
 			}
 		};
 
+		const handleInput = (data: string) => {
+			if (isFinished) return;
+			handleKeyInput(data);
+			if (!isFinished) countdown.reset(questionInput.timeoutSeconds);
+		};
+
+		countdown.reset(questionInput.timeoutSeconds);
+
 		return {
 			render,
 			invalidate: () => {
@@ -267,12 +518,31 @@ export async function askSingleQuestionWithInlineNote(
 				cachedRenderedWidth = undefined;
 			},
 			handleInput,
+			dispose: () => {
+				unsubscribeAbort();
+				countdown.stop();
+			},
 		};
 	});
 
-	if (result.cancelled || !result.selectedOption) {
-		return { selectedOptions: [] };
+	const selectedOptionIndex = result.selectedOptionIndex;
+	if (result.cancelled || selectedOptionIndex == null || selectableOptionLabels[selectedOptionIndex] == null) {
+		return result.timedOut ? { selectedOptions: [], timedOut: true } : { selectedOptions: [] };
 	}
 
-	return buildSingleSelectionResult(result.selectedOption, result.note);
+	const noteByOptionIndex = selectableOptionLabels.map((_optionLabel, optionIndex) =>
+		optionIndex === selectedOptionIndex ? (result.note ?? "") : "",
+	);
+	const selectedOptionRecords = buildSelectedOptionRecords(
+		questionInput.options,
+		[selectedOptionIndex],
+		noteByOptionIndex,
+	);
+	const selection: AskSelection = {
+		...(selectedOptionIndex === otherOptionIndex
+			? buildSingleSelectionResult(OTHER_OPTION, result.note)
+			: buildSingleSelectionResult(baseOptionLabels[selectedOptionIndex], result.note, false)),
+		...(selectedOptionRecords.length > 0 ? { selectedOptionRecords } : {}),
+	};
+	return result.timedOut ? { ...selection, timedOut: true } : selection;
 }
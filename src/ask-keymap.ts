@@ -0,0 +1,287 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { KeybindingsManager } from "@mariozechner/pi-coding-agent";
+import { matchesKey, type KeyId } from "@mariozechner/pi-tui";
+import { ASK_LOCALES, getAskMessages, parseAskLocale, resolveAskLocale, type AskLocale } from "./ask-messages";
+import { OPTION_FILTER_KEY } from "./ask-option-filter";
+
+export const ASK_KEYBINDINGS_FILE_ENV = "PI_ASK_KEYBINDINGS_FILE";
+export const DEFAULT_ASK_KEYBINDINGS_FILE = "ask-keybindings.json";
+
+export type AskKeyAction =
+	| "up"
+	| "down"
+	| "previousTab"
+	| "nextTab"
+	| "select"
+	| "note"
+	| "expandNote"
+	| "externalEditor"
+	| "skip"
+	| "cancel"
+	| "filter"
+	| "scrollUp"
+	| "scrollDown"
+	| "reorderUp"
+	| "reorderDown"
+	| "interrupt";
+
+export type AskKeymap = Record<AskKeyAction, string[]>;
+
+export interface AskKeybindingsConfig {
+	vim?: boolean;
+	locale?: AskLocale;
+	bindings?: Partial<AskKeymap>;
+}
+
+export interface AskKeyHints {
+	move: string;
+	typingMove: string;
+	reorder: string;
+	switchTabs: string;
+	select: string;
+	note: string;
+	expandNote: string;
+	externalEditor: string;
+	skip: string;
+	cancel: string;
+	typingCancel: string;
+	filter: string;
+	scroll: string;
+	stopEditing: string;
+}
+
+export const DEFAULT_ASK_KEYMAP: AskKeymap = {
+	up: ["up"],
+	down: ["down"],
+	previousTab: ["left"],
+	nextTab: ["right"],
+	select: ["enter"],
+	note: ["tab"],
+	expandNote: ["ctrl+o"],
+	externalEditor: ["ctrl+g"],
+	skip: ["ctrl+s"],
+	cancel: ["escape"],
+	filter: [OPTION_FILTER_KEY],
+	scrollUp: ["pageUp"],
+	scrollDown: ["pageDown"],
+	reorderUp: ["shift+up", "alt+up"],
+	reorderDown: ["shift+down", "alt+down"],
+	interrupt: ["ctrl+c"],
+};
+
+const VIM_ASK_KEYS: Partial<AskKeymap> = {
+	up: ["k"],
+	down: ["j"],
+	previousTab: ["h"],
+	nextTab: ["l"],
+};
+
+const PI_SELECT_ACTIONS: [AskKeyAction, string][] = [
+	["up", "selectUp"],
+	["down", "selectDown"],
+	["select", "selectConfirm"],
+	["cancel", "selectCancel"],
+	["scrollUp", "selectPageUp"],
+	["scrollDown", "selectPageDown"],
+];
+
+const ASK_KEY_ACTIONS = Object.keys(DEFAULT_ASK_KEYMAP) as AskKeyAction[];
+
+const KEY_LABELS: Record<string, string> = {
+	up: "↑",
+	down: "↓",
+	left: "←",
+	right: "→",
+	enter: "Enter",
+	return: "Enter",
+	escape: "Esc",
+	esc: "Esc",
+	tab: "Tab",
+	space: "Space",
+	backspace: "Backspace",
+	pageUp: "PgUp",
+	pageDown: "PgDn",
+};
+
+function toKeyList(value: unknown): string[] | undefined {
+	const keys = typeof value === "string" ? [value] : value;
+	if (!Array.isArray(keys) || keys.length === 0) return undefined;
+	if (!keys.every((key) => typeof key === "string" && key.trim().length > 0)) return undefined;
+	return keys.map((key: string) => key.trim());
+}
+
+export function parseAskKeybindingsConfig(rawJson: string): AskKeybindingsConfig {
+	const parsed: unknown = JSON.parse(rawJson);
+	if (parsed == null || typeof parsed !== "object" || Array.isArray(parsed)) {
+		throw new Error("keybindings file must contain a JSON object keyed by ask action");
+	}
+
+	const config: AskKeybindingsConfig = {};
+	const bindings: Partial<AskKeymap> = {};
+	for (const [name, value] of Object.entries(parsed)) {
+		if (name === "vim") {
+			if (typeof value !== "boolean") throw new Error('"vim" must be true or false');
+			config.vim = value;
+			continue;
+		}
+		if (name === "locale") {
+			const locale = typeof value === "string" ? parseAskLocale(value) : undefined;
+			if (!locale) throw new Error(`"locale" must be one of: ${ASK_LOCALES.join(", ")}`);
+			config.locale = locale;
+			continue;
+		}
+		const action = ASK_KEY_ACTIONS.find((candidate) => candidate === name);
+		if (!action) {
+			throw new Error(`unknown ask key action "${name}" (expected vim, locale or one of: ${ASK_KEY_ACTIONS.join(", ")})`);
+		}
+		const keys = toKeyList(value);
+		if (!keys) throw new Error(`keys for "${name}" must be a key name or a non-empty array of key names`);
+		bindings[action] = keys;
+	}
+	if (Object.keys(bindings).length > 0) config.bindings = bindings;
+	return config;
+}
+
+export function resolveAskKeybindingsFilePath(agentDir: string): string {
+	return process.env[ASK_KEYBINDINGS_FILE_ENV] || join(agentDir, DEFAULT_ASK_KEYBINDINGS_FILE);
+}
+
+export function loadAskKeybindingsConfig(filePath: string): AskKeybindingsConfig {
+	let rawJson: string;
+	try {
+		rawJson = readFileSync(filePath, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+		throw error;
+	}
+	return parseAskKeybindingsConfig(rawJson);
+}
+
+const reportedKeybindingsWarnings = new Set<string>();
+
+export function loadAskKeybindingsConfigOrDefault(
+	filePath: string,
+	warn: (message: string) => void,
+): AskKeybindingsConfig {
+	try {
+		return loadAskKeybindingsConfig(filePath);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		const warning = getAskMessages(resolveAskLocale()).keybindingsFallback(filePath, reason);
+		if (!reportedKeybindingsWarnings.has(warning)) {
+			reportedKeybindingsWarnings.add(warning);
+			warn(warning);
+		}
+		return {};
+	}
+}
+
+function readPiSelectKeys(piKeybindings: unknown): Partial<AskKeymap> {
+	const getEffectiveConfig = (piKeybindings as Partial<KeybindingsManager> | undefined)?.getEffectiveConfig;
+	if (typeof getEffectiveConfig !== "function") return {};
+
+	const effectiveConfig = getEffectiveConfig.call(piKeybindings) as Record<string, unknown>;
+	const piKeys: Partial<AskKeymap> = {};
+	for (const [action, piAction] of PI_SELECT_ACTIONS) {
+		const keys = toKeyList(effectiveConfig[piAction]);
+		if (keys) piKeys[action] = keys;
+	}
+	return piKeys;
+}
+
+export function resolveAskKeymap(config: AskKeybindingsConfig = {}, piKeybindings?: unknown): AskKeymap {
+	const keymap: AskKeymap = { ...DEFAULT_ASK_KEYMAP, ...readPiSelectKeys(piKeybindings) };
+	if (config.vim) {
+		for (const [action, vimKeys] of Object.entries(VIM_ASK_KEYS) as [AskKeyAction, string[]][]) {
+			keymap[action] = [...keymap[action], ...vimKeys.filter((key) => !keymap[action].includes(key))];
+		}
+	}
+	return { ...keymap, ...config.bindings };
+}
+
+function isCharacterKey(key: string): boolean {
+	return [...key].length === 1;
+}
+
+export function matchesAskKey(
+	keymap: AskKeymap,
+	data: string,
+	action: AskKeyAction,
+	options: { ignoreCharacterKeys?: boolean } = {},
+): boolean {
+	return keymap[action].some((key) => {
+		if (isCharacterKey(key)) return !options.ignoreCharacterKeys && (data === key || matchesKey(data, key as KeyId));
+		return matchesKey(data, key as KeyId);
+	});
+}
+
+export function getBoundCharacterKeys(keymap: AskKeymap): string[] {
+	return Object.values(keymap)
+		.flat()
+		.filter(isCharacterKey);
+}
+
+export function formatKeyLabel(key: string): string {
+	const parts = key.split("+");
+	const baseKey = parts.pop() ?? key;
+	const modifiers = parts.map((modifier) => `${modifier.charAt(0).toUpperCase()}${modifier.slice(1)}+`);
+	const baseLabel = KEY_LABELS[baseKey] ?? (modifiers.length > 0 ? baseKey.toUpperCase() : baseKey);
+	return `${modifiers.join("")}${baseLabel}`;
+}
+
+function splitModifierPrefix(label: string): [string, string] {
+	const prefixEnd = label.lastIndexOf("+", label.length - 2) + 1;
+	return [label.slice(0, prefixEnd), label.slice(prefixEnd)];
+}
+
+function formatKeyPairLabel(firstKeys: string[], secondKeys: string[], separator: string): string {
+	const pairCount = Math.min(firstKeys.length, secondKeys.length);
+	const pairLabels: string[] = [];
+	for (let pairIndex = 0; pairIndex < pairCount; pairIndex++) {
+		const [firstPrefix, firstLabel] = splitModifierPrefix(formatKeyLabel(firstKeys[pairIndex]));
+		const [secondPrefix, secondLabel] = splitModifierPrefix(formatKeyLabel(secondKeys[pairIndex]));
+		pairLabels.push(
+			firstPrefix === secondPrefix
+				? `${firstPrefix}${firstLabel}${separator}${secondLabel}`
+				: `${firstPrefix}${firstLabel}${separator}${secondPrefix}${secondLabel}`,
+		);
+	}
+	return pairLabels.join(" ");
+}
+
+function withoutCharacterKeys(keys: string[]): string[] {
+	return keys.filter((key) => !isCharacterKey(key));
+}
+
+export function matchesStopEditingKey(keymap: AskKeymap, data: string): boolean {
+	return (
+		matchesAskKey(keymap, data, "note", { ignoreCharacterKeys: true }) ||
+		matchesAskKey(keymap, data, "cancel", { ignoreCharacterKeys: true })
+	);
+}
+
+export function formatAskKeyHints(keymap: AskKeymap): AskKeyHints {
+	const firstKeyLabel = (action: AskKeyAction) => formatKeyLabel(keymap[action][0] ?? "");
+	const findEditorSafeKey = (action: AskKeyAction) =>
+		keymap[action].find((key) => !isCharacterKey(key) && !keymap.interrupt.includes(key));
+	const stopEditingKeys = [findEditorSafeKey("note"), findEditorSafeKey("cancel")].filter(
+		(key): key is string => key != null,
+	);
+	return {
+		move: formatKeyPairLabel(keymap.up, keymap.down, ""),
+		typingMove: formatKeyPairLabel(withoutCharacterKeys(keymap.up), withoutCharacterKeys(keymap.down), ""),
+		reorder: formatKeyPairLabel(keymap.reorderUp.slice(0, 1), keymap.reorderDown.slice(0, 1), ""),
+		switchTabs: formatKeyPairLabel(keymap.previousTab, keymap.nextTab, "/"),
+		select: firstKeyLabel("select"),
+		note: firstKeyLabel("note"),
+		expandNote: firstKeyLabel("expandNote"),
+		externalEditor: firstKeyLabel("externalEditor"),
+		skip: firstKeyLabel("skip"),
+		cancel: firstKeyLabel("cancel"),
+		typingCancel: formatKeyLabel(findEditorSafeKey("cancel") ?? keymap.interrupt[0] ?? ""),
+		filter: firstKeyLabel("filter"),
+		scroll: `${firstKeyLabel("scrollUp")}/${firstKeyLabel("scrollDown")}`,
+		stopEditing: stopEditingKeys.map(formatKeyLabel).join("/"),
+	};
+}
@@ -1,55 +1,315 @@
+import { ASK_LOCALES, ASK_MESSAGES, getAskMessages, type AskMessages } from "./ask-messages";
+
 export const OTHER_OPTION = "Other (type your own)";
-const RECOMMENDED_OPTION_TAG = " (Recommended)";
+export const NUMBER_ENTRY_OPTION = "Enter a number";
+const RECOMMENDED_OPTION_TAG = ASK_MESSAGES.en.recommendedTag;
+const RECOMMENDED_OPTION_TAGS = ASK_LOCALES.map((locale) => ASK_MESSAGES[locale].recommendedTag);
 
 export interface AskOption {
 	label: string;
+	value?: string;
+	description?: string;
+}
+
+export interface AskSelectedOption {
+	value: string;
+	label: string;
+	index: number;
+	note?: string;
+}
+
+export type AskQuestionType = "choice" | "text" | "rank" | "number";
+
+export interface AskOptionDefault {
+	index: number;
+	note?: string;
+}
+
+export interface AskQuestionCondition {
+	id: string;
+	selected: string | string[];
 }
 
 export interface AskQuestion {
 	id: string;
 	question: string;
 	description?: string;
+	type?: AskQuestionType;
 	options: AskOption[];
+	allowOther?: boolean;
+	otherLabel?: string;
+	otherPlaceholder?: string;
 	multi?: boolean;
-	recommended?: number;
+	recommended?: number | number[];
+	defaults?: AskOptionDefault[];
+	timeoutSeconds?: number;
+	showIf?: AskQuestionCondition;
+	placeholder?: string;
+	minLength?: number;
+	maxLength?: number;
+	required?: boolean;
+	presets?: number[];
+	min?: number;
+	max?: number;
+	step?: number;
+	unit?: string;
+	minSelect?: number;
+	maxSelect?: number;
+	previousAnswer?: AskPrefilledAnswer;
+	presetAnswer?: AskPrefilledAnswer;
+	reusePrevious?: boolean;
 }
 
 export interface AskSelection {
 	selectedOptions: string[];
+	selectedOptionRecords?: AskSelectedOption[];
 	customInput?: string;
+	numberValue?: number;
+	timedOut?: boolean;
+	notApplicable?: boolean;
+	skipped?: boolean;
+	defaultsAccepted?: boolean;
+	reusedPrevious?: boolean;
+}
+
+export type AskPrefilledAnswer = Pick<
+	AskSelection,
+	"selectedOptions" | "selectedOptionRecords" | "customInput" | "numberValue"
+>;
+
+type TextAnswerConstraints = Pick<AskQuestion, "minLength" | "maxLength" | "required">;
+type NumberAnswerConstraints = Pick<AskQuestion, "min" | "max" | "step">;
+type SelectionLimits = Pick<AskQuestion, "minSelect" | "maxSelect">;
+
+const NUMBER_ANSWER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)(e[-+]?\d+)?$/i;
+const NUMBER_STEP_TOLERANCE = 1e-9;
+
+export function isTextQuestion(question: Pick<AskQuestion, "type">): boolean {
+	return question.type === "text";
+}
+
+export function isRankQuestion(question: Pick<AskQuestion, "type">): boolean {
+	return question.type === "rank";
+}
+
+export function isNumberQuestion(question: Pick<AskQuestion, "type">): boolean {
+	return question.type === "number";
+}
+
+export function allowsOtherOption(question: Pick<AskQuestion, "type" | "allowOther">): boolean {
+	return (question.type ?? "choice") === "choice" && question.allowOther !== false;
+}
+
+export function getTextAnswerIssue(
+	constraints: TextAnswerConstraints,
+	text: string,
+	messages: AskMessages = getAskMessages(),
+): string | undefined {
+	const answerLength = text.trim().length;
+	if (answerLength === 0) {
+		return constraints.required === false ? undefined : messages.validation.answerRequired;
+	}
+	if (constraints.minLength != null && answerLength < constraints.minLength) {
+		return messages.validation.minLength(constraints.minLength);
+	}
+	if (constraints.maxLength != null && answerLength > constraints.maxLength) {
+		return messages.validation.maxLength(constraints.maxLength);
+	}
+	return undefined;
+}
+
+export function buildTextSelectionResult(text: string): AskSelection {
+	const normalizedText = text.trim();
+	if (!normalizedText) {
+		return { selectedOptions: [], skipped: true };
+	}
+	return { selectedOptions: [], customInput: normalizedText };
+}
+
+export function parseNumberAnswer(text: string): number | undefined {
+	const normalizedText = text.trim();
+	if (!NUMBER_ANSWER_PATTERN.test(normalizedText)) return undefined;
+	const value = Number(normalizedText);
+	return Number.isFinite(value) ? value : undefined;
+}
+
+export function getNumberAnswerIssue(
+	constraints: NumberAnswerConstraints,
+	text: string,
+	messages: AskMessages = getAskMessages(),
+): string | undefined {
+	if (text.trim().length === 0) return messages.validation.enterNumber;
+
+	const value = parseNumberAnswer(text);
+	if (value == null) return messages.validation.notANumber;
+	if (constraints.min != null && value < constraints.min) return messages.validation.atLeast(constraints.min);
+	if (constraints.max != null && value > constraints.max) return messages.validation.atMost(constraints.max);
+
+	if (constraints.step != null && constraints.step > 0) {
+		const stepBase = constraints.min ?? 0;
+		const stepCount = (value - stepBase) / constraints.step;
+		if (Math.abs(stepCount - Math.round(stepCount)) > NUMBER_STEP_TOLERANCE) {
+			return stepBase === 0
+				? messages.validation.multipleOf(constraints.step)
+				: messages.validation.offsetMultipleOf(stepBase, constraints.step);
+		}
+	}
+	return undefined;
+}
+
+export function formatNumberWithUnit(value: number, unit?: string): string {
+	const normalizedUnit = unit?.trim();
+	return normalizedUnit ? `${value} ${normalizedUnit}` : String(value);
+}
+
+export function formatNumberConstraints(
+	constraints: NumberAnswerConstraints,
+	messages: AskMessages = getAskMessages(),
+): string | undefined {
+	const constraintParts: string[] = [];
+	if (constraints.min != null && constraints.max != null) {
+		constraintParts.push(messages.constraints.numberRange(constraints.min, constraints.max));
+	} else if (constraints.min != null) {
+		constraintParts.push(messages.constraints.numberAtLeast(constraints.min));
+	} else if (constraints.max != null) {
+		constraintParts.push(messages.constraints.numberAtMost(constraints.max));
+	}
+	if (constraints.step != null) {
+		constraintParts.push(messages.constraints.numberStep(constraints.step));
+	}
+	return constraintParts.length > 0 ? constraintParts.join(", ") : undefined;
+}
+
+export function buildNumberSelectionResult(value: number, unit?: string): AskSelection {
+	return { selectedOptions: [formatNumberWithUnit(value, unit)], numberValue: value };
+}
+
+export function getMultiSelectionIssue(
+	limits: SelectionLimits,
+	selectedCount: number,
+	messages: AskMessages = getAskMessages(),
+): string | undefined {
+	const minSelect = Math.max(1, limits.minSelect ?? 1);
+	if (selectedCount < minSelect) return messages.validation.pickAtLeast(minSelect);
+	if (limits.maxSelect != null && selectedCount > limits.maxSelect) return messages.validation.pickAtMost(limits.maxSelect);
+	return undefined;
+}
+
+export function isMultiSelectionFull(limits: SelectionLimits, selectedCount: number): boolean {
+	return limits.maxSelect != null && selectedCount >= limits.maxSelect;
+}
+
+export function formatSelectionLimits(
+	limits: SelectionLimits,
+	messages: AskMessages = getAskMessages(),
+): string | undefined {
+	const { minSelect, maxSelect } = limits;
+	if (minSelect != null && maxSelect != null) {
+		return minSelect === maxSelect
+			? messages.constraints.pickExactly(minSelect)
+			: messages.constraints.pickRange(minSelect, maxSelect);
+	}
+	if (minSelect != null) return messages.constraints.pickAtLeast(minSelect);
+	if (maxSelect != null) return messages.constraints.pickAtMost(maxSelect);
+	return undefined;
+}
+
+export function moveRankedOption(rankedOptionIndexes: number[], fromPosition: number, direction: 1 | -1): number[] {
+	const toPosition = fromPosition + direction;
+	if (fromPosition < 0 || fromPosition >= rankedOptionIndexes.length) return rankedOptionIndexes;
+	if (toPosition < 0 || toPosition >= rankedOptionIndexes.length) return rankedOptionIndexes;
+
+	const reorderedOptionIndexes = [...rankedOptionIndexes];
+	[reorderedOptionIndexes[fromPosition], reorderedOptionIndexes[toPosition]] = [
+		reorderedOptionIndexes[toPosition],
+		reorderedOptionIndexes[fromPosition],
+	];
+	return reorderedOptionIndexes;
+}
+
+export function buildRankSelectionResult(optionLabels: string[], rankedOptionIndexes: number[]): AskSelection {
+	const selectedOptions = rankedOptionIndexes
+		.map((optionIndex) => optionLabels[optionIndex])
+		.filter((optionLabel): optionLabel is string => optionLabel != null);
+	return { selectedOptions };
+}
+
+export function formatRanking(rankedOptionLabels: string[]): string {
+	return rankedOptionLabels.map((optionLabel, position) => `${position + 1}. ${optionLabel}`).join(", ");
+}
+
+export function buildSelectedOptionRecords(
+	options: AskOption[],
+	selectedOptionIndexes: number[],
+	noteByOptionIndex: string[] = [],
+): AskSelectedOption[] {
+	return selectedOptionIndexes
+		.filter((optionIndex) => optionIndex >= 0 && optionIndex < options.length)
+		.map((optionIndex) => {
+			const option = options[optionIndex];
+			const note = noteByOptionIndex[optionIndex]?.trim();
+			return { value: option.value ?? option.label, label: option.label, index: optionIndex, ...(note ? { note } : {}) };
+		});
+}
+
+export function isQuestionConditionMet(
+	condition: AskQuestionCondition | undefined,
+	selectedOptionLabels: string[] | undefined,
+): boolean {
+	if (!condition) return true;
+	if (!selectedOptionLabels) return false;
+	const expectedOptionLabels = Array.isArray(condition.selected) ? condition.selected : [condition.selected];
+	return expectedOptionLabels.some((optionLabel) => selectedOptionLabels.includes(optionLabel));
+}
+
+export function resolveRecommendedOptionIndexes(
+	recommended: number | number[] | undefined,
+	optionCount: number,
+): number[] {
+	if (recommended == null) return [];
+	const candidateOptionIndexes = Array.isArray(recommended) ? recommended : [recommended];
+	const recommendedOptionIndexes: number[] = [];
+	for (const optionIndex of candidateOptionIndexes) {
+		if (!Number.isInteger(optionIndex) || optionIndex < 0 || optionIndex >= optionCount) continue;
+		if (!recommendedOptionIndexes.includes(optionIndex)) recommendedOptionIndexes.push(optionIndex);
+	}
+	return recommendedOptionIndexes;
 }
 
 export function appendRecommendedTagToOptionLabels(
 	optionLabels: string[],
-	recommendedOptionIndex?: number,
+	recommended?: number | number[],
+	recommendedTag = RECOMMENDED_OPTION_TAG,
 ): string[] {
-	if (
-		recommendedOptionIndex == null ||
-		recommendedOptionIndex < 0 ||
-		recommendedOptionIndex >= optionLabels.length
-	) {
+	const recommendedOptionIndexes = resolveRecommendedOptionIndexes(recommended, optionLabels.length);
+	if (recommendedOptionIndexes.length === 0) {
 		return optionLabels;
 	}
 
 	return optionLabels.map((optionLabel, optionIndex) => {
-		if (optionIndex !== recommendedOptionIndex) return optionLabel;
-		if (optionLabel.endsWith(RECOMMENDED_OPTION_TAG)) return optionLabel;
-		return `${optionLabel}${RECOMMENDED_OPTION_TAG}`;
+		if (!recommendedOptionIndexes.includes(optionIndex)) return optionLabel;
+		if (optionLabel.endsWith(recommendedTag)) return optionLabel;
+		return `${optionLabel}${recommendedTag}`;
 	});
 }
 
-function removeRecommendedTagFromOptionLabel(optionLabel: string): string {
-	if (!optionLabel.endsWith(RECOMMENDED_OPTION_TAG)) {
+export function removeRecommendedTagFromOptionLabel(optionLabel: string): string {
+	const recommendedTag = RECOMMENDED_OPTION_TAGS.find((tag) => optionLabel.endsWith(tag));
+	if (!recommendedTag) {
 		return optionLabel;
 	}
-	return optionLabel.slice(0, -RECOMMENDED_OPTION_TAG.length);
+	return optionLabel.slice(0, -recommendedTag.length);
 }
 
-export function buildSingleSelectionResult(selectedOptionLabel: string, note?: string): AskSelection {
+export function buildSingleSelectionResult(
+	selectedOptionLabel: string,
+	note?: string,
+	allowOther = true,
+): AskSelection {
 	const normalizedSelectedOption = removeRecommendedTagFromOptionLabel(selectedOptionLabel);
 	const normalizedNote = note?.trim();
 
-	if (normalizedSelectedOption === OTHER_OPTION) {
+	if (allowOther && normalizedSelectedOption === OTHER_OPTION) {
 		if (normalizedNote) {
 			return { selectedOptions: [], customInput: normalizedNote };
 		}
@@ -0,0 +1,443 @@
+export const ASK_LOCALE_ENV = "PI_ASK_LOCALE";
+
+export type AskLocale = "en" | "ko" | "ja";
+
+export interface AskMessages {
+	otherOption: string;
+	numberEntryOption: string;
+	recommendedTag: string;
+	otherAnswer: string;
+	submitTab: string;
+	reviewAnswers: string;
+	pressEnterToSubmit: string;
+	completeRequiredAnswers: (missingQuestions: string) => string;
+	notAnswered: string;
+	notApplicable: string;
+	skipped: string;
+	timedOut: string;
+	countdown: (action: string, remainingTime: string) => string;
+	cancelling: string;
+	movingOn: string;
+	keepingCurrentOrder: string;
+	leavingUnanswered: string;
+	autoSelecting: (optionLabels: string) => string;
+	timingOut: (questionLabels: string) => string;
+	allowedNumbers: (constraints: string) => string;
+	maxSelectReached: (maxSelect: number) => string;
+	selectedCount: (selectedCount: number) => string;
+	filterQuery: (query: string) => string;
+	noMatches: string;
+	matchCount: (matchingOptionCount: number, optionCount: number) => string;
+	selectedHidden: (hiddenSelectedCount: number) => string;
+	moreAbove: (hiddenCount: number) => string;
+	moreBelow: (hiddenCount: number) => string;
+	hiddenDescriptionLines: (indicator: string, scrollKeys: string) => string;
+	previouslyAnswered: (summary: string) => string;
+	projectPreset: (summary: string) => string;
+	noteHeader: (optionLabel: string, lineCount: number) => string;
+	inlineNote: (note: string, lineCount: number) => string;
+	textLength: (answerLength: number, maxLength?: number) => string;
+	keybindingsFallback: (filePath: string, reason: string) => string;
+	validation: {
+		answerRequired: string;
+		minLength: (minLength: number) => string;
+		maxLength: (maxLength: number) => string;
+		enterNumber: string;
+		notANumber: string;
+		atLeast: (min: number) => string;
+		atMost: (max: number) => string;
+		multipleOf: (step: number) => string;
+		offsetMultipleOf: (stepBase: number, step: number) => string;
+		pickAtLeast: (minSelect: number) => string;
+		pickAtMost: (maxSelect: number) => string;
+	};
+	constraints: {
+		pickExactly: (count: number) => string;
+		pickRange: (minSelect: number, maxSelect: number) => string;
+		pickAtLeast: (minSelect: number) => string;
+		pickAtMost: (maxSelect: number) => string;
+		numberRange: (min: number, max: number) => string;
+		numberAtLeast: (min: number) => string;
+		numberAtMost: (max: number) => string;
+		numberStep: (step: number) => string;
+	};
+	editorErrors: {
+		noEditor: string;
+		startFailed: (editor: string, reason: string) => string;
+		terminated: (signal: string) => string;
+		exitCode: (status: number | null) => string;
+		editFailed: (reason: string) => string;
+	};
+	history: {
+		requiresInteractive: (command: string) => string;
+		noCalls: string;
+		selectTitle: string;
+		noAnswer: string;
+		noChanges: string;
+	};
+	hints: {
+		move: string;
+		select: string;
+		toggleSelect: string;
+		submit: string;
+		note: string;
+		addNote: string;
+		editNote: string;
+		filter: string;
+		clearFilter: string;
+		typeToFilter: string;
+		switchTabs: string;
+		cancel: string;
+		typingNoteInline: string;
+		editingNote: string;
+		saveNote: string;
+		save: string;
+		newLine: string;
+		stopEditing: string;
+		expand: string;
+		collapse: string;
+		externalEditor: string;
+		typingAnswer: string;
+		editAnswer: string;
+		typingNumber: string;
+		typeNumber: string;
+		reorder: string;
+		confirmOrder: string;
+		skip: string;
+	};
+}
+
+export const ASK_MESSAGES: Record<AskLocale, AskMessages> = {
+	en: {
+		otherOption: "Other (type your own)",
+		numberEntryOption: "Enter a number",
+		recommendedTag: " (Recommended)",
+		otherAnswer: "Other",
+		submitTab: "Submit",
+		reviewAnswers: "Review answers",
+		pressEnterToSubmit: "Press Enter to submit",
+		completeRequiredAnswers: (missingQuestions) => `Complete required answers: ${missingQuestions}`,
+		notAnswered: "(not answered)",
+		notApplicable: "(not applicable)",
+		skipped: "(skipped)",
+		timedOut: "(timed out)",
+		countdown: (action, remainingTime) => `${action} in ${remainingTime} • any key resets`,
+		cancelling: "Cancelling",
+		movingOn: "Moving on",
+		keepingCurrentOrder: "Keeping current order",
+		leavingUnanswered: "Leaving unanswered",
+		autoSelecting: (optionLabels) => `Auto-selecting ${optionLabels}`,
+		timingOut: (questionLabels) => `Timing out ${questionLabels}`,
+		allowedNumbers: (constraints) => `Allowed: ${constraints}`,
+		maxSelectReached: (maxSelect) => `Maximum of ${maxSelect} reached • deselect an option first`,
+		selectedCount: (selectedCount) => `${selectedCount} selected`,
+		filterQuery: (query) => `Filter: ${query}▏`,
+		noMatches: "no matches",
+		matchCount: (matchingOptionCount, optionCount) => `${matchingOptionCount} of ${optionCount} match`,
+		selectedHidden: (hiddenSelectedCount) => `${hiddenSelectedCount} selected hidden`,
+		moreAbove: (hiddenCount) => `↑ ${hiddenCount} more`,
+		moreBelow: (hiddenCount) => `↓ ${hiddenCount} more`,
+		hiddenDescriptionLines: (indicator, scrollKeys) => `${indicator} lines • ${scrollKeys} scroll`,
+		previouslyAnswered: (summary) => `↺ Previously answered: ${summary}`,
+		projectPreset: (summary) => `★ Project preset: ${summary}`,
+		noteHeader: (optionLabel, lineCount) => `Note on ${optionLabel} (${lineCount} ${lineCount === 1 ? "line" : "lines"}):`,
+		inlineNote: (note, lineCount) => (lineCount > 1 ? `note (${lineCount} lines): ${note}` : `note: ${note}`),
+		textLength: (answerLength, maxLength) =>
+			maxLength == null ? `${answerLength} chars` : `${answerLength}/${maxLength} chars`,
+		keybindingsFallback: (filePath, reason) =>
+			`Could not read ask keybindings file ${filePath}: ${reason} • using the default keys`,
+		validation: {
+			answerRequired: "An answer is required",
+			minLength: (minLength) => `Enter at least ${minLength} characters`,
+			maxLength: (maxLength) => `Keep it to ${maxLength} characters or fewer`,
+			enterNumber: "Enter a number",
+			notANumber: "Not a number",
+			atLeast: (min) => `Must be at least ${min}`,
+			atMost: (max) => `Must be at most ${max}`,
+			multipleOf: (step) => `Must be a multiple of ${step}`,
+			offsetMultipleOf: (stepBase, step) => `Must be ${stepBase} plus a multiple of ${step}`,
+			pickAtLeast: (minSelect) => `Pick at least ${minSelect}`,
+			pickAtMost: (maxSelect) => `Pick at most ${maxSelect}`,
+		},
+		constraints: {
+			pickExactly: (count) => `pick exactly ${count}`,
+			pickRange: (minSelect, maxSelect) => `pick ${minSelect} to ${maxSelect}`,
+			pickAtLeast: (minSelect) => `pick at least ${minSelect}`,
+			pickAtMost: (maxSelect) => `pick at most ${maxSelect}`,
+			numberRange: (min, max) => `${min} to ${max}`,
+			numberAtLeast: (min) => `at least ${min}`,
+			numberAtMost: (max) => `at most ${max}`,
+			numberStep: (step) => `step ${step}`,
+		},
+		editorErrors: {
+			noEditor: "Set $VISUAL or $EDITOR to edit notes in an external editor",
+			startFailed: (editor, reason) => `Could not start editor "${editor}": ${reason}`,
+			terminated: (signal) => `Editor was terminated by ${signal}; note unchanged`,
+			exitCode: (status) => `Editor exited with code ${status}; note unchanged`,
+			editFailed: (reason) => `Could not edit note in external editor: ${reason}`,
+		},
+		history: {
+			requiresInteractive: (command) => `/${command} requires interactive mode`,
+			noCalls: "No ask calls on this session branch yet",
+			selectTitle: "Ask history (newest first)",
+			noAnswer: "(no answer)",
+			noChanges: "No answers changed",
+		},
+		hints: {
+			move: "move",
+			select: "select",
+			toggleSelect: "toggle/select",
+			submit: "submit",
+			note: "note",
+			addNote: "add note",
+			editNote: "edit note",
+			filter: "filter",
+			clearFilter: "clear filter",
+			typeToFilter: "Type to filter",
+			switchTabs: "switch tabs",
+			cancel: "cancel",
+			typingNoteInline: "Typing note inline",
+			editingNote: "Editing note",
+			saveNote: "save note",
+			save: "save",
+			newLine: "new line",
+			stopEditing: "stop editing",
+			expand: "expand",
+			collapse: "collapse",
+			externalEditor: "external editor",
+			typingAnswer: "Typing answer",
+			editAnswer: "edit answer",
+			typingNumber: "Typing number",
+			typeNumber: "type a number",
+			reorder: "reorder",
+			confirmOrder: "confirm order",
+			skip: "skip",
+		},
+	},
+	ko: {
+		otherOption: "기타 (직접 입력)",
+		numberEntryOption: "숫자 입력",
+		recommendedTag: " (추천)",
+		otherAnswer: "기타",
+		submitTab: "제출",
+		reviewAnswers: "답변 검토",
+		pressEnterToSubmit: "Enter를 눌러 제출",
+		completeRequiredAnswers: (missingQuestions) => `필수 답변을 완료하세요: ${missingQuestions}`,
+		notAnswered: "(미응답)",
+		notApplicable: "(해당 없음)",
+		skipped: "(건너뜀)",
+		timedOut: "(시간 초과)",
+		countdown: (action, remainingTime) => `${remainingTime} 후 ${action} • 아무 키나 누르면 초기화`,
+		cancelling: "취소",
+		movingOn: "다음으로 이동",
+		keepingCurrentOrder: "현재 순서 유지",
+		leavingUnanswered: "미응답으로 남김",
+		autoSelecting: (optionLabels) => `${optionLabels} 자동 선택`,
+		timingOut: (questionLabels) => `${questionLabels} 시간 초과 처리`,
+		allowedNumbers: (constraints) => `허용 범위: ${constraints}`,
+		maxSelectReached: (maxSelect) => `최대 ${maxSelect}개 선택됨 • 먼저 선택을 해제하세요`,
+		selectedCount: (selectedCount) => `${selectedCount}개 선택됨`,
+		filterQuery: (query) => `필터: ${query}▏`,
+		noMatches: "일치 항목 없음",
+		matchCount: (matchingOptionCount, optionCount) => `${optionCount}개 중 ${matchingOptionCount}개 일치`,
+		selectedHidden: (hiddenSelectedCount) => `선택 항목 ${hiddenSelectedCount}개 숨겨짐`,
+		moreAbove: (hiddenCount) => `↑ ${hiddenCount}개 더`,
+		moreBelow: (hiddenCount) => `↓ ${hiddenCount}개 더`,
+		hiddenDescriptionLines: (indicator, scrollKeys) => `설명 ${indicator} • ${scrollKeys} 스크롤`,
+		previouslyAnswered: (summary) => `↺ 이전 답변: ${summary}`,
+		projectPreset: (summary) => `★ 프로젝트 프리셋: ${summary}`,
+		noteHeader: (optionLabel, lineCount) => `${optionLabel} 메모 (${lineCount}줄):`,
+		inlineNote: (note, lineCount) => (lineCount > 1 ? `메모 (${lineCount}줄): ${note}` : `메모: ${note}`),
+		textLength: (answerLength, maxLength) => (maxLength == null ? `${answerLength}자` : `${answerLength}/${maxLength}자`),
+		keybindingsFallback: (filePath, reason) =>
+			`ask 키 설정 파일 ${filePath}을(를) 읽을 수 없습니다: ${reason} • 기본 키를 사용합니다`,
+		validation: {
+			answerRequired: "답변이 필요합니다",
+			minLength: (minLength) => `${minLength}자 이상 입력하세요`,
+			maxLength: (maxLength) => `${maxLength}자 이하로 입력하세요`,
+			enterNumber: "숫자를 입력하세요",
+			notANumber: "숫자가 아닙니다",
+			atLeast: (min) => `${min} 이상이어야 합니다`,
+			atMost: (max) => `${max} 이하여야 합니다`,
+			multipleOf: (step) => `${step}의 배수여야 합니다`,
+			offsetMultipleOf: (stepBase, step) => `${stepBase}에 ${step}의 배수를 더한 값이어야 합니다`,
+			pickAtLeast: (minSelect) => `${minSelect}개 이상 선택하세요`,
+			pickAtMost: (maxSelect) => `${maxSelect}개 이하로 선택하세요`,
+		},
+		constraints: {
+			pickExactly: (count) => `정확히 ${count}개 선택`,
+			pickRange: (minSelect, maxSelect) => `${minSelect}~${maxSelect}개 선택`,
+			pickAtLeast: (minSelect) => `${minSelect}개 이상 선택`,
+			pickAtMost: (maxSelect) => `${maxSelect}개 이하 선택`,
+			numberRange: (min, max) => `${min}~${max}`,
+			numberAtLeast: (min) => `${min} 이상`,
+			numberAtMost: (max) => `${max} 이하`,
+			numberStep: (step) => `${step} 단위`,
+		},
+		editorErrors: {
+			noEditor: "외부 편집기로 메모를 편집하려면 $VISUAL 또는 $EDITOR를 설정하세요",
+			startFailed: (editor, reason) => `편집기 "${editor}"를 시작할 수 없습니다: ${reason}`,
+			terminated: (signal) => `편집기가 ${signal}(으)로 종료되었습니다. 메모는 변경되지 않았습니다`,
+			exitCode: (status) => `편집기가 코드 ${status}(으)로 종료되었습니다. 메모는 변경되지 않았습니다`,
+			editFailed: (reason) => `외부 편집기에서 메모를 편집할 수 없습니다: ${reason}`,
+		},
+		history: {
+			requiresInteractive: (command) => `/${command}는 대화형 모드에서만 사용할 수 있습니다`,
+			noCalls: "이 세션 브랜치에는 아직 ask 호출이 없습니다",
+			selectTitle: "ask 기록 (최신순)",
+			noAnswer: "(답변 없음)",
+			noChanges: "변경된 답변이 없습니다",
+		},
+		hints: {
+			move: "이동",
+			select: "선택",
+			toggleSelect: "선택/해제",
+			submit: "제출",
+			note: "메모",
+			addNote: "메모 추가",
+			editNote: "메모 편집",
+			filter: "필터",
+			clearFilter: "필터 지우기",
+			typeToFilter: "입력하여 필터",
+			switchTabs: "탭 전환",
+			cancel: "취소",
+			typingNoteInline: "메모 입력 중",
+			editingNote: "메모 편집 중",
+			saveNote: "메모 저장",
+			save: "저장",
+			newLine: "줄바꿈",
+			stopEditing: "편집 종료",
+			expand: "펼치기",
+			collapse: "접기",
+			externalEditor: "외부 편집기",
+			typingAnswer: "답변 입력 중",
+			editAnswer: "답변 편집",
+			typingNumber: "숫자 입력 중",
+			typeNumber: "숫자 입력",
+			reorder: "순서 변경",
+			confirmOrder: "순서 확정",
+			skip: "건너뛰기",
+		},
+	},
+	ja: {
+		otherOption: "その他 (自由入力)",
+		numberEntryOption: "数値を入力",
+		recommendedTag: " (推奨)",
+		otherAnswer: "その他",
+		submitTab: "送信",
+		reviewAnswers: "回答の確認",
+		pressEnterToSubmit: "Enter で送信",
+		completeRequiredAnswers: (missingQuestions) => `必須の回答を完了してください: ${missingQuestions}`,
+		notAnswered: "(未回答)",
+		notApplicable: "(対象外)",
+		skipped: "(スキップ)",
+		timedOut: "(タイムアウト)",
+		countdown: (action, remainingTime) => `${remainingTime} 後に${action} • いずれかのキーでリセット`,
+		cancelling: "キャンセル",
+		movingOn: "次へ進む",
+		keepingCurrentOrder: "現在の順序を維持",
+		leavingUnanswered: "未回答のまま",
+		autoSelecting: (optionLabels) => `${optionLabels} を自動選択`,
+		timingOut: (questionLabels) => `${questionLabels} をタイムアウト`,
+		allowedNumbers: (constraints) => `許可: ${constraints}`,
+		maxSelectReached: (maxSelect) => `最大 ${maxSelect} 件を選択済み • 先に選択を解除してください`,
+		selectedCount: (selectedCount) => `${selectedCount} 件選択`,
+		filterQuery: (query) => `絞り込み: ${query}▏`,
+		noMatches: "一致なし",
+		matchCount: (matchingOptionCount, optionCount) => `${optionCount} 件中 ${matchingOptionCount} 件一致`,
+		selectedHidden: (hiddenSelectedCount) => `選択済み ${hiddenSelectedCount} 件が非表示`,
+		moreAbove: (hiddenCount) => `↑ 他 ${hiddenCount} 件`,
+		moreBelow: (hiddenCount) => `↓ 他 ${hiddenCount} 件`,
+		hiddenDescriptionLines: (indicator, scrollKeys) => `説明 ${indicator} • ${scrollKeys} でスクロール`,
+		previouslyAnswered: (summary) => `↺ 前回の回答: ${summary}`,
+		projectPreset: (summary) => `★ プロジェクトのプリセット: ${summary}`,
+		noteHeader: (optionLabel, lineCount) => `${optionLabel} のメモ (${lineCount} 行):`,
+		inlineNote: (note, lineCount) => (lineCount > 1 ? `メモ (${lineCount} 行): ${note}` : `メモ: ${note}`),
+		textLength: (answerLength, maxLength) =>
+			maxLength == null ? `${answerLength} 文字` : `${answerLength}/${maxLength} 文字`,
+		keybindingsFallback: (filePath, reason) =>
+			`ask のキー設定ファイル ${filePath} を読み込めません: ${reason} • 既定のキーを使用します`,
+		validation: {
+			answerRequired: "回答が必要です",
+			minLength: (minLength) => `${minLength} 文字以上入力してください`,
+			maxLength: (maxLength) => `${maxLength} 文字以内にしてください`,
+			enterNumber: "数値を入力してください",
+			notANumber: "数値ではありません",
+			atLeast: (min) => `${min} 以上にしてください`,
+			atMost: (max) => `${max} 以下にしてください`,
+			multipleOf: (step) => `${step} の倍数にしてください`,
+			offsetMultipleOf: (stepBase, step) => `${stepBase} に ${step} の倍数を足した値にしてください`,
+			pickAtLeast: (minSelect) => `${minSelect} 件以上選択してください`,
+			pickAtMost: (maxSelect) => `${maxSelect} 件以下で選択してください`,
+		},
+		constraints: {
+			pickExactly: (count) => `ちょうど ${count} 件選択`,
+			pickRange: (minSelect, maxSelect) => `${minSelect}〜${maxSelect} 件選択`,
+			pickAtLeast: (minSelect) => `${minSelect} 件以上選択`,
+			pickAtMost: (maxSelect) => `${maxSelect} 件以下選択`,
+			numberRange: (min, max) => `${min}〜${max}`,
+			numberAtLeast: (min) => `${min} 以上`,
+			numberAtMost: (max) => `${max} 以下`,
+			numberStep: (step) => `${step} 刻み`,
+		},
+		editorErrors: {
+			noEditor: "外部エディタでメモを編集するには $VISUAL または $EDITOR を設定してください",
+			startFailed: (editor, reason) => `エディタ "${editor}" を起動できません: ${reason}`,
+			terminated: (signal) => `エディタが ${signal} で終了しました。メモは変更されていません`,
+			exitCode: (status) => `エディタがコード ${status} で終了しました。メモは変更されていません`,
+			editFailed: (reason) => `外部エディタでメモを編集できません: ${reason}`,
+		},
+		history: {
+			requiresInteractive: (command) => `/${command} は対話モードでのみ使用できます`,
+			noCalls: "このセッションブランチにはまだ ask 呼び出しがありません",
+			selectTitle: "ask 履歴 (新しい順)",
+			noAnswer: "(回答なし)",
+			noChanges: "変更された回答はありません",
+		},
+		hints: {
+			move: "移動",
+			select: "選択",
+			toggleSelect: "選択/切替",
+			submit: "送信",
+			note: "メモ",
+			addNote: "メモを追加",
+			editNote: "メモを編集",
+			filter: "絞り込み",
+			clearFilter: "絞り込み解除",
+			typeToFilter: "入力して絞り込み",
+			switchTabs: "タブ切替",
+			cancel: "キャンセル",
+			typingNoteInline: "メモを入力中",
+			editingNote: "メモを編集中",
+			saveNote: "メモを保存",
+			save: "保存",
+			newLine: "改行",
+			stopEditing: "編集終了",
+			expand: "展開",
+			collapse: "折りたたむ",
+			externalEditor: "外部エディタ",
+			typingAnswer: "回答を入力中",
+			editAnswer: "回答を編集",
+			typingNumber: "数値を入力中",
+			typeNumber: "数値を入力",
+			reorder: "並べ替え",
+			confirmOrder: "順序を確定",
+			skip: "スキップ",
+		},
+	},
+};
+
+export const ASK_LOCALES = Object.keys(ASK_MESSAGES) as AskLocale[];
+
+export function parseAskLocale(value: string | undefined): AskLocale | undefined {
+	const language = value?.trim().toLowerCase().split(/[-_.@]/)[0];
+	return ASK_LOCALES.find((locale) => locale === language);
+}
+
+export function resolveAskLocale(configLocale?: AskLocale, env: NodeJS.ProcessEnv = process.env): AskLocale {
+	return configLocale ?? parseAskLocale(env[ASK_LOCALE_ENV]) ?? "en";
+}
+
+export function getAskMessages(locale: AskLocale = "en"): AskMessages {
+	return ASK_MESSAGES[locale];
+}
@@ -0,0 +1,86 @@
+import { getAskMessages, type AskMessages } from "./ask-messages";
+
+export const OPTION_FILTER_KEY = "/";
+
+export function isPrintableCharacter(data: string): boolean {
+	return data.length === 1 && data >= " " && data !== "\x7f";
+}
+
+export function findFuzzyMatchPositions(label: string, query: string): number[] | undefined {
+	const normalizedQuery = query.toLowerCase().replace(/\s+/g, "");
+	if (normalizedQuery.length === 0) return [];
+
+	const normalizedLabel = label.toLowerCase();
+	const substringIndex = normalizedLabel.indexOf(normalizedQuery);
+	if (substringIndex >= 0) {
+		return Array.from({ length: normalizedQuery.length }, (_value, offset) => substringIndex + offset);
+	}
+
+	const matchPositions: number[] = [];
+	let searchFromIndex = 0;
+	for (const queryCharacter of normalizedQuery) {
+		const matchIndex = normalizedLabel.indexOf(queryCharacter, searchFromIndex);
+		if (matchIndex < 0) return undefined;
+		matchPositions.push(matchIndex);
+		searchFromIndex = matchIndex + 1;
+	}
+	return matchPositions;
+}
+
+export function filterOptionIndexes(optionLabels: string[], query: string, alwaysVisibleOptionIndex?: number): number[] {
+	const matchingOptionIndexes = optionLabels
+		.map((optionLabel, optionIndex) => (findFuzzyMatchPositions(optionLabel, query) ? optionIndex : -1))
+		.filter((optionIndex) => optionIndex >= 0 && optionIndex !== alwaysVisibleOptionIndex);
+	if (alwaysVisibleOptionIndex == null || alwaysVisibleOptionIndex < 0) return matchingOptionIndexes;
+	return [...matchingOptionIndexes, alwaysVisibleOptionIndex].sort((a, b) => a - b);
+}
+
+export function highlightMatchPositions(
+	text: string,
+	matchPositions: number[],
+	highlight: (text: string) => string,
+): string {
+	if (matchPositions.length === 0) return text;
+
+	const highlightedPositions = new Set(matchPositions);
+	let highlightedText = "";
+	let position = 0;
+	while (position < text.length) {
+		const isHighlighted = highlightedPositions.has(position);
+		let runEnd = position + 1;
+		while (runEnd < text.length && highlightedPositions.has(runEnd) === isHighlighted) runEnd++;
+		const run = text.slice(position, runEnd);
+		highlightedText += isHighlighted ? highlight(run) : run;
+		position = runEnd;
+	}
+	return highlightedText;
+}
+
+export function resolveVisibleCursorIndex(visibleOptionIndexes: number[], cursorOptionIndex: number): number {
+	if (visibleOptionIndexes.includes(cursorOptionIndex)) return cursorOptionIndex;
+	return visibleOptionIndexes[0] ?? cursorOptionIndex;
+}
+
+export function moveCursorWithinVisibleOptions(
+	visibleOptionIndexes: number[],
+	cursorOptionIndex: number,
+	direction: 1 | -1,
+): number {
+	const cursorPosition = visibleOptionIndexes.indexOf(cursorOptionIndex);
+	if (cursorPosition < 0) return resolveVisibleCursorIndex(visibleOptionIndexes, cursorOptionIndex);
+	const nextPosition = Math.min(visibleOptionIndexes.length - 1, Math.max(0, cursorPosition + direction));
+	return visibleOptionIndexes[nextPosition];
+}
+
+export function formatOptionFilterStatus(
+	query: string,
+	matchingOptionCount: number,
+	optionCount: number,
+	hiddenSelectedCount: number,
+	messages: AskMessages = getAskMessages(),
+): string {
+	const matchText =
+		matchingOptionCount === 0 ? messages.noMatches : messages.matchCount(matchingOptionCount, optionCount);
+	const hiddenText = hiddenSelectedCount > 0 ? ` • ${messages.selectedHidden(hiddenSelectedCount)}` : "";
+	return `${messages.filterQuery(query)} • ${matchText}${hiddenText}`;
+}
@@ -0,0 +1,85 @@
+import { readFileSync } from "node:fs";
+import { resolveHeadlessSelection, type HeadlessAnswer } from "./ask-headless";
+import type { AskQuestion, AskSelection } from "./ask-logic";
+
+export const ASK_PRESETS_FILE_ENV = "PI_ASK_PRESETS_FILE";
+export const DEFAULT_ASK_PRESETS_FILE = ".pi/ask-presets.json";
+
+export type AskPresetMode = "auto" | "prefill";
+
+export interface AskPreset {
+	pattern: string;
+	answer: HeadlessAnswer;
+	mode: AskPresetMode;
+}
+
+export interface AskPresetMatch {
+	mode: AskPresetMode;
+	selection: AskSelection;
+}
+
+const ASK_PRESET_MODES: AskPresetMode[] = ["auto", "prefill"];
+
+function isPresetAnswer(value: unknown): value is HeadlessAnswer {
+	if (typeof value === "string") return true;
+	return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+function parseAskPreset(pattern: string, value: unknown): AskPreset {
+	if (isPresetAnswer(value)) return { pattern, answer: value, mode: "prefill" };
+	if (value == null || typeof value !== "object" || Array.isArray(value)) {
+		throw new Error(`preset for "${pattern}" must be an answer or an { answer, mode } object`);
+	}
+
+	const { answer, mode = "prefill" } = value as { answer?: unknown; mode?: unknown };
+	if (!isPresetAnswer(answer)) {
+		throw new Error(`preset answer for "${pattern}" must be a string or an array of strings`);
+	}
+	const presetMode = ASK_PRESET_MODES.find((candidate) => candidate === mode);
+	if (!presetMode) {
+		throw new Error(`preset mode for "${pattern}" must be "auto" or "prefill"`);
+	}
+	return { pattern, answer, mode: presetMode };
+}
+
+export function parseAskPresets(rawJson: string): AskPreset[] {
+	const parsed: unknown = JSON.parse(rawJson);
+	if (parsed == null || typeof parsed !== "object" || Array.isArray(parsed)) {
+		throw new Error("presets file must contain a JSON object keyed by question id or id pattern");
+	}
+	return Object.entries(parsed).map(([pattern, value]) => parseAskPreset(pattern, value));
+}
+
+export function loadAskPresets(filePath: string): AskPreset[] {
+	let rawJson: string;
+	try {
+		rawJson = readFileSync(filePath, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+		throw error;
+	}
+	return parseAskPresets(rawJson);
+}
+
+function matchesPresetPattern(pattern: string, questionId: string): boolean {
+	const patternSource = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*");
+	return new RegExp(`^${patternSource}$`).test(questionId);
+}
+
+export function findAskPreset(presets: AskPreset[], questionId: string): AskPreset | undefined {
+	return (
+		presets.find((preset) => preset.pattern === questionId) ??
+		presets.find((preset) => preset.pattern.includes("*") && matchesPresetPattern(preset.pattern, questionId))
+	);
+}
+
+export function resolveAskPreset(presets: AskPreset[], question: AskQuestion): AskPresetMatch | undefined {
+	const preset = findAskPreset(presets, question.id);
+	if (!preset) return undefined;
+
+	const { selection, resolvedBy } = resolveHeadlessSelection(question, "answers", { [question.id]: preset.answer });
+	return resolvedBy ? { mode: preset.mode, selection } : undefined;
+}
@@ -0,0 +1,218 @@
+import type { SessionEntry } from "@mariozechner/pi-coding-agent";
+import {
+	allowsOtherOption,
+	formatRanking,
+	isNumberQuestion,
+	isRankQuestion,
+	isTextQuestion,
+	type AskPrefilledAnswer,
+	type AskQuestion,
+	type AskSelectedOption,
+} from "./ask-logic";
+import { getAskMessages, type AskMessages } from "./ask-messages";
+
+const ASK_TOOL_NAME = "ask";
+
+export interface StoredQuestionResult {
+	id?: unknown;
+	question?: unknown;
+	description?: unknown;
+	type?: unknown;
+	options?: unknown;
+	allowOther?: unknown;
+	otherLabel?: unknown;
+	multi?: unknown;
+	minSelect?: unknown;
+	maxSelect?: unknown;
+	showIf?: unknown;
+	required?: unknown;
+	skipped?: unknown;
+	selectedOptions?: unknown;
+	selectedOptionRecords?: unknown;
+	customInput?: unknown;
+	numberValue?: unknown;
+	presets?: unknown;
+	unit?: unknown;
+	min?: unknown;
+	max?: unknown;
+	step?: unknown;
+	notApplicable?: unknown;
+	autoResolved?: unknown;
+	timedOut?: unknown;
+}
+
+type PrefilledAnswerQuestion = Pick<
+	AskQuestion,
+	"type" | "options" | "allowOther" | "multi" | "presets" | "previousAnswer" | "presetAnswer"
+>;
+
+export type AskPrefilledAnswerSource = "previous" | "preset";
+
+export interface AskPrefilledAnswerState {
+	source: AskPrefilledAnswerSource;
+	selectedOptionIndexes: number[];
+	noteByOptionIndex: string[];
+	textAnswer: string;
+	summary: string;
+}
+
+function isStoredSelectedOption(value: unknown): value is AskSelectedOption {
+	if (value == null || typeof value !== "object") return false;
+	const record = value as Partial<AskSelectedOption>;
+	return typeof record.value === "string" && typeof record.label === "string";
+}
+
+export function toPrefilledAnswer(result: StoredQuestionResult): AskPrefilledAnswer | undefined {
+	if (result.notApplicable === true) return undefined;
+	const selectedOptions = Array.isArray(result.selectedOptions)
+		? result.selectedOptions.filter((option): option is string => typeof option === "string")
+		: [];
+	const customInput =
+		typeof result.customInput === "string" && result.customInput.trim() ? result.customInput : undefined;
+	if (selectedOptions.length === 0 && !customInput) return undefined;
+
+	const selectedOptionRecords = Array.isArray(result.selectedOptionRecords)
+		? result.selectedOptionRecords.filter(isStoredSelectedOption)
+		: undefined;
+	return {
+		selectedOptions,
+		...(selectedOptionRecords ? { selectedOptionRecords } : {}),
+		...(customInput ? { customInput } : {}),
+		...(typeof result.numberValue === "number" ? { numberValue: result.numberValue } : {}),
+	};
+}
+
+export function readStoredAskResults(entry: SessionEntry): (StoredQuestionResult & { id: string })[] | undefined {
+	if (entry.type !== "message" || entry.message.role !== "toolResult") return undefined;
+	if (entry.message.toolName !== ASK_TOOL_NAME || entry.message.isError) return undefined;
+
+	const details = entry.message.details as { results?: unknown } | undefined;
+	if (!Array.isArray(details?.results)) return undefined;
+	return (details.results as unknown[]).filter(
+		(result): result is StoredQuestionResult & { id: string } =>
+			result != null && typeof (result as StoredQuestionResult).id === "string",
+	);
+}
+
+function isAnsweredByUser(result: StoredQuestionResult): boolean {
+	if (result.timedOut === true) return false;
+	return result.autoResolved == null || result.autoResolved === "preset";
+}
+
+export function collectPreviousAnswers(entries: SessionEntry[]): Map<string, AskPrefilledAnswer> {
+	const previousAnswerById = new Map<string, AskPrefilledAnswer>();
+	for (const entry of entries) {
+		for (const result of readStoredAskResults(entry) ?? []) {
+			if (!isAnsweredByUser(result)) continue;
+			const previousAnswer = toPrefilledAnswer(result);
+			if (previousAnswer) previousAnswerById.set(result.id, previousAnswer);
+		}
+	}
+	return previousAnswerById;
+}
+
+function findOptionIndexForRecord(question: PrefilledAnswerQuestion, record: AskSelectedOption): number {
+	const valueMatchIndex = question.options.findIndex((option) => (option.value ?? option.label) === record.value);
+	if (valueMatchIndex >= 0) return valueMatchIndex;
+	return question.options.findIndex((option) => option.label === record.label);
+}
+
+export function formatPrefilledAnswerSummary(
+	question: PrefilledAnswerQuestion,
+	prefilledAnswer: AskPrefilledAnswer,
+	messages: AskMessages = getAskMessages(),
+): string {
+	if (isTextQuestion(question)) {
+		return `"${(prefilledAnswer.customInput ?? "").replace(/\s+/g, " ").trim()}"`;
+	}
+	if (isRankQuestion(question)) {
+		return formatRanking(prefilledAnswer.selectedOptions);
+	}
+	const parts = [...prefilledAnswer.selectedOptions];
+	if (prefilledAnswer.customInput) {
+		parts.push(`${messages.otherAnswer}: "${prefilledAnswer.customInput.replace(/\s+/g, " ").trim()}"`);
+	}
+	return parts.join(", ");
+}
+
+export function formatPrefilledAnswerHint(
+	state: AskPrefilledAnswerState,
+	messages: AskMessages = getAskMessages(),
+): string {
+	return state.source === "preset" ? messages.projectPreset(state.summary) : messages.previouslyAnswered(state.summary);
+}
+
+export function resolvePrefilledAnswerState(
+	question: PrefilledAnswerQuestion,
+	messages: AskMessages = getAskMessages(),
+): AskPrefilledAnswerState | undefined {
+	if (question.previousAnswer) {
+		const previousAnswerState = resolveAnswerState(question, question.previousAnswer, "previous", messages);
+		if (previousAnswerState) return previousAnswerState;
+	}
+	return question.presetAnswer ? resolveAnswerState(question, question.presetAnswer, "preset", messages) : undefined;
+}
+
+function resolveAnswerState(
+	question: PrefilledAnswerQuestion,
+	prefilledAnswer: AskPrefilledAnswer,
+	source: AskPrefilledAnswerSource,
+	messages: AskMessages,
+): AskPrefilledAnswerState | undefined {
+	const summary = formatPrefilledAnswerSummary(question, prefilledAnswer, messages);
+
+	if (isTextQuestion(question)) {
+		if (!prefilledAnswer.customInput) return undefined;
+		return { source, selectedOptionIndexes: [], noteByOptionIndex: [], textAnswer: prefilledAnswer.customInput, summary };
+	}
+
+	const entryOptionIndex = question.options.length;
+	const noteByOptionIndex = Array<string>(entryOptionIndex + 1).fill("");
+
+	if (isNumberQuestion(question)) {
+		const numberValue = prefilledAnswer.numberValue;
+		if (numberValue == null) return undefined;
+		const presetIndex = (question.presets ?? []).indexOf(numberValue);
+		if (presetIndex >= 0) {
+			return { source, selectedOptionIndexes: [presetIndex], noteByOptionIndex, textAnswer: "", summary };
+		}
+		noteByOptionIndex[entryOptionIndex] = String(numberValue);
+		return { source, selectedOptionIndexes: [entryOptionIndex], noteByOptionIndex, textAnswer: "", summary };
+	}
+
+	const matchedOptionIndexes: number[] = [];
+	const previousOptionRecords: AskSelectedOption[] =
+		prefilledAnswer.selectedOptionRecords ??
+		prefilledAnswer.selectedOptions.map((label, index) => ({ value: label, label, index }));
+	for (const record of previousOptionRecords) {
+		const optionIndex = findOptionIndexForRecord(question, record);
+		if (optionIndex < 0 || matchedOptionIndexes.includes(optionIndex)) continue;
+		matchedOptionIndexes.push(optionIndex);
+		noteByOptionIndex[optionIndex] = record.note ?? "";
+	}
+
+	if (isRankQuestion(question)) {
+		if (matchedOptionIndexes.length === 0) return undefined;
+		const remainingOptionIndexes = question.options
+			.map((_option, optionIndex) => optionIndex)
+			.filter((optionIndex) => !matchedOptionIndexes.includes(optionIndex));
+		return {
+			source,
+			selectedOptionIndexes: [...matchedOptionIndexes, ...remainingOptionIndexes],
+			noteByOptionIndex,
+			textAnswer: "",
+			summary,
+		};
+	}
+
+	if (prefilledAnswer.customInput && allowsOtherOption(question)) {
+		matchedOptionIndexes.push(entryOptionIndex);
+		noteByOptionIndex[entryOptionIndex] = prefilledAnswer.customInput;
+	}
+	if (matchedOptionIndexes.length === 0) return undefined;
+
+	const selectedOptionIndexes = question.multi
+		? [...matchedOptionIndexes].sort((a, b) => a - b)
+		: matchedOptionIndexes.slice(0, 1);
+	return { source, selectedOptionIndexes, noteByOptionIndex, textAnswer: "", summary };
+}
@@ -0,0 +1,31 @@
+export const QUICK_SELECT_KEYS = "123456789abcdefghijklmnopqrstuvwxyz";
+
+const QUICK_SELECT_GUTTER_WIDTH = 2;
+
+export function resolveQuickSelectKeys(reservedKeys: readonly string[] = []): string {
+	return [...QUICK_SELECT_KEYS].filter((key) => !reservedKeys.includes(key)).join("");
+}
+
+export function getQuickSelectKey(optionIndex: number, quickSelectKeys = QUICK_SELECT_KEYS): string | undefined {
+	return optionIndex >= 0 ? quickSelectKeys[optionIndex] : undefined;
+}
+
+export function findQuickSelectOptionIndex(
+	data: string,
+	optionCount: number,
+	quickSelectKeys = QUICK_SELECT_KEYS,
+): number | undefined {
+	const optionIndex = data.length === 1 ? quickSelectKeys.indexOf(data) : -1;
+	return optionIndex >= 0 && optionIndex < optionCount ? optionIndex : undefined;
+}
+
+export function formatQuickSelectGutter(
+	optionIndex: number,
+	isQuickSelectAvailable: boolean,
+	formatKey: (key: string) => string,
+	quickSelectKeys = QUICK_SELECT_KEYS,
+): { text: string; width: number } {
+	const quickSelectKey = isQuickSelectAvailable ? getQuickSelectKey(optionIndex, quickSelectKeys) : undefined;
+	const text = quickSelectKey ? `${formatKey(quickSelectKey)} ` : " ".repeat(QUICK_SELECT_GUTTER_WIDTH);
+	return { text, width: QUICK_SELECT_GUTTER_WIDTH };
+}
@@ -2,8 +2,6 @@ import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
 import {
 	Editor,
 	Markdown,
-	type EditorTheme,
-	type MarkdownTheme,
 	Key,
 	matchesKey,
 	truncateToWidth,
@@ -11,33 +9,124 @@ import {
 } from "@mariozechner/pi-tui";
 import {
 	OTHER_OPTION,
+	allowsOtherOption,
 	appendRecommendedTagToOptionLabels,
 	buildMultiSelectionResult,
+	buildNumberSelectionResult,
+	buildRankSelectionResult,
+	buildSelectedOptionRecords,
 	buildSingleSelectionResult,
+	buildTextSelectionResult,
+	formatNumberConstraints,
+	formatNumberWithUnit,
+	formatRanking,
+	formatSelectionLimits,
+	getMultiSelectionIssue,
+	getNumberAnswerIssue,
+	getTextAnswerIssue,
+	isMultiSelectionFull,
+	isNumberQuestion,
+	isQuestionConditionMet,
+	isRankQuestion,
+	isTextQuestion,
+	moveRankedOption,
+	parseNumberAnswer,
+	resolveRecommendedOptionIndexes,
+	type AskOptionDefault,
 	type AskQuestion,
+	type AskQuestionCondition,
+	type AskQuestionType,
 	type AskSelection,
 } from "./ask-logic";
+import { onAbortSignal } from "./ask-abort";
+import { createCountdown, formatCountdown } from "./ask-countdown";
+import { editTextInExternalEditor, resolveExternalEditorCommand } from "./ask-external-editor";
 import { getLinearCursorIndexFromEditor } from "./ask-inline-editor-cursor";
-import { INLINE_NOTE_WRAP_PADDING, buildWrappedOptionLabelWithInlineNote } from "./ask-inline-note";
+import {
+	INLINE_NOTE_WRAP_PADDING,
+	buildExpandedNoteLines,
+	buildWrappedOptionLabelWithInlineNote,
+	buildWrappedTextAnswerLines,
+	isMultilineNote,
+} from "./ask-inline-note";
+import {
+	formatAskKeyHints,
+	getBoundCharacterKeys,
+	matchesAskKey,
+	matchesStopEditingKey,
+	resolveAskKeymap,
+	type AskKeybindingsConfig,
+} from "./ask-keymap";
+import { getAskMessages, resolveAskLocale, type AskLocale, type AskMessages } from "./ask-messages";
+import {
+	filterOptionIndexes,
+	findFuzzyMatchPositions,
+	formatOptionFilterStatus,
+	highlightMatchPositions,
+	isPrintableCharacter,
+	moveCursorWithinVisibleOptions,
+	resolveVisibleCursorIndex,
+} from "./ask-option-filter";
+import { formatPrefilledAnswerHint, resolvePrefilledAnswerState, type AskPrefilledAnswerState } from "./ask-previous-answers";
+import { findQuickSelectOptionIndex, formatQuickSelectGutter, resolveQuickSelectKeys } from "./ask-quick-select";
+import { formatTextAnswerLength } from "./ask-text-ui";
 import { appendWrappedTextLines } from "./ask-text-wrap";
+import { layoutViewport, resolveViewportHeight, type ViewportSections } from "./ask-viewport";
+import { createAskEditorTheme, createAskMarkdownTheme } from "./ask-ui-theme";
 
 interface PreparedQuestion {
 	id: string;
 	question: string;
 	description?: string;
+	type: AskQuestionType;
 	options: string[];
+	baseOptionLabels: string[];
 	tabLabel: string;
 	multi: boolean;
 	otherOptionIndex: number;
+	otherPlaceholder?: string;
+	recommendedOptionIndexes: number[];
+	defaultOptionIndexes: number[];
+	defaultNoteByOption: string[];
+	timeoutSeconds?: number;
+	showIf?: AskQuestionCondition;
+	placeholder?: string;
+	minLength?: number;
+	maxLength?: number;
+	required?: boolean;
+	presets: number[];
+	min?: number;
+	max?: number;
+	step?: number;
+	unit?: string;
+	minSelect?: number;
+	maxSelect?: number;
+	prefilledAnswer?: AskPrefilledAnswerState;
+}
+
+interface AskTabsOptions {
+	signal?: AbortSignal;
+	keybindings?: AskKeybindingsConfig;
+	locale?: AskLocale;
 }
 
 interface TabsUIState {
 	cancelled: boolean;
 	selectedOptionIndexesByQuestion: number[][];
 	noteByQuestionByOption: string[][];
+	timedOutByQuestion?: boolean[];
+	textAnswerByQuestion?: string[];
+	editedByQuestion?: boolean[];
 }
 
-export function formatSelectionForSubmitReview(selection: AskSelection, isMulti: boolean): string {
+const TEXT_ANSWER_INDENT = "  ";
+const EXPANDED_NOTE_INDENT = "   ";
+
+export function formatSelectionForSubmitReview(
+	selection: AskSelection,
+	isMulti: boolean,
+	messages: AskMessages = getAskMessages(),
+): string {
 	const hasSelectedOptions = selection.selectedOptions.length > 0;
 	const hasCustomInput = Boolean(selection.customInput);
 
@@ -45,18 +134,23 @@ export function formatSelectionForSubmitReview(selection: AskSelection, isMulti:
 		const selectedPart = isMulti
 			? `[${selection.selectedOptions.join(", ")}]`
 			: selection.selectedOptions[0];
-		return `${selectedPart} + Other: ${selection.customInput}`;
+		return `${selectedPart} + ${messages.otherAnswer}: ${selection.customInput}`;
 	}
 
 	if (hasCustomInput) {
-		return `Other: ${selection.customInput}`;
+		return `${messages.otherAnswer}: ${selection.customInput}`;
 	}
 
 	if (hasSelectedOptions) {
 		return isMulti ? `[${selection.selectedOptions.join(", ")}]` : selection.selectedOptions[0];
 	}
 
-	return "(not answered)";
+	return selection.skipped ? messages.skipped : messages.notAnswered;
+}
+
+function formatTextAnswerForSubmitReview(selection: AskSelection, isResolved: boolean, messages: AskMessages): string {
+	if (selection.customInput) return selection.customInput.replace(/\s+/g, " ");
+	return isResolved ? messages.skipped : messages.notAnswered;
 }
 
 function clampIndex(index: number | undefined, maxExclusive: number): number {
@@ -75,9 +169,27 @@ function buildSelectionForQuestion(
 	question: PreparedQuestion,
 	selectedOptionIndexes: number[],
 	noteByOptionIndex: string[],
+	textAnswer = "",
 ): AskSelection {
+	if (isTextQuestion(question)) {
+		return buildTextSelectionResult(textAnswer);
+	}
+
 	if (selectedOptionIndexes.length === 0) {
-		return { selectedOptions: [] };
+		return question.required === false ? { selectedOptions: [], skipped: true } : { selectedOptions: [] };
+	}
+
+	if (isRankQuestion(question)) {
+		return buildRankSelectionResult(question.baseOptionLabels, selectedOptionIndexes);
+	}
+
+	if (isNumberQuestion(question)) {
+		const selectedOptionIndex = selectedOptionIndexes[0];
+		const value =
+			selectedOptionIndex === question.otherOptionIndex
+				? parseNumberAnswer(noteByOptionIndex[selectedOptionIndex] ?? "")
+				: question.presets[selectedOptionIndex];
+		return value == null ? { selectedOptions: [] } : buildNumberSelectionResult(value, question.unit);
 	}
 
 	if (question.multi) {
@@ -85,34 +197,98 @@ function buildSelectionForQuestion(
 	}
 
 	const selectedOptionIndex = selectedOptionIndexes[0];
-	const selectedOptionLabel = question.options[selectedOptionIndex] ?? OTHER_OPTION;
+	const hasOtherOption = question.otherOptionIndex >= 0;
+	const selectedOptionLabel =
+		selectedOptionIndex === question.otherOptionIndex
+			? OTHER_OPTION
+			: (question.options[selectedOptionIndex] ?? OTHER_OPTION);
 	const note = noteByOptionIndex[selectedOptionIndex] ?? "";
-	return buildSingleSelectionResult(selectedOptionLabel, note);
+	return buildSingleSelectionResult(selectedOptionLabel, note, hasOtherOption);
 }
 
 function isQuestionSelectionValid(
 	question: PreparedQuestion,
 	selectedOptionIndexes: number[],
 	noteByOptionIndex: string[],
+	textAnswer = "",
 ): boolean {
+	if (isTextQuestion(question)) return getTextAnswerIssue(question, textAnswer) == null;
 	if (selectedOptionIndexes.length === 0) return false;
+	if (question.multi && getMultiSelectionIssue(question, selectedOptionIndexes.length)) return false;
 	if (!selectedOptionIndexes.includes(question.otherOptionIndex)) return true;
 	const otherNote = noteByOptionIndex[question.otherOptionIndex]?.trim() ?? "";
+	if (isNumberQuestion(question)) return getNumberAnswerIssue(question, otherNote) == null;
 	return otherNote.length > 0;
 }
 
+function isQuestionAnsweredBeforeCancel(
+	question: PreparedQuestion,
+	selectedOptionIndexes: number[],
+	noteByOptionIndex: string[],
+	textAnswer = "",
+): boolean {
+	const hasAnswer = isTextQuestion(question) ? textAnswer.trim().length > 0 : selectedOptionIndexes.length > 0;
+	return hasAnswer && isQuestionSelectionValid(question, selectedOptionIndexes, noteByOptionIndex, textAnswer);
+}
+
+function resolveQuestionVisibility(
+	preparedQuestions: PreparedQuestion[],
+	selectedOptionIndexesByQuestion: number[][],
+): boolean[] {
+	const selectedOptionLabelsById = new Map<string, string[]>();
+	return preparedQuestions.map((preparedQuestion, questionIndex) => {
+		const showIf = preparedQuestion.showIf;
+		const isVisible = isQuestionConditionMet(showIf, showIf ? selectedOptionLabelsById.get(showIf.id) : undefined);
+		if (isVisible) {
+			const selectedOptionLabels = (selectedOptionIndexesByQuestion[questionIndex] ?? [])
+				.filter((optionIndex) => optionIndex !== preparedQuestion.otherOptionIndex)
+				.map((optionIndex) => preparedQuestion.baseOptionLabels[optionIndex])
+				.filter((optionLabel): optionLabel is string => optionLabel != null);
+			selectedOptionLabelsById.set(preparedQuestion.id, selectedOptionLabels);
+		}
+		return isVisible;
+	});
+}
+
 function createTabsUiStateSnapshot(
 	cancelled: boolean,
 	selectedOptionIndexesByQuestion: number[][],
 	noteByQuestionByOption: string[][],
+	timedOutByQuestion: boolean[],
+	textAnswerByQuestion: string[],
+	editedByQuestion: boolean[],
 ): TabsUIState {
 	return {
 		cancelled,
 		selectedOptionIndexesByQuestion: selectedOptionIndexesByQuestion.map((indexes) => [...indexes]),
 		noteByQuestionByOption: noteByQuestionByOption.map((notes) => [...notes]),
+		timedOutByQuestion: [...timedOutByQuestion],
+		textAnswerByQuestion: [...textAnswerByQuestion],
+		editedByQuestion: [...editedByQuestion],
 	};
 }
 
+function resolveDefaultOptionIndexes(optionDefaults: AskOptionDefault[], optionCount: number): number[] {
+	const defaultOptionIndexes = optionDefaults
+		.map((optionDefault) => optionDefault.index)
+		.filter((optionIndex) => Number.isInteger(optionIndex) && optionIndex >= 0 && optionIndex < optionCount);
+	return [...new Set(defaultOptionIndexes)].sort((a, b) => a - b);
+}
+
+function isSelectionUnchangedFromDefaults(
+	question: PreparedQuestion,
+	selectedOptionIndexes: number[],
+	noteByOptionIndex: string[],
+): boolean {
+	if (selectedOptionIndexes.length !== question.defaultOptionIndexes.length) return false;
+	if (selectedOptionIndexes.some((optionIndex, position) => optionIndex !== question.defaultOptionIndexes[position])) {
+		return false;
+	}
+	return question.defaultNoteByOption.every(
+		(defaultNote, optionIndex) => (noteByOptionIndex[optionIndex] ?? "").trim() === defaultNote.trim(),
+	);
+}
+
 function addIndexToSelection(selectedOptionIndexes: number[], optionIndex: number): number[] {
 	if (selectedOptionIndexes.includes(optionIndex)) return selectedOptionIndexes;
 	return [...selectedOptionIndexes, optionIndex].sort((a, b) => a - b);
@@ -125,63 +301,129 @@ function removeIndexFromSelection(selectedOptionIndexes: number[], optionIndex:
 export async function askQuestionsWithTabs(
 	ui: ExtensionUIContext,
 	questions: AskQuestion[],
+	options: AskTabsOptions = {},
 ): Promise<{ cancelled: boolean; selections: AskSelection[] }> {
+	const messages = getAskMessages(resolveAskLocale(options.locale));
+	const hints = messages.hints;
 	const preparedQuestions: PreparedQuestion[] = questions.map((question, questionIndex) => {
-		const baseOptionLabels = question.options.map((option) => option.label);
-		const optionLabels = [...appendRecommendedTagToOptionLabels(baseOptionLabels, question.recommended), OTHER_OPTION];
+		const isText = isTextQuestion(question);
+		const isRank = isRankQuestion(question);
+		const isNumber = isNumberQuestion(question);
+		const hasEntryOption = isNumber || allowsOtherOption(question);
+		const presets = isNumber ? (question.presets ?? []) : [];
+		const baseOptionLabels = isText
+			? []
+			: isNumber
+				? presets.map((preset) => formatNumberWithUnit(preset, question.unit))
+				: question.options.map((option) => option.label);
+		const optionLabels = isText
+			? []
+			: isRank
+				? [...baseOptionLabels]
+				: [
+						...appendRecommendedTagToOptionLabels(baseOptionLabels, question.recommended, messages.recommendedTag),
+						...(isNumber
+							? [messages.numberEntryOption]
+							: hasEntryOption
+								? [question.otherLabel?.trim() || messages.otherOption]
+								: []),
+					];
+		const recommendedOptionIndexes = isRank
+			? []
+			: resolveRecommendedOptionIndexes(question.recommended, baseOptionLabels.length);
+		const isMulti = !isText && !isRank && !isNumber && question.multi === true;
+		const prefilledAnswer = resolvePrefilledAnswerState(question, messages);
+		const optionDefaults = isMulti && !prefilledAnswer ? (question.defaults ?? []) : [];
+		const defaultOptionIndexes = resolveDefaultOptionIndexes(optionDefaults, baseOptionLabels.length);
+		const defaultNoteByOption = optionLabels.map(() => "");
+		for (const optionDefault of optionDefaults) {
+			if (defaultOptionIndexes.includes(optionDefault.index)) {
+				defaultNoteByOption[optionDefault.index] = optionDefault.note ?? "";
+			}
+		}
 		return {
 			id: question.id,
 			question: question.question,
 			description: question.description,
+			type: question.type ?? "choice",
 			options: optionLabels,
+			baseOptionLabels,
 			tabLabel: normalizeTabLabel(question.id, `Q${questionIndex + 1}`),
-			multi: question.multi === true,
-			otherOptionIndex: optionLabels.length - 1,
+			multi: isMulti,
+			otherOptionIndex: hasEntryOption ? optionLabels.length - 1 : -1,
+			otherPlaceholder: question.otherPlaceholder,
+			recommendedOptionIndexes,
+			defaultOptionIndexes,
+			defaultNoteByOption,
+			timeoutSeconds: question.timeoutSeconds,
+			showIf: question.showIf,
+			placeholder: question.placeholder,
+			minLength: question.minLength,
+			maxLength: question.maxLength,
+			required: question.required,
+			presets,
+			min: question.min,
+			max: question.max,
+			step: question.step,
+			unit: question.unit,
+			minSelect: question.minSelect,
+			maxSelect: question.maxSelect,
+			prefilledAnswer,
 		};
 	});
 
-	const initialCursorOptionIndexByQuestion = preparedQuestions.map((preparedQuestion, questionIndex) =>
-		clampIndex(questions[questionIndex].recommended, preparedQuestion.options.length),
+	const initialCursorOptionIndexByQuestion = preparedQuestions.map((preparedQuestion) =>
+		clampIndex(
+			isRankQuestion(preparedQuestion)
+				? undefined
+				: (preparedQuestion.prefilledAnswer?.selectedOptionIndexes[0] ?? preparedQuestion.recommendedOptionIndexes[0]),
+			preparedQuestion.options.length,
+		),
 	);
 
-	const result = await ui.custom<TabsUIState>((tui, theme, _keybindings, done) => {
+	const result = await ui.custom<TabsUIState>((tui, theme, keybindings, done) => {
+		const keymap = resolveAskKeymap(options.keybindings, keybindings);
+		const keyHints = formatAskKeyHints(keymap);
+		const quickSelectKeys = resolveQuickSelectKeys(getBoundCharacterKeys(keymap));
 		let activeTabIndex = 0;
 		let isNoteEditorOpen = false;
+		let isNoteEditorExpanded = false;
+		let externalEditorError: string | undefined;
+		let isFinished = false;
 		let cachedRenderedLines: string[] | undefined;
 		let cachedRenderedWidth: number | undefined;
+		let cachedViewportHeight: number | undefined;
 		const cursorOptionIndexByQuestion = [...initialCursorOptionIndexByQuestion];
-		const selectedOptionIndexesByQuestion = preparedQuestions.map(() => [] as number[]);
+		const selectedOptionIndexesByQuestion = preparedQuestions.map((preparedQuestion) => [
+			...(preparedQuestion.prefilledAnswer?.selectedOptionIndexes ?? preparedQuestion.defaultOptionIndexes),
+		]);
 		const noteByQuestionByOption = preparedQuestions.map((preparedQuestion) =>
-			Array(preparedQuestion.options.length).fill("") as string[],
+			preparedQuestion.defaultNoteByOption.map(
+				(defaultNote, optionIndex) => preparedQuestion.prefilledAnswer?.noteByOptionIndex[optionIndex] ?? defaultNote,
+			),
 		);
+		const timedOutByQuestion = preparedQuestions.map(() => false);
+		const textAnswerByQuestion = preparedQuestions.map(
+			(preparedQuestion) => preparedQuestion.prefilledAnswer?.textAnswer ?? "",
+		);
+		// Prefilled defaults and previous answers stay unconfirmed until the user changes or confirms them.
+		const editedByQuestion = preparedQuestions.map(() => false);
+		const hasRejectedTextSubmitByQuestion = preparedQuestions.map(() => false);
+		const filterQueryByQuestion: (string | undefined)[] = preparedQuestions.map(() => undefined);
+		const descriptionScrollOffsetByQuestion = preparedQuestions.map(() => 0);
+		let descriptionPageSize = 1;
+		let isSelectionLimitWarningVisible = false;
+		const rankedOptionIndexesByQuestion = preparedQuestions.map((preparedQuestion) => {
+			if (!isRankQuestion(preparedQuestion)) return [];
+			return [
+				...(preparedQuestion.prefilledAnswer?.selectedOptionIndexes ??
+					preparedQuestion.options.map((_optionLabel, optionIndex) => optionIndex)),
+			];
+		});
+
+		const noteEditor = new Editor(tui, createAskEditorTheme(theme));
+		const markdownTheme = createAskMarkdownTheme(theme);
 
-		const editorTheme: EditorTheme = {
-			borderColor: (text) => theme.fg("accent", text),
-			selectList: {
-				selectedPrefix: (text) => theme.fg("accent", text),
-				selectedText: (text) => theme.fg("accent", text),
-				description: (text) => theme.fg("muted", text),
-				scrollInfo: (text) => theme.fg("dim", text),
-				noMatch: (text) => theme.fg("warning", text),
-			},
-		};
-		const noteEditor = new Editor(tui, editorTheme);
-		const markdownTheme: MarkdownTheme = {
-			heading: (text) => theme.fg("mdHeading", text),
-			link: (text) => theme.fg("mdLink", text),
-			linkUrl: (text) => theme.fg("mdLinkUrl", text),
-			code: (text) => theme.fg("mdCode", text),
-			codeBlock: (text) => theme.fg("mdCodeBlock", text),
-			codeBlockBorder: (text) => theme.fg("mdCodeBlockBorder", text),
-			quote: (text) => theme.fg("mdQuote", text),
-			quoteBorder: (text) => theme.fg("mdQuoteBorder", text),
-			hr: (text) => theme.fg("mdHr", text),
-			listBullet: (text) => theme.fg("mdListBullet", text),
-			bold: (text) => theme.bold(text),
-			italic: (text) => theme.italic(text),
-			strikethrough: (text) => theme.strikethrough(text),
-			underline: (text) => theme.underline(text),
-		};
 		const descriptionMarkdownByQuestion = preparedQuestions.map((preparedQuestion) =>
 			preparedQuestion.description && preparedQuestion.description.trim().length > 0
 				? new Markdown(preparedQuestion.description, 0, 0, markdownTheme, {
@@ -189,6 +431,17 @@ export async function askQuestionsWithTabs(
 					})
 				: undefined,
 		);
+		const optionDescriptionMarkdownByQuestion = questions.map((question) =>
+			isTextQuestion(question) || isNumberQuestion(question)
+				? []
+				: question.options.map((option) =>
+						option.description && option.description.trim().length > 0
+							? new Markdown(option.description, 0, 0, markdownTheme, {
+									color: (text) => theme.fg("muted", text),
+								})
+							: undefined,
+					),
+		);
 
 		const submitTabIndex = preparedQuestions.length;
 
@@ -198,6 +451,42 @@ export async function askQuestionsWithTabs(
 			tui.requestRender();
 		};
 
+		let unsubscribeAbort = () => {};
+		const countdown = createCountdown(requestUiRerender, () => expireActiveQuestion());
+		const finish = (cancelled: boolean) => {
+			if (isFinished) return;
+			isFinished = true;
+			unsubscribeAbort();
+			countdown.stop();
+			isNoteEditorOpen = false;
+			cachedRenderedLines = undefined;
+			cachedRenderedWidth = undefined;
+			done(
+				createTabsUiStateSnapshot(
+					cancelled,
+					selectedOptionIndexesByQuestion,
+					noteByQuestionByOption,
+					timedOutByQuestion,
+					textAnswerByQuestion,
+					editedByQuestion,
+				),
+			);
+		};
+
+		const restartCountdownForActiveTab = () => {
+			const questionIndex = getActiveQuestionIndex();
+			if (questionIndex != null) {
+				countdown.reset(preparedQuestions[questionIndex].timeoutSeconds);
+				return;
+			}
+			// On the Submit tab the shortest timeout among the still-open questions keeps the session from stalling.
+			const openTimeoutSeconds = getUnresolvedTimedQuestionIndexes().map(
+				(unresolvedQuestionIndex) => preparedQuestions[unresolvedQuestionIndex].timeoutSeconds ?? Infinity,
+			);
+			countdown.reset(openTimeoutSeconds.length > 0 ? Math.min(...openTimeoutSeconds) : undefined);
+		};
+		unsubscribeAbort = onAbortSignal(options.signal, () => finish(true));
+
 		const getActiveQuestionIndex = (): number | null => {
 			if (activeTabIndex >= preparedQuestions.length) return null;
 			return activeTabIndex;
@@ -209,34 +498,223 @@ export async function askQuestionsWithTabs(
 		const getTrimmedQuestionNote = (questionIndex: number, optionIndex: number): string =>
 			getQuestionNote(questionIndex, optionIndex).trim();
 
-		const isAllQuestionSelectionsValid = (): boolean =>
-			preparedQuestions.every((preparedQuestion, questionIndex) =>
-				isQuestionSelectionValid(
-					preparedQuestion,
-					selectedOptionIndexesByQuestion[questionIndex],
-					noteByQuestionByOption[questionIndex],
-				),
+		const getVisibleOptionIndexes = (questionIndex: number): number[] => {
+			const preparedQuestion = preparedQuestions[questionIndex];
+			const filterQuery = filterQueryByQuestion[questionIndex];
+			return filterQuery == null
+				? preparedQuestion.options.map((_optionLabel, optionIndex) => optionIndex)
+				: filterOptionIndexes(preparedQuestion.baseOptionLabels, filterQuery, preparedQuestion.otherOptionIndex);
+		};
+
+		const updateFilterQuery = (questionIndex: number, filterQuery: string | undefined) => {
+			filterQueryByQuestion[questionIndex] = filterQuery;
+			const visibleOptionIndexes = getVisibleOptionIndexes(questionIndex);
+			cursorOptionIndexByQuestion[questionIndex] = filterQuery
+				? (visibleOptionIndexes[0] ?? cursorOptionIndexByQuestion[questionIndex])
+				: resolveVisibleCursorIndex(visibleOptionIndexes, cursorOptionIndexByQuestion[questionIndex]);
+			requestUiRerender();
+		};
+
+		const isQuestionSkipped = (questionIndex: number): boolean =>
+			preparedQuestions[questionIndex].required === false &&
+			!timedOutByQuestion[questionIndex] &&
+			(isTextQuestion(preparedQuestions[questionIndex])
+				? textAnswerByQuestion[questionIndex].trim().length === 0
+				: selectedOptionIndexesByQuestion[questionIndex].length === 0);
+
+		const isQuestionAnswered = (questionIndex: number): boolean =>
+			timedOutByQuestion[questionIndex] ||
+			isQuestionSelectionValid(
+				preparedQuestions[questionIndex],
+				selectedOptionIndexesByQuestion[questionIndex],
+				noteByQuestionByOption[questionIndex],
+				textAnswerByQuestion[questionIndex],
+			);
+
+		const isQuestionResolved = (questionIndex: number): boolean =>
+			isQuestionAnswered(questionIndex) || isQuestionSkipped(questionIndex);
+
+		const getQuestionVisibility = (): boolean[] =>
+			resolveQuestionVisibility(preparedQuestions, selectedOptionIndexesByQuestion);
+
+		const isAllQuestionSelectionsValid = (): boolean => {
+			const questionVisibility = getQuestionVisibility();
+			return preparedQuestions.every(
+				(_preparedQuestion, questionIndex) => !questionVisibility[questionIndex] || isQuestionResolved(questionIndex),
 			);
+		};
+
+		const canExpandNote = (questionIndex: number): boolean => {
+			const preparedQuestion = preparedQuestions[questionIndex];
+			return (
+				!isTextQuestion(preparedQuestion) && !isNumberQuestion(preparedQuestion) && !isRankQuestion(preparedQuestion)
+			);
+		};
 
 		const openNoteEditorForActiveOption = () => {
 			const questionIndex = getActiveQuestionIndex();
 			if (questionIndex == null) return;
 
 			isNoteEditorOpen = true;
+			if (isTextQuestion(preparedQuestions[questionIndex])) {
+				isNoteEditorExpanded = false;
+				noteEditor.setText(textAnswerByQuestion[questionIndex]);
+				requestUiRerender();
+				return;
+			}
 			const optionIndex = cursorOptionIndexByQuestion[questionIndex];
+			isNoteEditorExpanded =
+				canExpandNote(questionIndex) && isMultilineNote(getQuestionNote(questionIndex, optionIndex));
 			noteEditor.setText(getQuestionNote(questionIndex, optionIndex));
 			requestUiRerender();
 		};
 
+		const editNoteInExternalEditor = (questionIndex: number) => {
+			const optionIndex = cursorOptionIndexByQuestion[questionIndex];
+			const editResult = editTextInExternalEditor(tui, getQuestionNote(questionIndex, optionIndex), messages);
+			if (!editResult.ok) {
+				externalEditorError = editResult.error;
+				requestUiRerender();
+				return;
+			}
+			noteByQuestionByOption[questionIndex][optionIndex] = editResult.text;
+			editedByQuestion[questionIndex] = true;
+			openNoteEditorForActiveOption();
+		};
+
+		const findVisibleTabIndexFrom = (startTabIndex: number): number => {
+			const questionVisibility = getQuestionVisibility();
+			let tabIndex = startTabIndex;
+			while (tabIndex < submitTabIndex && !questionVisibility[tabIndex]) tabIndex++;
+			return Math.min(tabIndex, submitTabIndex);
+		};
+
+		const moveActiveTab = (direction: 1 | -1) => {
+			const questionVisibility = getQuestionVisibility();
+			const tabCount = preparedQuestions.length + 1;
+			let nextTabIndex = activeTabIndex;
+			do {
+				nextTabIndex = (nextTabIndex + direction + tabCount) % tabCount;
+			} while (nextTabIndex !== submitTabIndex && !questionVisibility[nextTabIndex]);
+			activeTabIndex = nextTabIndex;
+		};
+
 		const advanceToNextTabOrSubmit = () => {
-			activeTabIndex = Math.min(submitTabIndex, activeTabIndex + 1);
+			activeTabIndex = findVisibleTabIndexFrom(activeTabIndex + 1);
+		};
+
+		const skipQuestion = (questionIndex: number) => {
+			timedOutByQuestion[questionIndex] = false;
+			selectedOptionIndexesByQuestion[questionIndex] = [];
+			textAnswerByQuestion[questionIndex] = "";
+			filterQueryByQuestion[questionIndex] = undefined;
+			advanceToNextTabOrSubmit();
+			requestUiRerender();
+		};
+
+		const formatSkipHint = (questionIndex: number): string =>
+			preparedQuestions[questionIndex].required === false ? ` • ${keyHints.skip} ${hints.skip}` : "";
+
+		const selectCursorOption = (questionIndex: number) => {
+			const preparedQuestion = preparedQuestions[questionIndex];
+			const cursorOptionIndex = cursorOptionIndexByQuestion[questionIndex];
+			timedOutByQuestion[questionIndex] = false;
+			editedByQuestion[questionIndex] = true;
+
+			if (preparedQuestion.multi) {
+				const currentlySelected = selectedOptionIndexesByQuestion[questionIndex];
+				if (currentlySelected.includes(cursorOptionIndex)) {
+					selectedOptionIndexesByQuestion[questionIndex] = removeIndexFromSelection(currentlySelected, cursorOptionIndex);
+				} else if (isMultiSelectionFull(preparedQuestion, currentlySelected.length)) {
+					isSelectionLimitWarningVisible = true;
+					requestUiRerender();
+					return;
+				} else {
+					selectedOptionIndexesByQuestion[questionIndex] = addIndexToSelection(currentlySelected, cursorOptionIndex);
+				}
+
+				if (
+					cursorOptionIndex === preparedQuestion.otherOptionIndex &&
+					selectedOptionIndexesByQuestion[questionIndex].includes(cursorOptionIndex) &&
+					getTrimmedQuestionNote(questionIndex, cursorOptionIndex).length === 0
+				) {
+					openNoteEditorForActiveOption();
+					return;
+				}
+
+				requestUiRerender();
+				return;
+			}
+
+			selectedOptionIndexesByQuestion[questionIndex] = [cursorOptionIndex];
+			if (
+				cursorOptionIndex === preparedQuestion.otherOptionIndex &&
+				!isQuestionSelectionValid(preparedQuestion, [cursorOptionIndex], noteByQuestionByOption[questionIndex])
+			) {
+				openNoteEditorForActiveOption();
+				return;
+			}
+
+			advanceToNextTabOrSubmit();
+			requestUiRerender();
+		};
+
+		const getUnresolvedTimedQuestionIndexes = (): number[] => {
+			const questionVisibility = getQuestionVisibility();
+			return preparedQuestions
+				.map((_preparedQuestion, questionIndex) => questionIndex)
+				.filter(
+					(questionIndex) =>
+						questionVisibility[questionIndex] &&
+						preparedQuestions[questionIndex].timeoutSeconds != null &&
+						!isQuestionResolved(questionIndex),
+				);
+		};
+
+		const applyTimeoutToQuestion = (questionIndex: number) => {
+			if (isQuestionAnswered(questionIndex)) return;
+
+			const preparedQuestion = preparedQuestions[questionIndex];
+			const recommendedOptionIndexes = preparedQuestion.recommendedOptionIndexes;
+			selectedOptionIndexesByQuestion[questionIndex] = isRankQuestion(preparedQuestion)
+				? [...rankedOptionIndexesByQuestion[questionIndex]]
+				: preparedQuestion.multi
+					? [...recommendedOptionIndexes].sort((a, b) => a - b)
+					: recommendedOptionIndexes.slice(0, 1);
+			timedOutByQuestion[questionIndex] = true;
+		};
+
+		const expireActiveQuestion = () => {
+			const questionIndex = getActiveQuestionIndex();
+			if (questionIndex == null) {
+				for (const unresolvedQuestionIndex of getUnresolvedTimedQuestionIndexes()) {
+					applyTimeoutToQuestion(unresolvedQuestionIndex);
+				}
+			} else {
+				applyTimeoutToQuestion(questionIndex);
+				isNoteEditorOpen = false;
+				advanceToNextTabOrSubmit();
+			}
+			if (activeTabIndex === submitTabIndex && isAllQuestionSelectionsValid()) {
+				finish(false);
+				return;
+			}
+			restartCountdownForActiveTab();
+			requestUiRerender();
 		};
 
 		noteEditor.onChange = (value) => {
 			const questionIndex = getActiveQuestionIndex();
 			if (questionIndex == null) return;
+			editedByQuestion[questionIndex] = true;
+			if (isTextQuestion(preparedQuestions[questionIndex])) {
+				textAnswerByQuestion[questionIndex] = value;
+				requestUiRerender();
+				return;
+			}
 			const optionIndex = cursorOptionIndexByQuestion[questionIndex];
 			noteByQuestionByOption[questionIndex][optionIndex] = value;
+			if (canExpandNote(questionIndex) && value.includes("\n")) isNoteEditorExpanded = true;
 			requestUiRerender();
 		};
 
@@ -245,12 +723,33 @@ export async function askQuestionsWithTabs(
 			if (questionIndex == null) return;
 
 			const preparedQuestion = preparedQuestions[questionIndex];
+			timedOutByQuestion[questionIndex] = false;
+			editedByQuestion[questionIndex] = true;
+			if (isTextQuestion(preparedQuestion)) {
+				textAnswerByQuestion[questionIndex] = value;
+				if (getTextAnswerIssue(preparedQuestion, value)) {
+					hasRejectedTextSubmitByQuestion[questionIndex] = true;
+					noteEditor.setText(value);
+					requestUiRerender();
+					return;
+				}
+				isNoteEditorOpen = false;
+				advanceToNextTabOrSubmit();
+				requestUiRerender();
+				return;
+			}
+
 			const optionIndex = cursorOptionIndexByQuestion[questionIndex];
 			noteByQuestionByOption[questionIndex][optionIndex] = value;
 			const trimmedNote = value.trim();
 
 			if (preparedQuestion.multi) {
-				if (trimmedNote.length > 0) {
+				const currentlySelected = selectedOptionIndexesByQuestion[questionIndex];
+				if (
+					trimmedNote.length > 0 &&
+					(currentlySelected.includes(optionIndex) ||
+						!isMultiSelectionFull(preparedQuestion, currentlySelected.length))
+				) {
 					selectedOptionIndexesByQuestion[questionIndex] = addIndexToSelection(
 						selectedOptionIndexesByQuestion[questionIndex],
 						optionIndex,
@@ -266,7 +765,10 @@ export async function askQuestionsWithTabs(
 			}
 
 			selectedOptionIndexesByQuestion[questionIndex] = [optionIndex];
-			if (optionIndex === preparedQuestion.otherOptionIndex && trimmedNote.length === 0) {
+			if (
+				optionIndex === preparedQuestion.otherOptionIndex &&
+				!isQuestionSelectionValid(preparedQuestion, [optionIndex], noteByQuestionByOption[questionIndex])
+			) {
 				requestUiRerender();
 				return;
 			}
@@ -278,15 +780,13 @@ export async function askQuestionsWithTabs(
 
 		const renderTabs = (): string => {
 			const tabParts: string[] = ["← "];
+			const questionVisibility = getQuestionVisibility();
 			for (let questionIndex = 0; questionIndex < preparedQuestions.length; questionIndex++) {
+				if (!questionVisibility[questionIndex]) continue;
 				const preparedQuestion = preparedQuestions[questionIndex];
 				const isActiveTab = questionIndex === activeTabIndex;
-				const isQuestionValid = isQuestionSelectionValid(
-					preparedQuestion,
-					selectedOptionIndexesByQuestion[questionIndex],
-					noteByQuestionByOption[questionIndex],
-				);
-				const statusIcon = isQuestionValid ? "■" : "□";
+				const isQuestionValid = isQuestionResolved(questionIndex);
+				const statusIcon = isQuestionSkipped(questionIndex) ? "–" : isQuestionValid ? "■" : "□";
 				const tabLabel = ` ${statusIcon} ${preparedQuestion.tabLabel} `;
 				const styledTabLabel = isActiveTab
 					? theme.bg("selectedBg", theme.fg("text", tabLabel))
@@ -296,7 +796,7 @@ export async function askQuestionsWithTabs(
 
 			const isSubmitTabActive = activeTabIndex === submitTabIndex;
 			const canSubmit = isAllQuestionSelectionsValid();
-			const submitLabel = " ✓ Submit ";
+			const submitLabel = ` ✓ ${messages.submitTab} `;
 			const styledSubmitLabel = isSubmitTabActive
 				? theme.bg("selectedBg", theme.fg("text", submitLabel))
 				: theme.fg(canSubmit ? "success" : "dim", submitLabel);
@@ -307,80 +807,327 @@ export async function askQuestionsWithTabs(
 		const renderSubmitTab = (width: number, renderedLines: string[]): void => {
 			const addLine = (line: string) => renderedLines.push(truncateToWidth(line, width));
 
-			addLine(theme.fg("accent", theme.bold(" Review answers")));
+			addLine(theme.fg("accent", theme.bold(` ${messages.reviewAnswers}`)));
 			renderedLines.push("");
 
+			const questionVisibility = getQuestionVisibility();
 			for (let questionIndex = 0; questionIndex < preparedQuestions.length; questionIndex++) {
 				const preparedQuestion = preparedQuestions[questionIndex];
+				if (!questionVisibility[questionIndex]) {
+					addLine(` ${theme.fg("dim", "–")} ${theme.fg("dim", `${preparedQuestion.tabLabel}: ${messages.notApplicable}`)}`);
+					continue;
+				}
 				const selection = buildSelectionForQuestion(
 					preparedQuestion,
 					selectedOptionIndexesByQuestion[questionIndex],
 					noteByQuestionByOption[questionIndex],
+					textAnswerByQuestion[questionIndex],
 				);
-				const value = formatSelectionForSubmitReview(selection, preparedQuestion.multi);
-				const isValid = isQuestionSelectionValid(
-					preparedQuestion,
-					selectedOptionIndexesByQuestion[questionIndex],
-					noteByQuestionByOption[questionIndex],
-				);
-				const statusIcon = isValid ? theme.fg("success", "●") : theme.fg("warning", "○");
+				const reviewValue = isTextQuestion(preparedQuestion)
+					? formatTextAnswerForSubmitReview(selection, isQuestionResolved(questionIndex), messages)
+					: isRankQuestion(preparedQuestion) && selection.selectedOptions.length > 0
+						? formatRanking(selection.selectedOptions)
+						: formatSelectionForSubmitReview(selection, preparedQuestion.multi, messages);
+				const singleLineReviewValue = reviewValue.replace(/\s*\n\s*/g, " ");
+				const value = timedOutByQuestion[questionIndex]
+					? `${singleLineReviewValue} ${messages.timedOut}`
+					: singleLineReviewValue;
+				const isValid = isQuestionResolved(questionIndex);
+				const statusIcon = isQuestionSkipped(questionIndex)
+					? theme.fg("dim", "–")
+					: isValid
+						? theme.fg("success", "●")
+						: theme.fg("warning", "○");
 				addLine(` ${statusIcon} ${theme.fg("muted", `${preparedQuestion.tabLabel}:`)} ${theme.fg("text", value)}`);
 			}
 
 			renderedLines.push("");
 			if (isAllQuestionSelectionsValid()) {
-				addLine(theme.fg("success", " Press Enter to submit"));
+				addLine(theme.fg("success", ` ${messages.pressEnterToSubmit}`));
 			} else {
 				const missingQuestions = preparedQuestions
-					.filter((preparedQuestion, questionIndex) =>
-						!isQuestionSelectionValid(
-							preparedQuestion,
-							selectedOptionIndexesByQuestion[questionIndex],
-							noteByQuestionByOption[questionIndex],
-						),
+					.filter(
+						(_preparedQuestion, questionIndex) =>
+							questionVisibility[questionIndex] && !isQuestionResolved(questionIndex),
 					)
 					.map((preparedQuestion) => preparedQuestion.tabLabel)
 					.join(", ");
-				addLine(theme.fg("warning", ` Complete required answers: ${missingQuestions}`));
+				addLine(theme.fg("warning", ` ${messages.completeRequiredAnswers(missingQuestions)}`));
+			}
+			addLine(theme.fg("dim", ` ${keyHints.switchTabs} ${hints.switchTabs} • ${keyHints.cancel} ${hints.cancel}`));
+
+			const remainingSeconds = countdown.getRemainingSeconds();
+			if (remainingSeconds != null) {
+				const timedQuestions = getUnresolvedTimedQuestionIndexes()
+					.map((questionIndex) => preparedQuestions[questionIndex].tabLabel)
+					.join(", ");
+				addLine(
+					theme.fg(
+						"warning",
+						` ⏱ ${messages.countdown(messages.timingOut(timedQuestions), formatCountdown(remainingSeconds))}`,
+					),
+				);
+			}
+		};
+
+		const renderTimeoutCountdown = (width: number, renderedLines: string[], questionIndex: number): void => {
+			const remainingSeconds = countdown.getRemainingSeconds();
+			if (remainingSeconds == null) return;
+
+			const preparedQuestion = preparedQuestions[questionIndex];
+			const autoSelectedOptionLabels = preparedQuestion.recommendedOptionIndexes
+				.slice(0, preparedQuestion.multi ? undefined : 1)
+				.map((optionIndex) => `"${preparedQuestion.baseOptionLabels[optionIndex]}"`);
+			const timeoutAction = isQuestionAnswered(questionIndex)
+				? messages.movingOn
+				: isRankQuestion(preparedQuestion)
+					? messages.keepingCurrentOrder
+					: autoSelectedOptionLabels.length === 0
+						? messages.leavingUnanswered
+						: messages.autoSelecting(autoSelectedOptionLabels.join(", "));
+			renderedLines.push(
+				truncateToWidth(
+					theme.fg("warning", ` ⏱ ${messages.countdown(timeoutAction, formatCountdown(remainingSeconds))}`),
+					width,
+				),
+			);
+		};
+
+		const renderTextAnswer = (width: number, renderedLines: string[], questionIndex: number): void => {
+			const addLine = (line: string) => renderedLines.push(truncateToWidth(line, width));
+			const preparedQuestion = preparedQuestions[questionIndex];
+			const textAnswer = textAnswerByQuestion[questionIndex];
+
+			const showsPlaceholderOnly = !isNoteEditorOpen && textAnswer.length === 0 && preparedQuestion.placeholder;
+			if (!showsPlaceholderOnly) {
+				const answerLines = buildWrappedTextAnswerLines(
+					isNoteEditorOpen ? noteEditor.getLines() : textAnswer.split("\n"),
+					Math.max(1, width - TEXT_ANSWER_INDENT.length),
+					isNoteEditorOpen ? noteEditor.getCursor() : undefined,
+				);
+				for (const answerLine of answerLines) {
+					addLine(`${TEXT_ANSWER_INDENT}${theme.fg(isNoteEditorOpen ? "accent" : "text", answerLine)}`);
+				}
+			}
+			if (textAnswer.length === 0 && preparedQuestion.placeholder) {
+				addLine(`${TEXT_ANSWER_INDENT}${theme.fg("dim", preparedQuestion.placeholder)}`);
+			}
+
+			renderedLines.push("");
+			const answerIssue = getTextAnswerIssue(preparedQuestion, textAnswer, messages);
+			const lengthText = formatTextAnswerLength(textAnswer, preparedQuestion.maxLength, messages);
+			if (answerIssue && (hasRejectedTextSubmitByQuestion[questionIndex] || textAnswer.trim().length > 0)) {
+				addLine(theme.fg("warning", ` ${answerIssue} • ${lengthText}`));
+			} else {
+				addLine(theme.fg("muted", ` ${lengthText}`));
+			}
+
+			if (isNoteEditorOpen) {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.typingAnswer} • Enter ${hints.save} • Shift+Enter ${hints.newLine} • ${keyHints.stopEditing} ${hints.stopEditing}`,
+					),
+				);
+			} else {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${keyHints.select}/${keyHints.note} ${hints.editAnswer}${formatSkipHint(questionIndex)} • ${keyHints.switchTabs} ${hints.switchTabs} • ${keyHints.cancel} ${hints.cancel}`,
+					),
+				);
+			}
+			renderTimeoutCountdown(width, renderedLines, questionIndex);
+		};
+
+		const renderCursorOptionDescription = (width: number, renderedLines: string[], questionIndex: number): void => {
+			const cursorOptionIndex = isRankQuestion(preparedQuestions[questionIndex])
+				? rankedOptionIndexesByQuestion[questionIndex][cursorOptionIndexByQuestion[questionIndex]]
+				: cursorOptionIndexByQuestion[questionIndex];
+			const optionDescriptionMarkdown = optionDescriptionMarkdownByQuestion[questionIndex][cursorOptionIndex];
+			if (!optionDescriptionMarkdown) return;
+
+			renderedLines.push("");
+			for (const descriptionLine of optionDescriptionMarkdown.render(Math.max(1, width - 3))) {
+				renderedLines.push(truncateToWidth(`   ${descriptionLine}`, width));
+			}
+		};
+
+		const renderSelectionLimitStatus = (width: number, renderedLines: string[], questionIndex: number): void => {
+			const preparedQuestion = preparedQuestions[questionIndex];
+			const selectionLimitsText = formatSelectionLimits(preparedQuestion, messages);
+			if (!selectionLimitsText) return;
+
+			const selectedCount = selectedOptionIndexesByQuestion[questionIndex].length;
+			const selectionIssue = getMultiSelectionIssue(preparedQuestion, selectedCount, messages);
+			const statusText = isSelectionLimitWarningVisible
+				? messages.maxSelectReached(preparedQuestion.maxSelect ?? selectedCount)
+				: selectionIssue && selectedCount > 0
+					? `${selectionIssue} • ${messages.selectedCount(selectedCount)}`
+					: `${selectionLimitsText[0].toUpperCase()}${selectionLimitsText.slice(1)} • ${messages.selectedCount(selectedCount)}`;
+			const statusColor = isSelectionLimitWarningVisible || (selectionIssue && selectedCount > 0) ? "warning" : "muted";
+			renderedLines.push(truncateToWidth(theme.fg(statusColor, ` ${statusText}`), width));
+		};
+
+		const renderRankList = (width: number, sections: ViewportSections, questionIndex: number): void => {
+			const addLine = (line: string) => sections.bottom.push(truncateToWidth(line, width));
+			const preparedQuestion = preparedQuestions[questionIndex];
+			const cursorPosition = cursorOptionIndexByQuestion[questionIndex];
+			const isRankingConfirmed = selectedOptionIndexesByQuestion[questionIndex].length > 0;
+			const rankedOptionIndexes = rankedOptionIndexesByQuestion[questionIndex];
+			const positionWidth = String(rankedOptionIndexes.length).length;
+
+			sections.cursorOptionPosition = cursorPosition;
+			for (let position = 0; position < rankedOptionIndexes.length; position++) {
+				const optionLines: string[] = [];
+				const addOptionLine = (line: string) => optionLines.push(truncateToWidth(line, width));
+				const isCursorOption = position === cursorPosition;
+				const cursorPrefixText = isCursorOption ? "→ " : "  ";
+				const cursorPrefix = isCursorOption ? theme.fg("accent", cursorPrefixText) : cursorPrefixText;
+				const positionText = `${String(position + 1).padStart(positionWidth)}. `;
+				const optionColor = isCursorOption ? "accent" : isRankingConfirmed ? "success" : "text";
+				const prefixWidth = visibleWidth(cursorPrefixText) + visibleWidth(positionText);
+				const wrappedLabelLines = buildWrappedOptionLabelWithInlineNote(
+					preparedQuestion.options[rankedOptionIndexes[position]],
+					"",
+					false,
+					Math.max(1, width - prefixWidth),
+				);
+				const continuationPrefix = " ".repeat(prefixWidth);
+				addOptionLine(`${cursorPrefix}${theme.fg(optionColor, `${positionText}${wrappedLabelLines[0] ?? ""}`)}`);
+				for (const wrappedLine of wrappedLabelLines.slice(1)) {
+					addOptionLine(`${continuationPrefix}${theme.fg(optionColor, wrappedLine)}`);
+				}
+				sections.options.push(optionLines);
 			}
-			addLine(theme.fg("dim", " ←/→ switch tabs • Esc cancel"));
+
+			renderCursorOptionDescription(width, sections.bottom, questionIndex);
+			sections.bottom.push("");
+			addLine(
+				theme.fg(
+					"dim",
+					` ${keyHints.move} ${hints.move} • ${keyHints.reorder} ${hints.reorder} • ${keyHints.select} ${hints.confirmOrder}${formatSkipHint(questionIndex)} • ${keyHints.switchTabs} ${hints.switchTabs} • ${keyHints.cancel} ${hints.cancel}`,
+				),
+			);
+			renderTimeoutCountdown(width, sections.bottom, questionIndex);
 		};
 
-		const renderQuestionTab = (width: number, renderedLines: string[], questionIndex: number): void => {
+		const renderNumberEntryStatus = (width: number, renderedLines: string[], questionIndex: number): void => {
 			const addLine = (line: string) => renderedLines.push(truncateToWidth(line, width));
 			const preparedQuestion = preparedQuestions[questionIndex];
+			const enteredNumber = getQuestionNote(questionIndex, preparedQuestion.otherOptionIndex);
+			const isEntrySelected = selectedOptionIndexesByQuestion[questionIndex].includes(
+				preparedQuestion.otherOptionIndex,
+			);
+			const numberIssue = getNumberAnswerIssue(preparedQuestion, enteredNumber, messages);
+			const constraintsText = formatNumberConstraints(preparedQuestion, messages);
+
+			if (numberIssue && (enteredNumber.trim().length > 0 || isEntrySelected)) {
+				addLine(theme.fg("warning", ` ${numberIssue}`));
+			} else if (constraintsText) {
+				addLine(theme.fg("muted", ` ${messages.allowedNumbers(constraintsText)}`));
+			}
+
+			if (isNoteEditorOpen) {
+				addLine(
+					theme.fg("dim", ` ${hints.typingNumber} • Enter ${hints.save} • ${keyHints.stopEditing} ${hints.stopEditing}`),
+				);
+			} else if (filterQueryByQuestion[questionIndex] != null) {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.typeToFilter} • ${keyHints.typingMove} ${hints.move} • ${keyHints.select} ${hints.select} • ${keyHints.note} ${hints.typeNumber} • ${keyHints.cancel} ${hints.clearFilter}`,
+					),
+				);
+			} else {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${keyHints.move} ${hints.move} • ${keyHints.select} ${hints.select} • ${keyHints.note} ${hints.typeNumber} • ${keyHints.filter} ${hints.filter}${formatSkipHint(questionIndex)} • ${keyHints.switchTabs} ${hints.switchTabs} • ${keyHints.cancel} ${hints.cancel}`,
+					),
+				);
+			}
+		};
+
+		const renderQuestionTab = (width: number, sections: ViewportSections, questionIndex: number): void => {
+			const addLine = (line: string) => sections.bottom.push(truncateToWidth(line, width));
+			const addMiddleLine = (line: string) => sections.middle.push(truncateToWidth(line, width));
+			const preparedQuestion = preparedQuestions[questionIndex];
 			const cursorOptionIndex = cursorOptionIndexByQuestion[questionIndex];
 			const selectedOptionIndexes = selectedOptionIndexesByQuestion[questionIndex];
 
-			appendWrappedTextLines(renderedLines, preparedQuestion.question, width, {
+			appendWrappedTextLines(sections.top, preparedQuestion.question, width, {
 				indent: 1,
 				formatLine: (line) => theme.fg("text", line),
 			});
 			const questionDescriptionMarkdown = descriptionMarkdownByQuestion[questionIndex];
 			if (questionDescriptionMarkdown) {
-				renderedLines.push("");
+				sections.top.push("");
 				const descriptionLines = questionDescriptionMarkdown.render(Math.max(1, width - 1));
 				for (const descriptionLine of descriptionLines) {
-					addLine(` ${descriptionLine}`);
+					sections.description.push(truncateToWidth(` ${descriptionLine}`, width));
 				}
 			}
-			renderedLines.push("");
+			if (preparedQuestion.prefilledAnswer) {
+				addMiddleLine(theme.fg("dim", ` ${formatPrefilledAnswerHint(preparedQuestion.prefilledAnswer, messages)}`));
+			}
+			sections.middle.push("");
+
+			if (isTextQuestion(preparedQuestion)) {
+				renderTextAnswer(width, sections.bottom, questionIndex);
+				return;
+			}
+
+			if (isRankQuestion(preparedQuestion)) {
+				renderRankList(width, sections, questionIndex);
+				return;
+			}
 
-			const activeEditingCursorIndex = isNoteEditorOpen
-				? getLinearCursorIndexFromEditor(noteEditor)
-				: undefined;
-			for (let optionIndex = 0; optionIndex < preparedQuestion.options.length; optionIndex++) {
-				const optionLabel = preparedQuestion.options[optionIndex];
+			const filterQuery = filterQueryByQuestion[questionIndex];
+			const visibleOptionIndexes = getVisibleOptionIndexes(questionIndex);
+			if (filterQuery != null) {
+				const hiddenSelectedCount = selectedOptionIndexes.filter(
+					(optionIndex) => !visibleOptionIndexes.includes(optionIndex),
+				).length;
+				const filterStatus = formatOptionFilterStatus(
+					filterQuery,
+					visibleOptionIndexes.filter((optionIndex) => optionIndex !== preparedQuestion.otherOptionIndex).length,
+					preparedQuestion.baseOptionLabels.length,
+					hiddenSelectedCount,
+					messages,
+				);
+				addMiddleLine(theme.fg("accent", ` ${filterStatus}`));
+			}
+
+			sections.cursorOptionPosition = Math.max(0, visibleOptionIndexes.indexOf(cursorOptionIndex));
+			const isEditingNoteInline = isNoteEditorOpen && !isNoteEditorExpanded;
+			const activeEditingCursorIndex = isEditingNoteInline ? getLinearCursorIndexFromEditor(noteEditor) : undefined;
+			for (const optionIndex of visibleOptionIndexes) {
+				const matchPositions =
+					filterQuery != null && optionIndex !== preparedQuestion.otherOptionIndex
+						? (findFuzzyMatchPositions(preparedQuestion.baseOptionLabels[optionIndex], filterQuery) ?? [])
+						: [];
+				const optionLabel = highlightMatchPositions(preparedQuestion.options[optionIndex], matchPositions, (text) =>
+					theme.underline(theme.bold(text)),
+				);
+				const optionLines: string[] = [];
+				const addOptionLine = (line: string) => optionLines.push(truncateToWidth(line, width));
 				const isCursorOption = optionIndex === cursorOptionIndex;
 				const isOptionSelected = selectedOptionIndexes.includes(optionIndex);
-				const isEditingThisOption = isNoteEditorOpen && isCursorOption;
+				const isEditingThisOption = isEditingNoteInline && isCursorOption;
+				const quickSelectGutter = formatQuickSelectGutter(
+					optionIndex,
+					!isNoteEditorOpen && filterQuery == null,
+					(key) => theme.fg("dim", key),
+					quickSelectKeys,
+				);
 				const cursorPrefixText = isCursorOption ? "→ " : "  ";
 				const cursorPrefix = isCursorOption ? theme.fg("accent", cursorPrefixText) : cursorPrefixText;
 				const markerText = preparedQuestion.multi
 					? `${isOptionSelected ? "[x]" : "[ ]"} `
 					: `${isOptionSelected ? "●" : "○"} `;
 				const optionColor = isCursorOption ? "accent" : isOptionSelected ? "success" : "text";
-				const prefixWidth = visibleWidth(cursorPrefixText) + visibleWidth(markerText);
+				const prefixWidth = quickSelectGutter.width + visibleWidth(cursorPrefixText) + visibleWidth(markerText);
 				const wrappedInlineLabelLines = buildWrappedOptionLabelWithInlineNote(
 					optionLabel,
 					getQuestionNote(questionIndex, optionIndex),
@@ -388,63 +1135,161 @@ export async function askQuestionsWithTabs(
 					Math.max(1, width - prefixWidth),
 					INLINE_NOTE_WRAP_PADDING,
 					isEditingThisOption ? activeEditingCursorIndex : undefined,
+					messages,
 				);
 				const continuationPrefix = " ".repeat(prefixWidth);
-				addLine(`${cursorPrefix}${theme.fg(optionColor, `${markerText}${wrappedInlineLabelLines[0] ?? ""}`)}`);
+				addOptionLine(
+					`${quickSelectGutter.text}${cursorPrefix}${theme.fg(optionColor, `${markerText}${wrappedInlineLabelLines[0] ?? ""}`)}`,
+				);
 				for (const wrappedLine of wrappedInlineLabelLines.slice(1)) {
-					addLine(`${continuationPrefix}${theme.fg(optionColor, wrappedLine)}`);
+					addOptionLine(`${continuationPrefix}${theme.fg(optionColor, wrappedLine)}`);
 				}
+				if (
+					isEditingThisOption &&
+					optionIndex === preparedQuestion.otherOptionIndex &&
+					preparedQuestion.otherPlaceholder &&
+					getQuestionNote(questionIndex, optionIndex).length === 0
+				) {
+					addOptionLine(`${continuationPrefix}${theme.fg("dim", preparedQuestion.otherPlaceholder)}`);
+				}
+				sections.options.push(optionLines);
 			}
 
-			renderedLines.push("");
-			if (isNoteEditorOpen) {
-				addLine(theme.fg("dim", " Typing note inline • Enter save note • Tab/Esc stop editing"));
-			} else {
-				if (preparedQuestion.multi) {
-					addLine(
-						theme.fg(
-							"dim",
-							" ↑↓ move • Enter toggle/select • Tab add note • ←/→ switch tabs • Esc cancel",
-						),
-					);
-				} else {
-					addLine(
-						theme.fg("dim", " ↑↓ move • Enter select • Tab add note • ←/→ switch tabs • Esc cancel"),
-					);
+			if (isNoteEditorOpen && isNoteEditorExpanded) {
+				sections.bottom.push("");
+				const [headerLine, ...noteLines] = buildExpandedNoteLines(
+					preparedQuestion.baseOptionLabels[cursorOptionIndex] ?? preparedQuestion.options[cursorOptionIndex],
+					noteEditor.getLines(),
+					Math.max(1, width - EXPANDED_NOTE_INDENT.length),
+					noteEditor.getCursor(),
+					messages,
+				);
+				addLine(theme.fg("muted", ` ${headerLine}`));
+				for (const noteLine of noteLines) {
+					addLine(`${EXPANDED_NOTE_INDENT}${theme.fg("accent", noteLine)}`);
 				}
 			}
+
+			renderCursorOptionDescription(width, sections.bottom, questionIndex);
+			sections.bottom.push("");
+			if (externalEditorError) {
+				addLine(theme.fg("warning", ` ${externalEditorError}`));
+			}
+			const externalEditorHint = resolveExternalEditorCommand()
+				? ` • ${keyHints.externalEditor} ${hints.externalEditor}`
+				: "";
+			if (isNumberQuestion(preparedQuestion)) {
+				renderNumberEntryStatus(width, sections.bottom, questionIndex);
+			} else if (isNoteEditorOpen && isNoteEditorExpanded) {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.editingNote} • Enter ${hints.saveNote} • Shift+Enter ${hints.newLine} • ${keyHints.expandNote} ${hints.collapse} • ${keyHints.stopEditing} ${hints.stopEditing}${externalEditorHint}`,
+					),
+				);
+			} else if (isNoteEditorOpen) {
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.typingNoteInline} • Enter ${hints.saveNote} • ${keyHints.stopEditing} ${hints.stopEditing} • ${keyHints.expandNote} ${hints.expand}${externalEditorHint}`,
+					),
+				);
+			} else if (filterQuery != null) {
+				if (preparedQuestion.multi) renderSelectionLimitStatus(width, sections.bottom, questionIndex);
+				addLine(
+					theme.fg(
+						"dim",
+						` ${hints.typeToFilter} • ${keyHints.typingMove} ${hints.move} • ${keyHints.select} ${hints.select} • ${keyHints.note} ${hints.note} • ${keyHints.cancel} ${hints.clearFilter}`,
+					),
+				);
+			} else {
+				if (preparedQuestion.multi) renderSelectionLimitStatus(width, sections.bottom, questionIndex);
+				const selectAction = preparedQuestion.multi ? hints.toggleSelect : hints.select;
+				addLine(
+					theme.fg(
+						"dim",
+						` ${keyHints.move} ${hints.move} • ${keyHints.select} ${selectAction} • ${keyHints.note} ${hints.addNote} • ${keyHints.filter} ${hints.filter}${formatSkipHint(questionIndex)} • ${keyHints.switchTabs} ${hints.switchTabs} • ${keyHints.cancel} ${hints.cancel}`,
+					),
+				);
+			}
+
+			renderTimeoutCountdown(width, sections.bottom, questionIndex);
 		};
 
 		const render = (width: number): string[] => {
-			if (cachedRenderedLines && cachedRenderedWidth === width) return cachedRenderedLines;
+			const viewportHeight = resolveViewportHeight(tui.terminal?.rows);
+			if (cachedRenderedLines && cachedRenderedWidth === width && cachedViewportHeight === viewportHeight) {
+				return cachedRenderedLines;
+			}
 
-			const renderedLines: string[] = [];
-			const addLine = (line: string) => renderedLines.push(truncateToWidth(line, width));
-
-			addLine(theme.fg("accent", "─".repeat(width)));
-			addLine(` ${renderTabs()}`);
-			renderedLines.push("");
+			const headerLines = [
+				truncateToWidth(theme.fg("accent", "─".repeat(width)), width),
+				truncateToWidth(` ${renderTabs()}`, width),
+				"",
+			];
+			const footerLine = truncateToWidth(theme.fg("accent", "─".repeat(width)), width);
+			let renderedLines: string[];
 
 			if (activeTabIndex === submitTabIndex) {
+				renderedLines = [...headerLines];
 				renderSubmitTab(width, renderedLines);
+				renderedLines.push(footerLine);
 			} else {
-				renderQuestionTab(width, renderedLines, activeTabIndex);
+				const sections: ViewportSections = {
+					top: [],
+					description: [],
+					middle: [],
+					options: [],
+					cursorOptionPosition: 0,
+					bottom: [],
+				};
+				renderQuestionTab(width, sections, activeTabIndex);
+				const layout = layoutViewport(
+					{ ...sections, top: [...headerLines, ...sections.top], bottom: [...sections.bottom, footerLine] },
+					viewportHeight,
+					descriptionScrollOffsetByQuestion[activeTabIndex],
+					(text) => truncateToWidth(theme.fg("dim", text), width),
+					keyHints.scroll,
+					messages,
+				);
+				descriptionScrollOffsetByQuestion[activeTabIndex] = layout.descriptionScrollOffset;
+				descriptionPageSize = layout.descriptionPageSize;
+				renderedLines = layout.lines;
 			}
 
-			addLine(theme.fg("accent", "─".repeat(width)));
 			cachedRenderedLines = renderedLines;
 			cachedRenderedWidth = width;
+			cachedViewportHeight = viewportHeight;
 			return renderedLines;
 		};
 
-		const handleInput = (data: string) => {
-			if (matchesKey(data, Key.ctrl("c"))) {
-				done(createTabsUiStateSnapshot(true, selectedOptionIndexesByQuestion, noteByQuestionByOption));
+		const handleKeyInput = (data: string) => {
+			if (matchesAskKey(keymap, data, "interrupt")) {
+				finish(true);
 				return;
 			}
 
+			externalEditorError = undefined;
 			if (isNoteEditorOpen) {
-				if (matchesKey(data, Key.tab) || matchesKey(data, Key.escape)) {
+				const questionIndex = getActiveQuestionIndex();
+				if (
+					questionIndex != null &&
+					canExpandNote(questionIndex) &&
+					matchesAskKey(keymap, data, "externalEditor", { ignoreCharacterKeys: true })
+				) {
+					editNoteInExternalEditor(questionIndex);
+					return;
+				}
+				if (
+					questionIndex != null &&
+					canExpandNote(questionIndex) &&
+					matchesAskKey(keymap, data, "expandNote", { ignoreCharacterKeys: true })
+				) {
+					isNoteEditorExpanded = !isNoteEditorExpanded;
+					requestUiRerender();
+					return;
+				}
+				if (matchesStopEditingKey(keymap, data)) {
 					isNoteEditorOpen = false;
 					requestUiRerender();
 					return;
@@ -454,25 +1299,45 @@ export async function askQuestionsWithTabs(
 				return;
 			}
 
-			if (matchesKey(data, Key.left)) {
-				activeTabIndex = (activeTabIndex - 1 + preparedQuestions.length + 1) % (preparedQuestions.length + 1);
+			const activeQuestionIndex = getActiveQuestionIndex();
+			const isTypingText =
+				activeQuestionIndex != null &&
+				(isTextQuestion(preparedQuestions[activeQuestionIndex]) || filterQueryByQuestion[activeQuestionIndex] != null);
+			const navigationKeyOptions = { ignoreCharacterKeys: isTypingText };
+
+			if (matchesAskKey(keymap, data, "previousTab", navigationKeyOptions)) {
+				moveActiveTab(-1);
+				requestUiRerender();
+				return;
+			}
+
+			if (matchesAskKey(keymap, data, "nextTab", navigationKeyOptions)) {
+				moveActiveTab(1);
 				requestUiRerender();
 				return;
 			}
 
-			if (matchesKey(data, Key.right)) {
-				activeTabIndex = (activeTabIndex + 1) % (preparedQuestions.length + 1);
+			const isScrollUpKey = matchesAskKey(keymap, data, "scrollUp", navigationKeyOptions);
+			if (
+				activeTabIndex !== submitTabIndex &&
+				(isScrollUpKey || matchesAskKey(keymap, data, "scrollDown", navigationKeyOptions))
+			) {
+				const scrollDirection = isScrollUpKey ? -1 : 1;
+				descriptionScrollOffsetByQuestion[activeTabIndex] = Math.max(
+					0,
+					descriptionScrollOffsetByQuestion[activeTabIndex] + scrollDirection * descriptionPageSize,
+				);
 				requestUiRerender();
 				return;
 			}
 
 			if (activeTabIndex === submitTabIndex) {
-				if (matchesKey(data, Key.enter) && isAllQuestionSelectionsValid()) {
-					done(createTabsUiStateSnapshot(false, selectedOptionIndexesByQuestion, noteByQuestionByOption));
+				if (matchesAskKey(keymap, data, "select") && isAllQuestionSelectionsValid()) {
+					finish(false);
 					return;
 				}
-				if (matchesKey(data, Key.escape)) {
-					done(createTabsUiStateSnapshot(true, selectedOptionIndexesByQuestion, noteByQuestionByOption));
+				if (matchesAskKey(keymap, data, "cancel")) {
+					finish(true);
 				}
 				return;
 			}
@@ -480,69 +1345,152 @@ export async function askQuestionsWithTabs(
 			const questionIndex = activeTabIndex;
 			const preparedQuestion = preparedQuestions[questionIndex];
 
-			if (matchesKey(data, Key.up)) {
-				cursorOptionIndexByQuestion[questionIndex] = Math.max(0, cursorOptionIndexByQuestion[questionIndex] - 1);
-				requestUiRerender();
+			if (preparedQuestion.required === false && matchesAskKey(keymap, data, "skip", navigationKeyOptions)) {
+				skipQuestion(questionIndex);
 				return;
 			}
 
-			if (matchesKey(data, Key.down)) {
-				cursorOptionIndexByQuestion[questionIndex] = Math.min(
-					preparedQuestion.options.length - 1,
-					cursorOptionIndexByQuestion[questionIndex] + 1,
-				);
-				requestUiRerender();
-				return;
-			}
-
-			if (matchesKey(data, Key.tab)) {
-				openNoteEditorForActiveOption();
+			if (isTextQuestion(preparedQuestion)) {
+				if (
+					matchesAskKey(keymap, data, "select", navigationKeyOptions) ||
+					matchesAskKey(keymap, data, "note", navigationKeyOptions)
+				) {
+					openNoteEditorForActiveOption();
+					return;
+				}
+				if (matchesAskKey(keymap, data, "cancel", navigationKeyOptions)) {
+					finish(true);
+					return;
+				}
+				if (isPrintableCharacter(data)) {
+					openNoteEditorForActiveOption();
+					noteEditor.handleInput(data);
+					requestUiRerender();
+				}
 				return;
 			}
 
-			if (matchesKey(data, Key.enter)) {
-				const cursorOptionIndex = cursorOptionIndexByQuestion[questionIndex];
-
-				if (preparedQuestion.multi) {
-					const currentlySelected = selectedOptionIndexesByQuestion[questionIndex];
-					if (currentlySelected.includes(cursorOptionIndex)) {
-						selectedOptionIndexesByQuestion[questionIndex] = removeIndexFromSelection(currentlySelected, cursorOptionIndex);
-					} else {
-						selectedOptionIndexesByQuestion[questionIndex] = addIndexToSelection(currentlySelected, cursorOptionIndex);
-					}
-
-					if (
-						cursorOptionIndex === preparedQuestion.otherOptionIndex &&
-						selectedOptionIndexesByQuestion[questionIndex].includes(cursorOptionIndex) &&
-						getTrimmedQuestionNote(questionIndex, cursorOptionIndex).length === 0
-					) {
-						openNoteEditorForActiveOption();
-						return;
+			if (isRankQuestion(preparedQuestion)) {
+				const reorderDirection = matchesAskKey(keymap, data, "reorderUp")
+					? -1
+					: matchesAskKey(keymap, data, "reorderDown")
+						? 1
+						: undefined;
+				if (reorderDirection != null) {
+					const cursorPosition = cursorOptionIndexByQuestion[questionIndex];
+					rankedOptionIndexesByQuestion[questionIndex] = moveRankedOption(
+						rankedOptionIndexesByQuestion[questionIndex],
+						cursorPosition,
+						reorderDirection,
+					);
+					cursorOptionIndexByQuestion[questionIndex] = clampIndex(
+						cursorPosition + reorderDirection,
+						preparedQuestion.options.length,
+					);
+					if (selectedOptionIndexesByQuestion[questionIndex].length > 0) {
+						selectedOptionIndexesByQuestion[questionIndex] = [...rankedOptionIndexesByQuestion[questionIndex]];
 					}
+					editedByQuestion[questionIndex] = true;
+					requestUiRerender();
+					return;
+				}
 
+				if (matchesAskKey(keymap, data, "select")) {
+					timedOutByQuestion[questionIndex] = false;
+					editedByQuestion[questionIndex] = true;
+					selectedOptionIndexesByQuestion[questionIndex] = [...rankedOptionIndexesByQuestion[questionIndex]];
+					advanceToNextTabOrSubmit();
 					requestUiRerender();
 					return;
 				}
 
-				selectedOptionIndexesByQuestion[questionIndex] = [cursorOptionIndex];
-				if (
-					cursorOptionIndex === preparedQuestion.otherOptionIndex &&
-					getTrimmedQuestionNote(questionIndex, cursorOptionIndex).length === 0
-				) {
-					openNoteEditorForActiveOption();
+				if (matchesAskKey(keymap, data, "note")) return;
+			} else {
+				const filterQuery = filterQueryByQuestion[questionIndex];
+				if (filterQuery != null) {
+					if (matchesAskKey(keymap, data, "cancel", navigationKeyOptions)) {
+						updateFilterQuery(questionIndex, undefined);
+						return;
+					}
+					if (matchesKey(data, Key.backspace)) {
+						updateFilterQuery(questionIndex, filterQuery.length > 0 ? filterQuery.slice(0, -1) : undefined);
+						return;
+					}
+					if (isPrintableCharacter(data)) {
+						updateFilterQuery(questionIndex, `${filterQuery}${data}`);
+						return;
+					}
+					if (getVisibleOptionIndexes(questionIndex).length === 0) return;
+				} else if (matchesAskKey(keymap, data, "filter")) {
+					updateFilterQuery(questionIndex, "");
 					return;
+				} else {
+					const quickSelectOptionIndex = findQuickSelectOptionIndex(
+						data,
+						preparedQuestion.options.length,
+						quickSelectKeys,
+					);
+					if (quickSelectOptionIndex != null) {
+						cursorOptionIndexByQuestion[questionIndex] = quickSelectOptionIndex;
+						selectCursorOption(questionIndex);
+						return;
+					}
 				}
+			}
 
-				advanceToNextTabOrSubmit();
+			const isUpKey = matchesAskKey(keymap, data, "up");
+			if (isUpKey || matchesAskKey(keymap, data, "down")) {
+				cursorOptionIndexByQuestion[questionIndex] = moveCursorWithinVisibleOptions(
+					getVisibleOptionIndexes(questionIndex),
+					cursorOptionIndexByQuestion[questionIndex],
+					isUpKey ? -1 : 1,
+				);
 				requestUiRerender();
 				return;
 			}
 
-			if (matchesKey(data, Key.escape)) {
-				done(createTabsUiStateSnapshot(true, selectedOptionIndexesByQuestion, noteByQuestionByOption));
+			if (matchesAskKey(keymap, data, "note")) {
+				if (isNumberQuestion(preparedQuestion)) {
+					cursorOptionIndexByQuestion[questionIndex] = preparedQuestion.otherOptionIndex;
+				}
+				openNoteEditorForActiveOption();
+				return;
+			}
+
+			if (canExpandNote(questionIndex) && matchesAskKey(keymap, data, "expandNote")) {
+				openNoteEditorForActiveOption();
+				isNoteEditorExpanded = true;
+				return;
+			}
+
+			if (canExpandNote(questionIndex) && matchesAskKey(keymap, data, "externalEditor")) {
+				editNoteInExternalEditor(questionIndex);
+				return;
+			}
+
+			if (matchesAskKey(keymap, data, "select")) {
+				selectCursorOption(questionIndex);
+				return;
+			}
+
+			if (matchesAskKey(keymap, data, "cancel")) {
+				finish(true);
+			}
+		};
+
+		const handleInput = (data: string) => {
+			if (isFinished) return;
+			if (isSelectionLimitWarningVisible) {
+				isSelectionLimitWarningVisible = false;
+				requestUiRerender();
 			}
+			handleKeyInput(data);
+			if (!isFinished) restartCountdownForActiveTab();
 		};
 
+		activeTabIndex = findVisibleTabIndexFrom(0);
+		restartCountdownForActiveTab();
+
 		return {
 			render,
 			invalidate: () => {
@@ -550,23 +1498,56 @@ export async function askQuestionsWithTabs(
 				cachedRenderedWidth = undefined;
 			},
 			handleInput,
+			dispose: () => {
+				unsubscribeAbort();
+				countdown.stop();
+			},
 		};
 	});
 
-	if (result.cancelled) {
+	const selectedOptionIndexesByQuestion = result.selectedOptionIndexesByQuestion ?? [];
+	const questionVisibility = resolveQuestionVisibility(preparedQuestions, selectedOptionIndexesByQuestion);
+	const selections = preparedQuestions.map((preparedQuestion, questionIndex) => {
+		if (!questionVisibility[questionIndex]) {
+			return { selectedOptions: [], notApplicable: true } satisfies AskSelection;
+		}
+		if (result.timedOutByQuestion?.[questionIndex] && isTextQuestion(preparedQuestion)) {
+			return { selectedOptions: [], timedOut: true } satisfies AskSelection;
+		}
+		const selectedOptionIndexes = selectedOptionIndexesByQuestion[questionIndex] ?? [];
+		const noteByOptionIndex =
+			result.noteByQuestionByOption?.[questionIndex] ?? Array(preparedQuestion.options.length).fill("");
+		const textAnswer = result.textAnswerByQuestion?.[questionIndex];
+		if (
+			result.cancelled &&
+			!result.timedOutByQuestion?.[questionIndex] &&
+			(!result.editedByQuestion?.[questionIndex] ||
+				!isQuestionAnsweredBeforeCancel(preparedQuestion, selectedOptionIndexes, noteByOptionIndex, textAnswer))
+		) {
+			return { selectedOptions: [] } satisfies AskSelection;
+		}
+		const answerSelection = buildSelectionForQuestion(
+			preparedQuestion,
+			selectedOptionIndexes,
+			noteByOptionIndex,
+			textAnswer,
+		);
+		const selectedOptionRecords =
+			isTextQuestion(preparedQuestion) || isNumberQuestion(preparedQuestion)
+				? []
+				: buildSelectedOptionRecords(questions[questionIndex].options, selectedOptionIndexes, noteByOptionIndex);
+		const selection: AskSelection =
+			selectedOptionRecords.length > 0 ? { ...answerSelection, selectedOptionRecords } : answerSelection;
+		if (result.timedOutByQuestion?.[questionIndex]) {
+			const { skipped: _skipped, ...answeredSelection } = selection;
+			return { ...answeredSelection, timedOut: true };
+		}
+		if (preparedQuestion.defaultOptionIndexes.length === 0) return selection;
 		return {
-			cancelled: true,
-			selections: preparedQuestions.map(() => ({ selectedOptions: [] } satisfies AskSelection)),
+			...selection,
+			defaultsAccepted: isSelectionUnchangedFromDefaults(preparedQuestion, selectedOptionIndexes, noteByOptionIndex),
 		};
-	}
-
-	const selections = preparedQuestions.map((preparedQuestion, questionIndex) =>
-		buildSelectionForQuestion(
-			preparedQuestion,
-			result.selectedOptionIndexesByQuestion[questionIndex] ?? [],
-			result.noteByQuestionByOption[questionIndex] ?? Array(preparedQuestion.options.length).fill(""),
-		),
-	);
+	});
 
 	return { cancelled: result.cancelled, selections };
 }
@@ -0,0 +1,205 @@
+import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
+import { Editor, Markdown, truncateToWidth } from "@mariozechner/pi-tui";
+import { buildTextSelectionResult, getTextAnswerIssue, type AskPrefilledAnswer, type AskSelection } from "./ask-logic";
+import { onAbortSignal } from "./ask-abort";
+import { createCountdown, formatCountdown } from "./ask-countdown";
+import { buildWrappedTextAnswerLines } from "./ask-inline-note";
+import { formatAskKeyHints, matchesAskKey, resolveAskKeymap, type AskKeybindingsConfig } from "./ask-keymap";
+import { getAskMessages, resolveAskLocale, type AskLocale, type AskMessages } from "./ask-messages";
+import { formatPrefilledAnswerHint, resolvePrefilledAnswerState } from "./ask-previous-answers";
+import { appendWrappedTextLines } from "./ask-text-wrap";
+import { createAskEditorTheme, createAskMarkdownTheme } from "./ask-ui-theme";
+
+const TEXT_ANSWER_INDENT = "  ";
+
+interface TextQuestionInput {
+	question: string;
+	description?: string;
+	placeholder?: string;
+	minLength?: number;
+	maxLength?: number;
+	required?: boolean;
+	timeoutSeconds?: number;
+	previousAnswer?: AskPrefilledAnswer;
+	presetAnswer?: AskPrefilledAnswer;
+}
+
+interface AskTextOptions {
+	signal?: AbortSignal;
+	keybindings?: AskKeybindingsConfig;
+	locale?: AskLocale;
+}
+
+interface TextQuestionUIResult {
+	cancelled: boolean;
+	text?: string;
+	timedOut?: boolean;
+}
+
+export function formatTextAnswerLength(
+	text: string,
+	maxLength?: number,
+	messages: AskMessages = getAskMessages(),
+): string {
+	return messages.textLength(text.trim().length, maxLength);
+}
+
+export async function askSingleTextQuestion(
+	ui: ExtensionUIContext,
+	questionInput: TextQuestionInput,
+	options: AskTextOptions = {},
+): Promise<AskSelection> {
+	const messages = getAskMessages(resolveAskLocale(options.locale));
+	const hints = messages.hints;
+	const prefilledAnswerState = resolvePrefilledAnswerState({ ...questionInput, type: "text", options: [] }, messages);
+	const result = await ui.custom<TextQuestionUIResult>((tui, theme, keybindings, done) => {
+		const keymap = resolveAskKeymap(options.keybindings, keybindings);
+		const keyHints = formatAskKeyHints(keymap);
+		let isFinished = false;
+		let hasRejectedSubmit = false;
+		let cachedRenderedLines: string[] | undefined;
+		let cachedRenderedWidth: number | undefined;
+
+		const textEditor = new Editor(tui, createAskEditorTheme(theme));
+		if (prefilledAnswerState) textEditor.setText(prefilledAnswerState.textAnswer);
+		const questionDescriptionMarkdown =
+			questionInput.description && questionInput.description.trim().length > 0
+				? new Markdown(questionInput.description, 0, 0, createAskMarkdownTheme(theme), {
+						color: (text) => theme.fg("muted", text),
+					})
+				: undefined;
+
+		const requestUiRerender = () => {
+			cachedRenderedLines = undefined;
+			cachedRenderedWidth = undefined;
+			tui.requestRender();
+		};
+
+		let unsubscribeAbort = () => {};
+		const countdown = createCountdown(requestUiRerender, () => finish({ cancelled: true, timedOut: true }));
+		const finish = (result: TextQuestionUIResult) => {
+			if (isFinished) return;
+			isFinished = true;
+			unsubscribeAbort();
+			countdown.stop();
+			cachedRenderedLines = undefined;
+			cachedRenderedWidth = undefined;
+			done(result);
+		};
+		unsubscribeAbort = onAbortSignal(options.signal, () => finish({ cancelled: true }));
+
+		textEditor.onChange = () => {
+			requestUiRerender();
+		};
+
+		textEditor.onSubmit = (value) => {
+			if (getTextAnswerIssue(questionInput, value)) {
+				hasRejectedSubmit = true;
+				textEditor.setText(value);
+				requestUiRerender();
+				return;
+			}
+			finish({ cancelled: false, text: value });
+		};
+
+		const render = (width: number): string[] => {
+			if (cachedRenderedLines && cachedRenderedWidth === width) return cachedRenderedLines;
+
+			const renderedLines: string[] = [];
+			const addLine = (line: string) => renderedLines.push(truncateToWidth(line, width));
+
+			addLine(theme.fg("accent", "─".repeat(width)));
+			appendWrappedTextLines(renderedLines, questionInput.question, width, {
+				indent: 1,
+				formatLine: (line) => theme.fg("text", line),
+			});
+			if (questionDescriptionMarkdown) {
+				renderedLines.push("");
+				for (const descriptionLine of questionDescriptionMarkdown.render(Math.max(1, width - 1))) {
+					addLine(` ${descriptionLine}`);
+				}
+			}
+			if (prefilledAnswerState) {
+				addLine(theme.fg("dim", ` ${formatPrefilledAnswerHint(prefilledAnswerState, messages)}`));
+			}
+			renderedLines.push("");
+
+			const text = textEditor.getText();
+			const answerLines = buildWrappedTextAnswerLines(
+				textEditor.getLines(),
+				Math.max(1, width - TEXT_ANSWER_INDENT.length),
+				textEditor.getCursor(),
+			);
+			for (const answerLine of answerLines) {
+				addLine(`${TEXT_ANSWER_INDENT}${theme.fg("accent", answerLine)}`);
+			}
+			if (text.length === 0 && questionInput.placeholder) {
+				addLine(`${TEXT_ANSWER_INDENT}${theme.fg("dim", questionInput.placeholder)}`);
+			}
+
+			renderedLines.push("");
+			const answerIssue = getTextAnswerIssue(questionInput, text, messages);
+			const lengthText = formatTextAnswerLength(text, questionInput.maxLength, messages);
+			if (answerIssue && (hasRejectedSubmit || text.trim().length > 0)) {
+				addLine(theme.fg("warning", ` ${answerIssue} • ${lengthText}`));
+			} else {
+				addLine(theme.fg("muted", ` ${lengthText}`));
+			}
+			addLine(
+				theme.fg(
+					"dim",
+					` Enter ${hints.submit} • Shift+Enter ${hints.newLine} • ${keyHints.typingCancel} ${hints.cancel}`,
+				),
+			);
+
+			const remainingSeconds = countdown.getRemainingSeconds();
+			if (remainingSeconds != null) {
+				addLine(
+					theme.fg("warning", ` ⏱ ${messages.countdown(messages.cancelling, formatCountdown(remainingSeconds))}`),
+				);
+			}
+
+			addLine(theme.fg("accent", "─".repeat(width)));
+			cachedRenderedLines = renderedLines;
+			cachedRenderedWidth = width;
+			return renderedLines;
+		};
+
+		const handleInput = (data: string) => {
+			if (isFinished) return;
+
+			if (
+				matchesAskKey(keymap, data, "interrupt") ||
+				matchesAskKey(keymap, data, "cancel", { ignoreCharacterKeys: true })
+			) {
+				finish({ cancelled: true });
+				return;
+			}
+
+			textEditor.handleInput(data);
+			requestUiRerender();
+			if (!isFinished) countdown.reset(questionInput.timeoutSeconds);
+		};
+
+		countdown.reset(questionInput.timeoutSeconds);
+
+		return {
+			render,
+			invalidate: () => {
+				cachedRenderedLines = undefined;
+				cachedRenderedWidth = undefined;
+			},
+			handleInput,
+			dispose: () => {
+				unsubscribeAbort();
+				countdown.stop();
+			},
+		};
+	});
+
+	if (result.cancelled || result.text == null) {
+		return result.timedOut ? { selectedOptions: [], timedOut: true } : { selectedOptions: [] };
+	}
+
+	return buildTextSelectionResult(result.text);
+}
@@ -0,0 +1,143 @@
+import { getAskMessages, type AskMessages } from "./ask-messages";
+
+export const VIEWPORT_RESERVED_ROWS = 3;
+const MIN_VIEWPORT_ROWS = 8;
+const MIN_DESCRIPTION_ROWS = 3;
+
+export interface ViewportSections {
+	top: string[];
+	description: string[];
+	middle: string[];
+	options: string[][];
+	cursorOptionPosition: number;
+	bottom: string[];
+}
+
+export interface ViewportLayout {
+	lines: string[];
+	descriptionScrollOffset: number;
+	descriptionPageSize: number;
+}
+
+interface ScrollableSlice {
+	visibleLines: string[];
+	offset: number;
+	hiddenAbove: number;
+	hiddenBelow: number;
+}
+
+export function resolveViewportHeight(terminalRows: number | undefined): number | undefined {
+	if (terminalRows == null || !Number.isFinite(terminalRows) || terminalRows <= 0) return undefined;
+	return Math.max(MIN_VIEWPORT_ROWS, Math.floor(terminalRows) - VIEWPORT_RESERVED_ROWS);
+}
+
+export function formatHiddenLinesIndicator(
+	hiddenAbove: number,
+	hiddenBelow: number,
+	messages: AskMessages = getAskMessages(),
+): string {
+	const parts: string[] = [];
+	if (hiddenAbove > 0) parts.push(messages.moreAbove(hiddenAbove));
+	if (hiddenBelow > 0) parts.push(messages.moreBelow(hiddenBelow));
+	return parts.join(" / ");
+}
+
+function countWindowLines(optionLineCounts: number[], start: number, end: number): number {
+	let lineCount = start > 0 || end < optionLineCounts.length ? 1 : 0;
+	for (let position = start; position < end; position++) lineCount += optionLineCounts[position];
+	return lineCount;
+}
+
+export function selectOptionWindow(
+	optionLineCounts: number[],
+	cursorPosition: number,
+	budget: number,
+): { start: number; end: number } {
+	if (optionLineCounts.length === 0) return { start: 0, end: 0 };
+
+	const cursor = Math.min(optionLineCounts.length - 1, Math.max(0, cursorPosition));
+	let start = cursor;
+	let end = cursor + 1;
+	let hasExtended = true;
+	while (hasExtended) {
+		hasExtended = false;
+		if (end < optionLineCounts.length && countWindowLines(optionLineCounts, start, end + 1) <= budget) {
+			end++;
+			hasExtended = true;
+		}
+		if (start > 0 && countWindowLines(optionLineCounts, start - 1, end) <= budget) {
+			start--;
+			hasExtended = true;
+		}
+	}
+	return { start, end };
+}
+
+function sliceScrollableLines(lines: string[], budget: number, offset: number): ScrollableSlice {
+	if (lines.length <= budget) return { visibleLines: lines, offset: 0, hiddenAbove: 0, hiddenBelow: 0 };
+	if (budget <= 0) return { visibleLines: [], offset: 0, hiddenAbove: 0, hiddenBelow: 0 };
+
+	const pageSize = budget - 1;
+	const clampedOffset = Math.min(lines.length - pageSize, Math.max(0, offset));
+	return {
+		visibleLines: lines.slice(clampedOffset, clampedOffset + pageSize),
+		offset: clampedOffset,
+		hiddenAbove: clampedOffset,
+		hiddenBelow: lines.length - clampedOffset - pageSize,
+	};
+}
+
+export function layoutViewport(
+	sections: ViewportSections,
+	maxHeight: number | undefined,
+	descriptionScrollOffset: number,
+	formatIndicator: (text: string) => string,
+	scrollHint = "PgUp/PgDn",
+	messages: AskMessages = getAskMessages(),
+): ViewportLayout {
+	const { top, description, middle, options, bottom } = sections;
+	const optionLines = options.flat();
+	const fixedLineCount = top.length + middle.length + bottom.length;
+	if (maxHeight == null || fixedLineCount + description.length + optionLines.length <= maxHeight) {
+		return {
+			lines: [...top, ...description, ...middle, ...optionLines, ...bottom],
+			descriptionScrollOffset: 0,
+			descriptionPageSize: description.length,
+		};
+	}
+
+	const availableRows = Math.max(0, maxHeight - fixedLineCount);
+	const descriptionReserve = Math.min(description.length, MIN_DESCRIPTION_ROWS);
+	const optionLineCounts = options.map((lines) => lines.length);
+	const { start, end } = selectOptionWindow(
+		optionLineCounts,
+		sections.cursorOptionPosition,
+		Math.max(1, availableRows - descriptionReserve),
+	);
+	const visibleOptionLines = options.slice(start, end).flat();
+	const hiddenOptionsIndicator = formatHiddenLinesIndicator(start, options.length - end, messages);
+	if (hiddenOptionsIndicator) visibleOptionLines.push(formatIndicator(`  ${hiddenOptionsIndicator}`));
+
+	const descriptionSlice = sliceScrollableLines(
+		description,
+		Math.max(0, availableRows - visibleOptionLines.length),
+		descriptionScrollOffset,
+	);
+	const visibleDescriptionLines = [...descriptionSlice.visibleLines];
+	const hiddenDescriptionIndicator = formatHiddenLinesIndicator(
+		descriptionSlice.hiddenAbove,
+		descriptionSlice.hiddenBelow,
+		messages,
+	);
+	if (hiddenDescriptionIndicator) {
+		visibleDescriptionLines.push(
+			formatIndicator(` ${messages.hiddenDescriptionLines(hiddenDescriptionIndicator, scrollHint)}`),
+		);
+	}
+
+	return {
+		lines: [...top, ...visibleDescriptionLines, ...middle, ...visibleOptionLines, ...bottom],
+		descriptionScrollOffset: descriptionSlice.offset,
+		descriptionPageSize: Math.max(1, descriptionSlice.visibleLines.length),
+	};
+}
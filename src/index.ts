@@ -1,11 +1,60 @@
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { resolve } from "node:path";
+import { getAgentDir, type ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { Type, type Static } from "@sinclair/typebox";
-import { OTHER_OPTION, type AskQuestion } from "./ask-logic";
+import {
+	OTHER_OPTION,
+	allowsOtherOption,
+	formatNumberConstraints,
+	formatNumberWithUnit,
+	formatRanking,
+	formatSelectionLimits,
+	isNumberQuestion,
+	isQuestionConditionMet,
+	isRankQuestion,
+	isTextQuestion,
+	type AskQuestion,
+	type AskQuestionCondition,
+	type AskPrefilledAnswer,
+	type AskQuestionType,
+	type AskSelectedOption,
+	type AskSelection,
+} from "./ask-logic";
+import {
+	DEFAULT_HEADLESS_ANSWERS_FILE,
+	HEADLESS_ANSWERS_FILE_ENV,
+	HEADLESS_POLICY_ENV,
+	loadHeadlessAnswers,
+	parseHeadlessPolicy,
+	resolveHeadlessSelection,
+	type HeadlessAnswers,
+	type HeadlessResolution,
+} from "./ask-headless";
+import { ASK_HISTORY_COMMAND, runAskHistoryCommand } from "./ask-history";
 import { askSingleQuestionWithInlineNote } from "./ask-inline-ui";
+import { loadAskKeybindingsConfigOrDefault, resolveAskKeybindingsFilePath } from "./ask-keymap";
+import {
+	ASK_PRESETS_FILE_ENV,
+	DEFAULT_ASK_PRESETS_FILE,
+	loadAskPresets,
+	resolveAskPreset,
+	type AskPreset,
+} from "./ask-presets";
+import { collectPreviousAnswers, resolvePrefilledAnswerState } from "./ask-previous-answers";
 import { askQuestionsWithTabs } from "./ask-tabs-ui";
+import { askSingleTextQuestion } from "./ask-text-ui";
 
 const OptionItemSchema = Type.Object({
 	label: Type.String({ description: "Display label" }),
+	value: Type.Optional(
+		Type.String({
+			description: "Optional stable machine value returned with the selection (defaults to the label)",
+		}),
+	),
+	description: Type.Optional(
+		Type.String({
+			description: "Optional Markdown/plain details (trade-offs, caveats) shown while the option is highlighted",
+		}),
+	),
 });
 
 const QuestionItemSchema = Type.Object({
@@ -17,40 +66,185 @@ const QuestionItemSchema = Type.Object({
 				"Optional context in Markdown/plain text. Rendered above options with wrapping (supports headings/lists/code blocks).",
 		}),
 	),
-	options: Type.Array(OptionItemSchema, {
-		description: "Available options. Do not include 'Other'.",
-		minItems: 1,
-	}),
+	type: Type.Optional(
+		Type.Union([Type.Literal("choice"), Type.Literal("text"), Type.Literal("rank"), Type.Literal("number")], {
+			description:
+				"choice (default) picks from options; text asks for a free-text answer and ignores options; rank asks the user to order all options; number asks for a number (presets + free entry) and ignores options",
+		}),
+	),
+	options: Type.Optional(
+		Type.Array(OptionItemSchema, {
+			description: "Available options (required for choice questions). Do not include 'Other'.",
+		}),
+	),
+	allowOther: Type.Optional(
+		Type.Boolean({
+			description:
+				"Choice questions: offer the free-text 'Other' option (default true); set false for closed choices such as approve/reject",
+		}),
+	),
+	otherLabel: Type.Optional(
+		Type.String({ description: "Choice questions: label shown for the 'Other' option instead of the default" }),
+	),
+	otherPlaceholder: Type.Optional(
+		Type.String({ description: "Choice questions: hint shown while the 'Other' answer is empty" }),
+	),
 	multi: Type.Optional(Type.Boolean({ description: "Allow multi-select" })),
+	minSelect: Type.Optional(
+		Type.Number({ description: "Multi-select: fewest options the user must pick (default 1)", minimum: 1 }),
+	),
+	maxSelect: Type.Optional(
+		Type.Number({ description: "Multi-select: most options the user may pick", minimum: 1 }),
+	),
 	recommended: Type.Optional(
-		Type.Number({ description: "0-indexed recommended option. '(Recommended)' is shown automatically." }),
+		Type.Union([Type.Number(), Type.Array(Type.Number())], {
+			description:
+				"0-indexed recommended option (or several for multi-select). '(Recommended)' is shown automatically.",
+		}),
+	),
+	defaults: Type.Optional(
+		Type.Array(
+			Type.Object({
+				index: Type.Number({ description: "0-indexed option to pre-check" }),
+				note: Type.Optional(Type.String({ description: "Note pre-filled for that option" })),
+			}),
+			{ description: "Multi-select: options pre-checked (with optional notes) when the UI opens" },
+		),
+	),
+	showIf: Type.Optional(
+		Type.Object(
+			{
+				id: Type.String({ description: "id of an earlier question" }),
+				selected: Type.Union([Type.String(), Type.Array(Type.String())], {
+					description: "Option label(s); the question is shown when any of them is selected",
+				}),
+			},
+			{ description: "Only show this question when an earlier question has one of the given answers" },
+		),
+	),
+	placeholder: Type.Optional(Type.String({ description: "Text questions: hint shown while the answer is empty" })),
+	minLength: Type.Optional(
+		Type.Number({ description: "Text questions: minimum answer length in characters", minimum: 0 }),
+	),
+	maxLength: Type.Optional(
+		Type.Number({ description: "Text questions: maximum answer length in characters", minimum: 1 }),
+	),
+	required: Type.Optional(
+		Type.Boolean({
+			description:
+				"Set false to make the question optional: the user may skip it and the result reports status skipped (default true)",
+		}),
+	),
+	presets: Type.Optional(
+		Type.Array(Type.Number(), { description: "Number questions: suggested values shown as options" }),
+	),
+	min: Type.Optional(Type.Number({ description: "Number questions: smallest allowed value" })),
+	max: Type.Optional(Type.Number({ description: "Number questions: largest allowed value" })),
+	step: Type.Optional(
+		Type.Number({ description: "Number questions: allowed increment, counted from min (or 0)", exclusiveMinimum: 0 }),
+	),
+	unit: Type.Optional(Type.String({ description: "Number questions: unit shown after values (e.g. ms, retries)" })),
+	timeoutSeconds: Type.Optional(
+		Type.Number({
+			description:
+				"Idle seconds before the recommended option is auto-selected (or the question is left unanswered if none). Overrides the call-level timeoutSeconds.",
+			minimum: 1,
+		}),
+	),
+	reusePrevious: Type.Optional(
+		Type.Boolean({
+			description:
+				"Return the answer given to this id earlier in the session without asking again. The call only skips the UI when every shown question can be reused.",
+		}),
 	),
 });
 
 const AskParamsSchema = Type.Object({
 	questions: Type.Array(QuestionItemSchema, { description: "Questions to ask", minItems: 1 }),
+	timeoutSeconds: Type.Optional(
+		Type.Number({ description: "Default timeoutSeconds for questions that do not set their own", minimum: 1 }),
+	),
+	format: Type.Optional(
+		Type.Union([Type.Literal("text"), Type.Literal("json"), Type.Literal("compact")], {
+			description:
+				"Result content format: text (default) adds full answer context; json returns a strict JSON document; compact returns one line per question",
+		}),
+	),
 });
 
 type AskParams = Static<typeof AskParamsSchema>;
 
+type AskResponseFormat = NonNullable<AskParams["format"]>;
+
+type AutoResolution = HeadlessResolution | "preset";
+type AskAnswerStatus = "answered" | "skipped" | "cancelled" | "timed_out" | "not_applicable";
+
+type NonChoiceQuestionType = Exclude<AskQuestionType, "choice">;
+
 interface QuestionResult {
 	id: string;
 	question: string;
 	description?: string;
+	type?: NonChoiceQuestionType;
 	options: string[];
+	allowOther?: boolean;
+	otherLabel?: string;
 	multi: boolean;
+	status: AskAnswerStatus;
 	selectedOptions: string[];
+	selectedOptionRecords?: AskSelectedOption[];
 	customInput?: string;
+	numberValue?: number;
+	numberConstraints?: string;
+	presets?: number[];
+	unit?: string;
+	min?: number;
+	max?: number;
+	step?: number;
+	minSelect?: number;
+	maxSelect?: number;
+	required?: boolean;
+	skipped?: boolean;
+	defaultsAccepted?: boolean;
+	reusedPrevious?: boolean;
+	autoResolved?: AutoResolution;
+	timedOut?: boolean;
+	showIf?: AskQuestionCondition;
+	notApplicable?: boolean;
 }
 
 interface AskToolDetails {
 	id?: string;
 	question?: string;
 	description?: string;
+	type?: NonChoiceQuestionType;
 	options?: string[];
+	allowOther?: boolean;
+	otherLabel?: string;
 	multi?: boolean;
+	status?: AskAnswerStatus;
 	selectedOptions?: string[];
+	selectedOptionRecords?: AskSelectedOption[];
 	customInput?: string;
+	numberValue?: number;
+	numberConstraints?: string;
+	presets?: number[];
+	unit?: string;
+	min?: number;
+	max?: number;
+	step?: number;
+	minSelect?: number;
+	maxSelect?: number;
+	required?: boolean;
+	skipped?: boolean;
+	defaultsAccepted?: boolean;
+	reusedPrevious?: boolean;
+	autoResolved?: AutoResolution;
+	timedOut?: boolean;
+	showIf?: AskQuestionCondition;
+	notApplicable?: boolean;
+	aborted?: boolean;
+	cancelled?: boolean;
 	results?: QuestionResult[];
 }
 
@@ -77,6 +271,16 @@ function sanitizeOptionForSessionText(option: string): string {
 	return sanitizedOption.length > 0 ? sanitizedOption : "(empty option)";
 }
 
+function toSessionSafeSelectedOptionRecord(record: AskSelectedOption): AskSelectedOption {
+	const note = record.note == null ? undefined : sanitizeMultilineForSessionText(record.note);
+	return {
+		value: sanitizeOptionForSessionText(record.value),
+		label: sanitizeOptionForSessionText(record.label),
+		index: record.index,
+		...(note ? { note } : {}),
+	};
+}
+
 function toSessionSafeQuestionResult(result: QuestionResult): QuestionResult {
 	const selectedOptions = result.selectedOptions
 		.map((selectedOption) => sanitizeForSessionText(selectedOption))
@@ -85,32 +289,87 @@ function toSessionSafeQuestionResult(result: QuestionResult): QuestionResult {
 	const rawDescription = result.description;
 	const description = rawDescription == null ? undefined : sanitizeMultilineForSessionText(rawDescription);
 	const rawCustomInput = result.customInput;
-	const customInput = rawCustomInput == null ? undefined : sanitizeForSessionText(rawCustomInput);
+	const customInput = rawCustomInput == null ? undefined : sanitizeMultilineForSessionText(rawCustomInput);
 
 	return {
 		id: sanitizeForSessionText(result.id) || "(unknown)",
 		question: sanitizeForSessionText(result.question) || "(empty question)",
 		description: description && description.length > 0 ? description : undefined,
+		...(result.type ? { type: result.type } : {}),
 		options: result.options.map(sanitizeOptionForSessionText),
+		...(result.allowOther === false ? { allowOther: false } : {}),
+		...(result.otherLabel ? { otherLabel: sanitizeOptionForSessionText(result.otherLabel) } : {}),
 		multi: result.multi,
+		status: result.status,
 		selectedOptions,
+		...(result.selectedOptionRecords
+			? { selectedOptionRecords: result.selectedOptionRecords.map(toSessionSafeSelectedOptionRecord) }
+			: {}),
 		customInput: customInput && customInput.length > 0 ? customInput : undefined,
+		...(result.numberValue != null ? { numberValue: result.numberValue } : {}),
+		...(result.numberConstraints ? { numberConstraints: sanitizeForSessionText(result.numberConstraints) } : {}),
+		...(result.presets ? { presets: result.presets } : {}),
+		...(result.unit ? { unit: sanitizeForSessionText(result.unit) } : {}),
+		...(result.min != null ? { min: result.min } : {}),
+		...(result.max != null ? { max: result.max } : {}),
+		...(result.step != null ? { step: result.step } : {}),
+		...(result.minSelect != null ? { minSelect: result.minSelect } : {}),
+		...(result.maxSelect != null ? { maxSelect: result.maxSelect } : {}),
+		...(result.required === false ? { required: false } : {}),
+		...(result.skipped ? { skipped: true } : {}),
+		...(result.defaultsAccepted != null ? { defaultsAccepted: result.defaultsAccepted } : {}),
+		...(result.reusedPrevious ? { reusedPrevious: true } : {}),
+		...(result.autoResolved ? { autoResolved: result.autoResolved } : {}),
+		...(result.timedOut ? { timedOut: true } : {}),
+		...(result.showIf
+			? {
+					showIf: {
+						id: sanitizeForSessionText(result.showIf.id),
+						selected: Array.isArray(result.showIf.selected)
+							? result.showIf.selected.map(sanitizeOptionForSessionText)
+							: sanitizeOptionForSessionText(result.showIf.selected),
+					},
+				}
+			: {}),
+		...(result.notApplicable ? { notApplicable: true } : {}),
 	};
 }
 
+function formatQuestionCondition(condition: AskQuestionCondition): string {
+	if (!Array.isArray(condition.selected)) {
+		return `${condition.id} is ${condition.selected}`;
+	}
+	return `${condition.id} is one of [${condition.selected.join(", ")}]`;
+}
+
 function formatSelectionForSummary(result: QuestionResult): string {
+	switch (result.status) {
+		case "not_applicable":
+			return "(not applicable)";
+		case "skipped":
+			return "(skipped)";
+		case "timed_out":
+			return "(timed out)";
+		case "cancelled":
+			return "(cancelled)";
+	}
+
 	const hasSelectedOptions = result.selectedOptions.length > 0;
 	const hasCustomInput = Boolean(result.customInput);
 
-	if (!hasSelectedOptions && !hasCustomInput) {
-		return "(cancelled)";
+	if (result.type === "text") {
+		return `"${sanitizeForSessionText(result.customInput ?? "")}"`;
+	}
+
+	if (result.type === "rank") {
+		return formatRanking(result.selectedOptions);
 	}
 
 	if (hasSelectedOptions && hasCustomInput) {
 		const selectedPart = result.multi
 			? `[${result.selectedOptions.join(", ")}]`
 			: result.selectedOptions[0];
-		return `${selectedPart} + Other: "${result.customInput}"`;
+		return `${selectedPart} + ${result.otherLabel ?? "Other"}: "${result.customInput}"`;
 	}
 
 	if (hasCustomInput) {
@@ -125,11 +384,19 @@ function formatSelectionForSummary(result: QuestionResult): string {
 }
 
 function formatQuestionResult(result: QuestionResult): string {
-	return `${result.id}: ${formatSelectionForSummary(result)}`;
+	const summary = sanitizeForSessionText(formatSelectionForSummary(result));
+	const autoResolvedSuffix = result.autoResolved ? " (auto-resolved)" : "";
+	const timedOutSuffix = result.timedOut && summary !== "(timed out)" ? " (timed out)" : "";
+	const defaultsSuffix = result.defaultsAccepted ? " (defaults accepted)" : "";
+	const reusedSuffix = result.reusedPrevious ? " (reused previous answer)" : "";
+	return `${result.id}: ${summary}${autoResolvedSuffix}${timedOutSuffix}${defaultsSuffix}${reusedSuffix}`;
 }
 
 function formatQuestionContext(result: QuestionResult, questionIndex: number): string {
 	const lines: string[] = [`Question ${questionIndex + 1} (${result.id})`, `Prompt: ${result.question}`];
+	if (result.showIf) {
+		lines.push(`Shown if: ${formatQuestionCondition(result.showIf)}`);
+	}
 
 	if (result.description) {
 		lines.push("Context:");
@@ -138,15 +405,85 @@ function formatQuestionContext(result: QuestionResult, questionIndex: number): s
 		}
 	}
 
-	lines.push("Options:");
-	lines.push(...result.options.map((option, optionIndex) => `  ${optionIndex + 1}. ${option}`));
+	if (result.type === "text") {
+		lines.push("Type: free text");
+	} else if (result.type === "number") {
+		lines.push(`Type: number${result.numberConstraints ? ` (${result.numberConstraints})` : ""}`);
+		if (result.options.length > 0) {
+			lines.push(`Presets: ${result.options.join(", ")}`);
+		}
+	} else {
+		lines.push("Options:");
+		lines.push(...result.options.map((option, optionIndex) => `  ${optionIndex + 1}. ${option}`));
+		if (result.allowOther === false) {
+			lines.push("Other: not offered (closed choice)");
+		}
+		const selectionLimitsText = formatSelectionLimits(result);
+		if (selectionLimitsText) {
+			lines.push(`Selection limits: ${selectionLimitsText} (enforced in the UI)`);
+		}
+	}
 	lines.push("Response:");
+	if (result.status === "not_applicable") {
+		lines.push("  Selected: (not applicable; condition not met)");
+		return lines.join("\n");
+	}
+	if (result.autoResolved === "preset") {
+		lines.push("  Auto-resolved: preset (answered from the project presets file; the user was not asked)");
+	} else if (result.autoResolved) {
+		lines.push(`  Auto-resolved: ${result.autoResolved} (no interactive UI; not answered by a human)`);
+	}
+	if (result.reusedPrevious) {
+		lines.push("  Reused: answer given earlier in this session; the user was not asked again");
+	}
 
 	const hasSelectedOptions = result.selectedOptions.length > 0;
 	const hasCustomInput = Boolean(result.customInput);
 
-	if (!hasSelectedOptions && !hasCustomInput) {
-		lines.push("  Selected: (cancelled)");
+	if (result.timedOut) {
+		lines.push(
+			hasSelectedOptions || hasCustomInput
+				? "  Timed out: user did not respond in time; the recommended option was auto-selected"
+				: "  Timed out: user did not respond in time; no answer was recorded",
+		);
+	}
+
+	if (result.defaultsAccepted != null) {
+		lines.push(
+			result.defaultsAccepted
+				? "  Defaults: accepted unchanged (the user submitted the pre-selected answer without edits)"
+				: "  Defaults: changed by the user",
+		);
+	}
+
+	if (result.status === "skipped") {
+		lines.push(
+			result.type === "text"
+				? "  Skipped: user submitted an empty answer"
+				: "  Skipped: user chose not to answer this optional question",
+		);
+		return lines.join("\n");
+	}
+	if (result.status !== "answered") {
+		lines.push(`  Selected: ${result.status === "timed_out" ? "(timed out)" : "(cancelled)"}`);
+		return lines.join("\n");
+	}
+
+	if (result.type === "rank") {
+		lines.push(`  Ranking: ${formatRanking(result.selectedOptions)}`);
+		return lines.join("\n");
+	}
+
+	if (result.numberValue != null) {
+		lines.push(`  Number: ${result.selectedOptions[0] ?? result.numberValue}`);
+		return lines.join("\n");
+	}
+
+	if (result.type === "text") {
+		lines.push("  Text:");
+		for (const answerLine of (result.customInput ?? "").split("\n")) {
+			lines.push(`    ${answerLine}`);
+		}
 		return lines.join("\n");
 	}
 
@@ -155,23 +492,255 @@ function formatQuestionContext(result: QuestionResult, questionIndex: number): s
 			? `[${result.selectedOptions.join(", ")}]`
 			: result.selectedOptions[0];
 		lines.push(`  Selected: ${selectedText}`);
+		const selectedOptionRecords = result.selectedOptionRecords ?? [];
+		if (selectedOptionRecords.some((record) => record.value !== record.label)) {
+			lines.push(`  Values: ${selectedOptionRecords.map((record) => record.value).join(", ")}`);
+		}
+		for (const record of selectedOptionRecords) {
+			if (!record.note?.includes("\n")) continue;
+			lines.push(`  Note on ${record.label}:`);
+			for (const noteLine of record.note.split("\n")) {
+				lines.push(`    ${noteLine}`);
+			}
+		}
 	}
 
 	if (hasCustomInput) {
 		if (!hasSelectedOptions) {
-			lines.push(`  Selected: ${OTHER_OPTION}`);
+			lines.push(`  Selected: ${result.otherLabel ?? OTHER_OPTION}`);
+		}
+		const customInput = result.customInput ?? "";
+		if (customInput.includes("\n")) {
+			lines.push("  Custom input:");
+			for (const customInputLine of customInput.split("\n")) {
+				lines.push(`    ${customInputLine}`);
+			}
+		} else {
+			lines.push(`  Custom input: ${customInput}`);
 		}
-		lines.push(`  Custom input: ${result.customInput}`);
 	}
 
 	return lines.join("\n");
 }
 
-function buildAskSessionContent(results: QuestionResult[]): string {
+function toJsonAnswer(result: QuestionResult) {
+	return {
+		id: result.id,
+		status: result.status,
+		selected: (result.selectedOptionRecords ?? []).map(({ value, label, note }) => ({
+			value,
+			label,
+			...(note ? { note } : {}),
+		})),
+		...(result.customInput ? { customInput: result.customInput } : {}),
+		...(result.numberValue != null ? { numberValue: result.numberValue } : {}),
+		...(result.autoResolved ? { autoResolved: result.autoResolved } : {}),
+		...(result.timedOut ? { timedOut: true } : {}),
+		...(result.defaultsAccepted != null ? { defaultsAccepted: result.defaultsAccepted } : {}),
+		...(result.reusedPrevious ? { reusedPrevious: true } : {}),
+	};
+}
+
+function formatCancelledAskLine(results: QuestionResult[]): string {
+	const answeredQuestionIds = results.filter((result) => result.status === "answered").map((result) => result.id);
+	return answeredQuestionIds.length > 0
+		? `User cancelled after answering: ${answeredQuestionIds.join(", ")}`
+		: "User cancelled before answering any question";
+}
+
+function buildAskSessionContent(
+	results: QuestionResult[],
+	format: AskResponseFormat = "text",
+	cancelled = false,
+): string {
 	const safeResults = results.map(toSessionSafeQuestionResult);
+	if (format === "json") {
+		return JSON.stringify({ ...(cancelled ? { cancelled: true } : {}), answers: safeResults.map(toJsonAnswer) });
+	}
+
+	const cancelledLine = cancelled ? `${formatCancelledAskLine(safeResults)}\n` : "";
 	const summaryLines = safeResults.map(formatQuestionResult).join("\n");
+	if (format === "compact") {
+		return `${cancelledLine}User answers:\n${summaryLines}`;
+	}
+
 	const contextBlocks = safeResults.map((result, index) => formatQuestionContext(result, index)).join("\n\n");
-	return `User answers:\n${summaryLines}\n\nAnswer context:\n${contextBlocks}`;
+	return `${cancelledLine}User answers:\n${summaryLines}\n\nAnswer context:\n${contextBlocks}`;
+}
+
+function getQuestionResultStatus(selection: AskSelection): AskAnswerStatus {
+	if (selection.notApplicable) return "not_applicable";
+	if (selection.selectedOptions.length > 0 || selection.customInput) return "answered";
+	if (selection.timedOut) return "timed_out";
+	return selection.skipped ? "skipped" : "cancelled";
+}
+
+function toQuestionResult(
+	question: AskQuestion,
+	selection: AskSelection,
+	autoResolved?: AutoResolution,
+): QuestionResult {
+	return {
+		id: question.id,
+		question: question.question,
+		...(question.description && question.description.trim().length > 0
+			? { description: question.description }
+			: {}),
+		...(question.type && question.type !== "choice" ? { type: question.type } : {}),
+		options: question.options.map((option) => option.label),
+		...((question.type ?? "choice") === "choice" && !allowsOtherOption(question) ? { allowOther: false } : {}),
+		...(allowsOtherOption(question) && question.otherLabel?.trim() ? { otherLabel: question.otherLabel.trim() } : {}),
+		multi: (question.type ?? "choice") === "choice" && question.multi === true,
+		status: getQuestionResultStatus(selection),
+		selectedOptions: selection.selectedOptions,
+		...(selection.selectedOptionRecords ? { selectedOptionRecords: selection.selectedOptionRecords } : {}),
+		customInput: selection.customInput,
+		...(selection.numberValue != null ? { numberValue: selection.numberValue } : {}),
+		...(isNumberQuestion(question) && formatNumberConstraints(question)
+			? { numberConstraints: formatNumberConstraints(question) }
+			: {}),
+		...(isNumberQuestion(question) && question.presets?.length ? { presets: question.presets } : {}),
+		...(isNumberQuestion(question) && question.unit?.trim() ? { unit: question.unit.trim() } : {}),
+		...(isNumberQuestion(question) && question.min != null ? { min: question.min } : {}),
+		...(isNumberQuestion(question) && question.max != null ? { max: question.max } : {}),
+		...(isNumberQuestion(question) && question.step != null ? { step: question.step } : {}),
+		...(question.multi && question.minSelect != null ? { minSelect: question.minSelect } : {}),
+		...(question.multi && question.maxSelect != null ? { maxSelect: question.maxSelect } : {}),
+		...(question.required === false ? { required: false } : {}),
+		...(selection.skipped ? { skipped: true } : {}),
+		...(selection.defaultsAccepted != null ? { defaultsAccepted: selection.defaultsAccepted } : {}),
+		...(selection.reusedPrevious ? { reusedPrevious: true } : {}),
+		...(autoResolved ? { autoResolved } : {}),
+		...(selection.timedOut ? { timedOut: true } : {}),
+		...(question.showIf ? { showIf: question.showIf } : {}),
+		...(selection.notApplicable ? { notApplicable: true } : {}),
+	};
+}
+
+function findChoiceQuestionWithoutOptions(questions: AskQuestion[]): AskQuestion | undefined {
+	return questions.find(
+		(question) => !isTextQuestion(question) && !isNumberQuestion(question) && question.options.length === 0,
+	);
+}
+
+function findQuestionWithInvalidSelectionLimits(questions: AskQuestion[]): AskQuestion | undefined {
+	return questions.find(
+		(question) =>
+			question.minSelect != null && question.maxSelect != null && question.minSelect > question.maxSelect,
+	);
+}
+
+function findQuestionWithUnreachableMinSelect(questions: AskQuestion[]): AskQuestion | undefined {
+	return questions.find(
+		(question) =>
+			(question.type ?? "choice") === "choice" &&
+			question.multi === true &&
+			question.minSelect != null &&
+			question.minSelect > question.options.length + (allowsOtherOption(question) ? 1 : 0),
+	);
+}
+
+function findQuestionWithInvalidCondition(questions: AskQuestion[]): AskQuestion | undefined {
+	const earlierQuestionIds = new Set<string>();
+	for (const question of questions) {
+		if (question.showIf && !earlierQuestionIds.has(question.showIf.id)) {
+			return question;
+		}
+		earlierQuestionIds.add(question.id);
+	}
+	return undefined;
+}
+
+interface ResolvedQuestionSelection {
+	selection: AskSelection;
+	resolvedBy?: AutoResolution;
+}
+
+interface PreResolvedQuestions {
+	results: (QuestionResult | undefined)[];
+	questionsToAsk: AskQuestion[];
+}
+
+function resolveWithoutAsking(question: AskQuestion, autoPresetIds: Set<string>): ResolvedQuestionSelection | undefined {
+	const previousAnswer = question.previousAnswer;
+	if (question.reusePrevious && previousAnswer && resolvePrefilledAnswerState(question)?.source === "previous") {
+		return { selection: { ...previousAnswer, reusedPrevious: true } };
+	}
+	if (autoPresetIds.has(question.id) && question.presetAnswer) {
+		return { selection: question.presetAnswer, resolvedBy: "preset" };
+	}
+	return undefined;
+}
+
+function preResolveQuestions(questions: AskQuestion[], autoPresetIds: Set<string>): PreResolvedQuestions {
+	const selectedOptionsById = new Map<string, string[]>();
+	const askedQuestionIds = new Set<string>();
+	const results: (QuestionResult | undefined)[] = [];
+	const questionsToAsk: AskQuestion[] = [];
+	for (const question of questions) {
+		const showIf = question.showIf;
+		if (showIf && askedQuestionIds.has(showIf.id)) {
+			askedQuestionIds.add(question.id);
+			questionsToAsk.push(question);
+			results.push(undefined);
+			continue;
+		}
+		if (!isQuestionConditionMet(showIf, showIf ? selectedOptionsById.get(showIf.id) : undefined)) {
+			results.push(toQuestionResult(question, { selectedOptions: [], notApplicable: true }));
+			continue;
+		}
+
+		const resolved = resolveWithoutAsking(question, autoPresetIds);
+		if (!resolved) {
+			const { showIf: _metCondition, ...unconditionalQuestion } = question;
+			askedQuestionIds.add(question.id);
+			questionsToAsk.push(unconditionalQuestion);
+			results.push(undefined);
+			continue;
+		}
+		const { selection, resolvedBy } = resolved;
+		selectedOptionsById.set(
+			question.id,
+			selection.selectedOptionRecords?.map((record) => record.label) ?? selection.selectedOptions,
+		);
+		results.push(toQuestionResult(question, selection, resolvedBy));
+	}
+	return { results, questionsToAsk };
+}
+
+function completeQuestionResults(
+	questions: AskQuestion[],
+	preResolvedResults: (QuestionResult | undefined)[],
+	askedSelections: ResolvedQuestionSelection[],
+): QuestionResult[] {
+	let askedIndex = 0;
+	return preResolvedResults.map((result, questionIndex) => {
+		if (result) return result;
+		const { selection, resolvedBy } = askedSelections[askedIndex++] ?? { selection: { selectedOptions: [] } };
+		return toQuestionResult(questions[questionIndex], selection, resolvedBy);
+	});
+}
+
+function buildAskToolResponse(results: QuestionResult[], format?: AskResponseFormat, cancelled = false) {
+	const content = [{ type: "text" as const, text: buildAskSessionContent(results, format, cancelled) }];
+	const cancelledDetails = cancelled ? { cancelled: true } : {};
+	if (results.length !== 1) {
+		return { content, details: { ...cancelledDetails, results } satisfies AskToolDetails };
+	}
+
+	const [result] = results;
+	const details: AskToolDetails = { ...result, ...cancelledDetails, results: [result] };
+	return { content, details };
+}
+
+function buildAbortedAskToolResponse(questions: AskQuestion[]) {
+	const questionIds = questions.map((question) => sanitizeForSessionText(question.id) || "(unknown)").join(", ");
+	return {
+		content: [
+			{ type: "text" as const, text: `Ask aborted: the request was aborted before the user answered (${questionIds}).` },
+		],
+		details: { aborted: true } satisfies AskToolDetails,
+	};
 }
 
 const ASK_TOOL_DESCRIPTION = `
@@ -179,11 +748,24 @@ Ask the user for clarification when a choice materially affects the outcome.
 
 - Use when multiple valid approaches have different trade-offs.
 - Prefer 2-5 concise options.
-- Use multi=true when multiple answers are valid.
-- Use recommended=<index> (0-indexed) to mark the default option.
+- Use multi=true when multiple answers are valid; add minSelect/maxSelect to bound how many may be picked.
+- Use recommended=<index> (0-indexed) to mark the default option; multi-select questions accept an index array.
+- Use defaults=[{ index, note? }] on multi-select questions to pre-check options; results report defaultsAccepted.
 - Use description to provide Markdown/plain context (supports long explanations and structure diagrams).
+- Use options[].description for per-option trade-offs instead of packing them into labels.
+- Use options[].value for a stable machine value; results carry selectedOptionRecords ({ value, label, index, note }).
+- Use timeoutSeconds (per question or call-level) when the session must not stall; the recommended option is auto-selected on timeout.
 - You can ask multiple related questions in one call using questions[].
-- Do NOT include an 'Other' option; UI adds it automatically.
+- Re-asking an id answered earlier in the session pre-fills the previous answer; set reusePrevious=true to return it without asking again.
+- Project presets (.pi/ask-presets.json) may pre-fill or auto-answer questions by id; auto-answered results carry autoResolved="preset".
+- Use format="compact" (one line per question) or format="json" (strict JSON: id, status, selected values and notes, customInput) to keep large questionnaires light.
+- Use type="text" (with optional placeholder, minLength, maxLength) for open-ended answers instead of options.
+- Set required=false on questions the user may skip; results carry status "skipped" (chose not to answer), distinct from "cancelled" (aborted) and "timed_out".
+- If the user cancels midway, answered questions are still returned with cancelled=true in details and the content starts with "User cancelled after answering: ..."; use those answers and re-ask only the rest if needed.
+- Use type="rank" to have the user order all options (e.g. prioritizing work items); the result lists them best-first.
+- Use type="number" (with min, max, step, unit and optional presets) for numeric answers such as retry counts, ports or timeouts; the result carries numberValue.
+- Use showIf={ id, selected } to ask a follow-up only when an earlier question got a specific answer.
+- Do NOT include an 'Other' option; UI adds it automatically. Set allowOther=false for closed choices (approve/reject), or otherLabel/otherPlaceholder to reword it.
 `.trim();
 
 export default function askExtension(pi: ExtensionAPI) {
@@ -193,75 +775,196 @@ export default function askExtension(pi: ExtensionAPI) {
 		description: ASK_TOOL_DESCRIPTION,
 		parameters: AskParamsSchema,
 
-		async execute(_toolCallId, params: AskParams, _signal, _onUpdate, ctx) {
-			if (!ctx.hasUI) {
+		async execute(_toolCallId, params: AskParams, signal, _onUpdate, ctx) {
+			if (params.questions.length === 0) {
 				return {
-					content: [{ type: "text", text: "Error: ask tool requires interactive mode" }],
+					content: [{ type: "text", text: "Error: questions must not be empty" }],
 					details: {},
 				};
 			}
 
-			if (params.questions.length === 0) {
+			const previousAnswerById = ctx.sessionManager
+				? collectPreviousAnswers(ctx.sessionManager.getBranch())
+				: new Map<string, AskPrefilledAnswer>();
+			const questions = params.questions.map((question) => ({
+				...question,
+				...(previousAnswerById.has(question.id) ? { previousAnswer: previousAnswerById.get(question.id) } : {}),
+				options: isTextQuestion(question)
+					? []
+					: isNumberQuestion(question)
+						? (question.presets ?? []).map((preset) => ({ label: formatNumberWithUnit(preset, question.unit) }))
+						: (question.options ?? []),
+				...(question.timeoutSeconds == null && params.timeoutSeconds != null
+					? { timeoutSeconds: params.timeoutSeconds }
+					: {}),
+			})) as AskQuestion[];
+
+			const questionWithoutOptions = findChoiceQuestionWithoutOptions(questions);
+			if (questionWithoutOptions) {
 				return {
-					content: [{ type: "text", text: "Error: questions must not be empty" }],
+					content: [
+						{ type: "text", text: `Error: question "${questionWithoutOptions.id}" requires at least one option` },
+					],
 					details: {},
 				};
 			}
 
-			if (params.questions.length === 1) {
-				const [q] = params.questions;
-				const selection = q.multi
-					? (await askQuestionsWithTabs(ctx.ui, [q as AskQuestion])).selections[0] ?? { selectedOptions: [] }
-					: await askSingleQuestionWithInlineNote(ctx.ui, q as AskQuestion);
-				const optionLabels = q.options.map((option) => option.label);
-
-				const result: QuestionResult = {
-					id: q.id,
-					question: q.question,
-					...(q.description && q.description.trim().length > 0 ? { description: q.description } : {}),
-					options: optionLabels,
-					multi: q.multi ?? false,
-					selectedOptions: selection.selectedOptions,
-					customInput: selection.customInput,
+			const questionWithInvalidSelectionLimits = findQuestionWithInvalidSelectionLimits(questions);
+			if (questionWithInvalidSelectionLimits) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Error: question "${questionWithInvalidSelectionLimits.id}" minSelect must not exceed maxSelect`,
+						},
+					],
+					details: {},
 				};
+			}
 
-				const details: AskToolDetails = {
-					id: q.id,
-					question: q.question,
-					...(q.description && q.description.trim().length > 0 ? { description: q.description } : {}),
-					options: optionLabels,
-					multi: q.multi ?? false,
-					selectedOptions: selection.selectedOptions,
-					customInput: selection.customInput,
-					results: [result],
+			const questionWithUnreachableMinSelect = findQuestionWithUnreachableMinSelect(questions);
+			if (questionWithUnreachableMinSelect) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Error: question "${questionWithUnreachableMinSelect.id}" minSelect must not exceed the number of selectable options`,
+						},
+					],
+					details: {},
 				};
+			}
 
+			const questionWithInvalidCondition = findQuestionWithInvalidCondition(questions);
+			if (questionWithInvalidCondition) {
 				return {
-					content: [{ type: "text", text: buildAskSessionContent([result]) }],
-					details,
+					content: [
+						{
+							type: "text",
+							text: `Error: question "${questionWithInvalidCondition.id}" showIf must reference an earlier question id`,
+						},
+					],
+					details: {},
 				};
 			}
 
-			const results: QuestionResult[] = [];
-			const tabResult = await askQuestionsWithTabs(ctx.ui, params.questions as AskQuestion[]);
-			for (let i = 0; i < params.questions.length; i++) {
-				const q = params.questions[i];
-				const selection = tabResult.selections[i] ?? { selectedOptions: [] };
-				results.push({
-					id: q.id,
-					question: q.question,
-					...(q.description && q.description.trim().length > 0 ? { description: q.description } : {}),
-					options: q.options.map((option) => option.label),
-					multi: q.multi ?? false,
-					selectedOptions: selection.selectedOptions,
-					customInput: selection.customInput,
+			let presets: AskPreset[] = [];
+			if (ctx.cwd) {
+				const presetsFilePath = resolve(ctx.cwd, process.env[ASK_PRESETS_FILE_ENV] || DEFAULT_ASK_PRESETS_FILE);
+				try {
+					presets = loadAskPresets(presetsFilePath);
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error);
+					return {
+						content: [{ type: "text", text: `Error: could not read ask presets file ${presetsFilePath}: ${message}` }],
+						details: {},
+					};
+				}
+			}
+			const autoPresetIds = new Set<string>();
+			for (const question of questions) {
+				const presetMatch = resolveAskPreset(presets, question);
+				if (!presetMatch) continue;
+				question.presetAnswer = presetMatch.selection;
+				if (presetMatch.mode === "auto") autoPresetIds.add(question.id);
+			}
+
+			const { results: preResolvedResults, questionsToAsk } = preResolveQuestions(questions, autoPresetIds);
+			if (questionsToAsk.length === 0) {
+				return buildAskToolResponse(preResolvedResults as QuestionResult[], params.format);
+			}
+
+			if (!ctx.hasUI) {
+				const policy = parseHeadlessPolicy(process.env[HEADLESS_POLICY_ENV]);
+				if (policy === "fail") {
+					return {
+						content: [{ type: "text", text: "Error: ask tool requires interactive mode" }],
+						details: {},
+					};
+				}
+
+				let answers: HeadlessAnswers | undefined;
+				if (policy === "answers") {
+					const answersFilePath = resolve(
+						ctx.cwd,
+						process.env[HEADLESS_ANSWERS_FILE_ENV] || DEFAULT_HEADLESS_ANSWERS_FILE,
+					);
+					try {
+						answers = loadHeadlessAnswers(answersFilePath);
+					} catch (error) {
+						const message = error instanceof Error ? error.message : String(error);
+						return {
+							content: [
+								{ type: "text", text: `Error: could not read ask answers file ${answersFilePath}: ${message}` },
+							],
+							details: {},
+						};
+					}
+				}
+
+				const selectedOptionsById = new Map<string, string[]>();
+				const headlessSelections = questionsToAsk.map((question): ResolvedQuestionSelection => {
+					const showIf = question.showIf;
+					if (!isQuestionConditionMet(showIf, showIf ? selectedOptionsById.get(showIf.id) : undefined)) {
+						return { selection: { selectedOptions: [], notApplicable: true } };
+					}
+					const headlessSelection = resolveHeadlessSelection(question, policy, answers);
+					selectedOptionsById.set(question.id, headlessSelection.selection.selectedOptions);
+					return headlessSelection;
 				});
+				return buildAskToolResponse(
+					completeQuestionResults(questions, preResolvedResults, headlessSelections),
+					params.format,
+				);
+			}
+
+			if (signal?.aborted) {
+				return buildAbortedAskToolResponse(questions);
 			}
 
-			return {
-				content: [{ type: "text", text: buildAskSessionContent(results) }],
-				details: { results } satisfies AskToolDetails,
-			};
+			const keybindings = loadAskKeybindingsConfigOrDefault(
+				resolveAskKeybindingsFilePath(getAgentDir()),
+				(warning) => ctx.ui.notify(warning, "warning"),
+			);
+			const uiOptions = { signal, keybindings, locale: keybindings.locale };
+
+			if (questionsToAsk.length === 1) {
+				const [q] = questionsToAsk;
+				const usesTabFlow =
+					!isTextQuestion(q) && (q.multi || q.required === false || isRankQuestion(q) || isNumberQuestion(q));
+				const singleTabResult = usesTabFlow ? await askQuestionsWithTabs(ctx.ui, [q], uiOptions) : undefined;
+				const selection = singleTabResult
+					? (singleTabResult.selections[0] ?? { selectedOptions: [] })
+					: isTextQuestion(q)
+						? await askSingleTextQuestion(ctx.ui, q, uiOptions)
+						: await askSingleQuestionWithInlineNote(ctx.ui, q, uiOptions);
+				if (signal?.aborted) {
+					return buildAbortedAskToolResponse(questions);
+				}
+				return buildAskToolResponse(
+					completeQuestionResults(questions, preResolvedResults, [{ selection }]),
+					params.format,
+					singleTabResult?.cancelled,
+				);
+			}
+
+			const tabResult = await askQuestionsWithTabs(ctx.ui, questionsToAsk, uiOptions);
+			if (signal?.aborted) {
+				return buildAbortedAskToolResponse(questions);
+			}
+			const askedSelections = questionsToAsk.map((_question, askedIndex) => ({
+				selection: tabResult.selections[askedIndex] ?? { selectedOptions: [] },
+			}));
+			return buildAskToolResponse(
+				completeQuestionResults(questions, preResolvedResults, askedSelections),
+				params.format,
+				tabResult.cancelled,
+			);
 		},
 	});
+
+	pi.registerCommand(ASK_HISTORY_COMMAND, {
+		description: "Browse earlier ask answers on this branch and revise one",
+		handler: async (_args, ctx) => runAskHistoryCommand(pi, ctx),
+	});
 }
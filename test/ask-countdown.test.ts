@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { createCountdown, formatCountdown } from "../src/ask-countdown";
+
+describe("createCountdown", () => {
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("ticks every second and expires once", () => {
+		let ticks = 0;
+		let expirations = 0;
+		const countdown = createCountdown(
+			() => ticks++,
+			() => expirations++,
+		);
+
+		countdown.reset(3);
+		expect(countdown.getRemainingSeconds()).toBe(3);
+		jest.advanceTimersByTime(2000);
+		expect(ticks).toBe(2);
+		expect(countdown.getRemainingSeconds()).toBe(1);
+		jest.advanceTimersByTime(5000);
+		expect(expirations).toBe(1);
+		expect(countdown.getRemainingSeconds()).toBeUndefined();
+	});
+
+	it("restarts on reset and stays idle without a valid duration", () => {
+		let expirations = 0;
+		const countdown = createCountdown(
+			() => {},
+			() => expirations++,
+		);
+
+		countdown.reset(2);
+		jest.advanceTimersByTime(1000);
+		countdown.reset(2);
+		jest.advanceTimersByTime(1000);
+		expect(expirations).toBe(0);
+
+		countdown.reset(undefined);
+		countdown.reset(0);
+		countdown.reset(Number.NaN);
+		jest.advanceTimersByTime(10_000);
+		expect(expirations).toBe(0);
+		expect(countdown.getRemainingSeconds()).toBeUndefined();
+	});
+});
+
+describe("formatCountdown", () => {
+	it("formats seconds and minutes", () => {
+		expect(formatCountdown(42)).toBe("42s");
+		expect(formatCountdown(0.2)).toBe("1s");
+		expect(formatCountdown(-3)).toBe("0s");
+		expect(formatCountdown(125)).toBe("2m 05s");
+	});
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { chmodSync, existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, dirname, join } from "node:path";
+import { editTextInExternalEditor, resolveExternalEditorCommand } from "../src/ask-external-editor";
+
+const originalVisual = process.env.VISUAL;
+const originalEditor = process.env.EDITOR;
+
+function restoreEnv(name: "VISUAL" | "EDITOR", value: string | undefined) {
+	if (value == null) delete process.env[name];
+	else process.env[name] = value;
+}
+
+function writeStubEditor(script: string): string {
+	const editorPath = join(mkdtempSync(join(tmpdir(), "ask-editor-")), "editor.sh");
+	writeFileSync(editorPath, `#!/bin/sh\n${script}\n`);
+	chmodSync(editorPath, 0o755);
+	return editorPath;
+}
+
+function createTuiSpy() {
+	const calls: string[] = [];
+	return {
+		calls,
+		tui: {
+			stop: () => calls.push("stop"),
+			start: () => calls.push("start"),
+			requestRender: (force?: boolean) => calls.push(`render:${force === true}`),
+		},
+	};
+}
+
+describe("resolveExternalEditorCommand", () => {
+	it("prefers $VISUAL over $EDITOR and ignores blank values", () => {
+		expect(resolveExternalEditorCommand({ VISUAL: "code --wait", EDITOR: "vi" })).toBe("code --wait");
+		expect(resolveExternalEditorCommand({ VISUAL: "  ", EDITOR: "vi" })).toBe("vi");
+		expect(resolveExternalEditorCommand({})).toBeUndefined();
+	});
+});
+
+describe("editTextInExternalEditor", () => {
+	afterEach(() => {
+		restoreEnv("VISUAL", originalVisual);
+		restoreEnv("EDITOR", originalEditor);
+	});
+
+	it("suspends the TUI, passes the current text and reads the edited file back", () => {
+		delete process.env.VISUAL;
+		process.env.EDITOR = writeStubEditor('sed -i "s/draft/final/" "$1"; printf "second line\\n" >> "$1"');
+		const { calls, tui } = createTuiSpy();
+
+		expect(editTextInExternalEditor(tui, "draft\n")).toEqual({ ok: true, text: "final\nsecond line" });
+		expect(calls).toEqual(["stop", "start", "render:true"]);
+	});
+
+	it("edits the note in a private temp directory and removes it afterwards", () => {
+		const recordPath = join(mkdtempSync(join(tmpdir(), "ask-editor-record-")), "path.txt");
+		delete process.env.VISUAL;
+		process.env.EDITOR = writeStubEditor(`printf "%s" "$1" > "${recordPath}"`);
+		const { tui } = createTuiSpy();
+
+		expect(editTextInExternalEditor(tui, "draft")).toEqual({ ok: true, text: "draft" });
+		const notePath = readFileSync(recordPath, "utf8");
+		expect(dirname(dirname(notePath))).toBe(tmpdir());
+		expect(basename(dirname(notePath))).toStartWith("pi-ask-");
+		expect(existsSync(dirname(notePath))).toBe(false);
+	});
+
+	it("keeps the note unchanged when the editor exits with an error", () => {
+		process.env.VISUAL = writeStubEditor('printf "discarded" > "$1"; exit 3');
+		const { calls, tui } = createTuiSpy();
+
+		expect(editTextInExternalEditor(tui, "draft")).toEqual({
+			ok: false,
+			error: "Editor exited with code 3; note unchanged",
+		});
+		expect(calls).toEqual(["stop", "start", "render:true"]);
+	});
+
+	it("runs the editor command through the shell so quoted paths and arguments work", () => {
+		const editorDirectory = join(mkdtempSync(join(tmpdir(), "ask-editor-")), "Sublime Text.app");
+		mkdirSync(editorDirectory);
+		const editorPath = join(editorDirectory, "subl");
+		writeFileSync(editorPath, '#!/bin/sh\nprintf "%s" "$1" > "$2"\n');
+		chmodSync(editorPath, 0o755);
+		process.env.VISUAL = `"${editorPath}" "--wait here"`;
+		const { tui } = createTuiSpy();
+
+		expect(editTextInExternalEditor(tui, "draft")).toEqual({ ok: true, text: "--wait here" });
+	});
+
+	it("reports editors that cannot be found", () => {
+		process.env.VISUAL = "/nonexistent/ask-editor --wait";
+		const { tui } = createTuiSpy();
+
+		expect(editTextInExternalEditor(tui, "draft")).toEqual({
+			ok: false,
+			error: "Editor exited with code 127; note unchanged",
+		});
+	});
+
+	it("does not suspend the TUI when no editor is configured", () => {
+		delete process.env.VISUAL;
+		delete process.env.EDITOR;
+		const { calls, tui } = createTuiSpy();
+
+		expect(editTextInExternalEditor(tui, "draft")).toEqual({
+			ok: false,
+			error: "Set $VISUAL or $EDITOR to edit notes in an external editor",
+		});
+		expect(calls).toEqual([]);
+	});
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	loadHeadlessAnswers,
+	parseHeadlessAnswers,
+	parseHeadlessPolicy,
+	resolveHeadlessSelection,
+} from "../src/ask-headless";
+
+describe("parseHeadlessPolicy", () => {
+	it("defaults to fail for missing or unknown values", () => {
+		expect(parseHeadlessPolicy(undefined)).toBe("fail");
+		expect(parseHeadlessPolicy("  ")).toBe("fail");
+		expect(parseHeadlessPolicy("guess")).toBe("fail");
+	});
+
+	it("accepts known policies case-insensitively", () => {
+		expect(parseHeadlessPolicy("Recommended")).toBe("recommended");
+		expect(parseHeadlessPolicy(" first ")).toBe("first");
+		expect(parseHeadlessPolicy("ANSWERS")).toBe("answers");
+	});
+});
+
+describe("parseHeadlessAnswers", () => {
+	it("accepts string and string-array answers keyed by id", () => {
+		expect(parseHeadlessAnswers('{"auth":"JWT","features":["Logging","Metrics"]}')).toEqual({
+			auth: "JWT",
+			features: ["Logging", "Metrics"],
+		});
+	});
+
+	it("rejects non-object documents and invalid answer values", () => {
+		expect(() => parseHeadlessAnswers("[]")).toThrow("JSON object keyed by question id");
+		expect(() => parseHeadlessAnswers('{"auth":1}')).toThrow('answer for "auth"');
+		expect(() => parseHeadlessAnswers('{"auth":["JWT",2]}')).toThrow('answer for "auth"');
+	});
+
+	it("loads answers from disk", () => {
+		const directory = mkdtempSync(join(tmpdir(), "pi-ask-headless-"));
+		const filePath = join(directory, "answers.json");
+		writeFileSync(filePath, '{"cache":"Redis"}');
+		expect(loadHeadlessAnswers(filePath)).toEqual({ cache: "Redis" });
+	});
+});
+
+describe("resolveHeadlessSelection", () => {
+	const question = {
+		id: "auth",
+		question: "Which auth?",
+		options: [{ label: "JWT" }, { label: "Session" }],
+		recommended: 1,
+	};
+
+	it("uses the recommended option and falls back to the first option", () => {
+		expect(resolveHeadlessSelection(question, "recommended")).toEqual({
+			selection: { selectedOptions: ["Session"], selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }] },
+			resolvedBy: "recommended",
+		});
+		expect(resolveHeadlessSelection({ ...question, recommended: 7 }, "recommended")).toEqual({
+			selection: { selectedOptions: ["JWT"], selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }] },
+			resolvedBy: "first",
+		});
+		expect(resolveHeadlessSelection(question, "first")).toEqual({
+			selection: { selectedOptions: ["JWT"], selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }] },
+			resolvedBy: "first",
+		});
+	});
+
+	it("picks every recommended option for multi-select questions", () => {
+		expect(resolveHeadlessSelection({ ...question, multi: true, recommended: [1, 0] }, "recommended")).toEqual({
+			selection: {
+				selectedOptions: ["Session", "JWT"],
+				selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }, { value: "JWT", label: "JWT", index: 0 }],
+			},
+			resolvedBy: "recommended",
+		});
+		expect(resolveHeadlessSelection({ ...question, recommended: [1, 0] }, "recommended")).toEqual({
+			selection: { selectedOptions: ["Session"], selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }] },
+			resolvedBy: "recommended",
+		});
+	});
+
+	it("leaves a question unanswered when it has no options", () => {
+		expect(resolveHeadlessSelection({ ...question, options: [] }, "first")).toEqual({
+			selection: { selectedOptions: [] },
+		});
+	});
+
+	it("maps answers-file entries to options or custom input", () => {
+		expect(resolveHeadlessSelection(question, "answers", { auth: "Session" })).toEqual({
+			selection: { selectedOptions: ["Session"], selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }] },
+			resolvedBy: "answers-file",
+		});
+		expect(resolveHeadlessSelection(question, "answers", { auth: ["Passkeys", "JWT"] })).toEqual({
+			selection: { selectedOptions: [], customInput: "Passkeys" },
+			resolvedBy: "answers-file",
+		});
+		expect(
+			resolveHeadlessSelection({ ...question, multi: true }, "answers", { auth: ["JWT", "Passkeys", " "] }),
+		).toEqual({
+			selection: { selectedOptions: ["JWT"], selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }], customInput: "Passkeys" },
+			resolvedBy: "answers-file",
+		});
+		expect(
+			resolveHeadlessSelection({ ...question, multi: true, maxSelect: 1 }, "answers", { auth: ["Session", "JWT"] }),
+		).toEqual({
+			selection: { selectedOptions: ["Session"], selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }] },
+			resolvedBy: "answers-file",
+		});
+	});
+
+	it("drops custom answers-file entries when the question does not allow Other", () => {
+		const closedQuestion = { ...question, multi: true, allowOther: false };
+
+		expect(resolveHeadlessSelection(closedQuestion, "answers", { auth: ["JWT", "Passkeys"] })).toEqual({
+			selection: { selectedOptions: ["JWT"], selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }] },
+			resolvedBy: "answers-file",
+		});
+		expect(resolveHeadlessSelection({ ...question, allowOther: false }, "answers", { auth: "Passkeys" })).toEqual({
+			selection: { selectedOptions: [] },
+		});
+	});
+
+	it("keeps answers-file input for text questions", () => {
+		const textQuestion = { id: "summary", question: "Summarize the change", type: "text" as const, options: [] };
+		expect(resolveHeadlessSelection(textQuestion, "answers", { summary: "Adds retries" })).toEqual({
+			selection: { selectedOptions: [], customInput: "Adds retries" },
+			resolvedBy: "answers-file",
+		});
+	});
+
+	it("matches answers-file entries against option values and reports both value and label", () => {
+		const valuedQuestion = {
+			...question,
+			options: [
+				{ label: "JSON Web Tokens", value: "jwt" },
+				{ label: "Server sessions", value: "session" },
+			],
+		};
+		expect(resolveHeadlessSelection(valuedQuestion, "answers", { auth: "session" })).toEqual({
+			selection: {
+				selectedOptions: ["Server sessions"],
+				selectedOptionRecords: [{ value: "session", label: "Server sessions", index: 1 }],
+			},
+			resolvedBy: "answers-file",
+		});
+		expect(
+			resolveHeadlessSelection({ ...valuedQuestion, multi: true }, "answers", { auth: ["JSON Web Tokens", "jwt"] }),
+		).toEqual({
+			selection: {
+				selectedOptions: ["JSON Web Tokens"],
+				selectedOptionRecords: [{ value: "jwt", label: "JSON Web Tokens", index: 0 }],
+			},
+			resolvedBy: "answers-file",
+		});
+	});
+
+	it("keeps the given order for rank questions unless the answers file ranks them", () => {
+		const rankQuestion = { ...question, type: "rank" as const, options: [{ label: "A" }, { label: "B" }, { label: "C" }] };
+		expect(resolveHeadlessSelection(rankQuestion, "recommended")).toEqual({
+			selection: {
+				selectedOptions: ["A", "B", "C"],
+				selectedOptionRecords: [{ value: "A", label: "A", index: 0 }, { value: "B", label: "B", index: 1 }, { value: "C", label: "C", index: 2 }],
+			},
+			resolvedBy: "first",
+		});
+		expect(resolveHeadlessSelection(rankQuestion, "answers", { auth: ["C", "X", "C", "A"] })).toEqual({
+			selection: {
+				selectedOptions: ["C", "A", "B"],
+				selectedOptionRecords: [{ value: "C", label: "C", index: 2 }, { value: "A", label: "A", index: 0 }, { value: "B", label: "B", index: 1 }],
+			},
+			resolvedBy: "answers-file",
+		});
+		expect(resolveHeadlessSelection(rankQuestion, "answers", { auth: "X" })).toEqual({
+			selection: { selectedOptions: [] },
+		});
+	});
+
+	it("resolves number questions to typed preset or answers-file values", () => {
+		const numberQuestion = {
+			id: "port",
+			question: "Port?",
+			type: "number" as const,
+			options: [{ label: "80" }, { label: "8080" }],
+			presets: [80, 8080],
+			recommended: 1,
+			min: 1,
+			max: 65535,
+		};
+		expect(resolveHeadlessSelection(numberQuestion, "recommended")).toEqual({
+			selection: { selectedOptions: ["8080"], numberValue: 8080 },
+			resolvedBy: "recommended",
+		});
+		expect(resolveHeadlessSelection(numberQuestion, "first")).toEqual({
+			selection: { selectedOptions: ["80"], numberValue: 80 },
+			resolvedBy: "first",
+		});
+		expect(resolveHeadlessSelection(numberQuestion, "answers", { port: ["3000"] })).toEqual({
+			selection: { selectedOptions: ["3000"], numberValue: 3000 },
+			resolvedBy: "answers-file",
+		});
+		expect(resolveHeadlessSelection(numberQuestion, "answers", { port: "70000" })).toEqual({
+			selection: { selectedOptions: [] },
+		});
+		expect(resolveHeadlessSelection({ ...numberQuestion, options: [], presets: undefined }, "first")).toEqual({
+			selection: { selectedOptions: [] },
+		});
+	});
+
+	it("leaves missing or blank answers-file entries unresolved", () => {
+		expect(resolveHeadlessSelection(question, "answers", {})).toEqual({ selection: { selectedOptions: [] } });
+		expect(resolveHeadlessSelection(question, "answers", { auth: "  " })).toEqual({
+			selection: { selectedOptions: [] },
+		});
+		expect(resolveHeadlessSelection(question, "answers")).toEqual({ selection: { selectedOptions: [] } });
+	});
+});
@@ -0,0 +1,267 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExtensionAPI, SessionEntry } from "@mariozechner/pi-coding-agent";
+import {
+	buildAnswerRevisionMessage,
+	collectAskHistory,
+	findAnswerRevisions,
+	formatAskHistoryCall,
+	runAskHistoryCommand,
+} from "../src/ask-history";
+
+function askResultEntry(id: string, timestamp: string, results: unknown[]): SessionEntry {
+	return {
+		type: "message",
+		id,
+		parentId: null,
+		timestamp,
+		message: { role: "toolResult", toolCallId: id, toolName: "ask", content: [], details: { results }, isError: false, timestamp: 0 },
+	} as SessionEntry;
+}
+
+const authResult = {
+	id: "auth",
+	question: "Which auth?",
+	options: ["JWT", "Session"],
+	multi: false,
+	selectedOptions: ["Session - split"],
+	selectedOptionRecords: [{ value: "session", label: "Session", index: 1, note: "split" }],
+};
+
+const branch = [
+	askResultEntry("e1", "2026-01-01T10:00:00.000Z", [
+		authResult,
+		{
+			id: "ttl",
+			question: "Token TTL?",
+			options: ["1h", "1d"],
+			multi: false,
+			selectedOptions: [],
+			showIf: { id: "auth", selected: "JWT" },
+			notApplicable: true,
+		},
+	]),
+	askResultEntry("e2", "2026-01-01T11:30:00.000Z", [
+		{ id: "port", question: "Port?", type: "number", options: ["80"], selectedOptions: ["3000"], numberValue: 3000 },
+		{ id: "notes", type: "text", options: [], selectedOptions: [], customInput: "keep\nit" },
+		{ id: "order", question: "Order?", type: "rank", options: ["A", "B"], selectedOptions: ["B", "A"], minSelect: 1, maxSelect: "2" },
+	]),
+	askResultEntry("e3", "2026-01-01T12:00:00.000Z", []),
+];
+
+describe("collectAskHistory", () => {
+	it("rebuilds every ask call on the branch with its stored answers", () => {
+		const calls = collectAskHistory(branch);
+
+		expect(calls.map((call) => call.entryId)).toEqual(["e1", "e2"]);
+		expect(calls[0].questions[0]).toEqual({
+			id: "auth",
+			question: "Which auth?",
+			options: [{ label: "JWT" }, { label: "Session", value: "session" }],
+			multi: false,
+			previousAnswer: {
+				selectedOptions: ["Session - split"],
+				selectedOptionRecords: [{ value: "session", label: "Session", index: 1, note: "split" }],
+			},
+		});
+		expect(calls[0].questions[1]).toMatchObject({ showIf: { id: "auth", selected: "JWT" } });
+		expect(calls[0].questions[1].previousAnswer).toBeUndefined();
+		expect(calls[1].questions.map((question) => [question.type, question.options.length])).toEqual([
+			["number", 0],
+			["text", 0],
+			["rank", 2],
+		]);
+		expect(calls[1].questions[1].question).toBe("notes");
+		expect(calls[1].questions[2]).toMatchObject({ minSelect: 1 });
+		expect(calls[1].questions[2].maxSelect).toBeUndefined();
+	});
+
+	it("reopens optional questions as optional", () => {
+		const [call] = collectAskHistory([
+			askResultEntry("e5", "2026-01-01T14:00:00.000Z", [
+				{ id: "cache", question: "Which cache?", options: ["Redis"], multi: false, selectedOptions: [], skipped: true },
+				{ id: "region", question: "Region?", options: ["eu"], multi: false, selectedOptions: ["eu"], required: false },
+				authResult,
+			]),
+		]);
+
+		expect(call.questions.map((question) => question.required)).toEqual([false, false, undefined]);
+	});
+
+	it("lists ids, questions, answers and timestamps per call", () => {
+		const [first, second] = collectAskHistory(branch);
+
+		expect(formatAskHistoryCall(first, 1)).toBe(
+			'#1 2026-01-01 10:00  auth "Which auth?" → Session - split | ttl "Token TTL?" → (no answer)',
+		);
+		expect(formatAskHistoryCall(second, 2)).toBe(
+			'#2 2026-01-01 11:30  port "Port?" → 3000 | notes "notes" → "keep it" | order "Order?" → 1. B, 2. A',
+		);
+	});
+});
+
+describe("answer revisions", () => {
+	it("reports only questions whose answer changed", () => {
+		const [call] = collectAskHistory(branch);
+		const revisions = findAnswerRevisions(call.questions, [
+			{ selectedOptions: ["JWT"] },
+			{ selectedOptions: [], notApplicable: true },
+		]);
+
+		expect(revisions).toEqual([{ id: "auth", before: "Session - split", after: "JWT" }]);
+		expect(buildAnswerRevisionMessage(call, revisions)).toBe(
+			"I revised my answers to the ask call from 2026-01-01 10:00:\n- auth: Session - split → JWT\nTreat the revised answers as the current decision.",
+		);
+	});
+
+	it("restores number presets, unit and limits so an unchanged number is not a revision", () => {
+		const [call] = collectAskHistory([
+			askResultEntry("e4", "2026-01-01T13:00:00.000Z", [
+				{
+					id: "delay",
+					question: "Delay?",
+					type: "number",
+					options: ["100 ms", "500 ms"],
+					presets: [100, 500],
+					unit: "ms",
+					min: 0,
+					max: 1000,
+					step: 50,
+					selectedOptions: ["500 ms"],
+					numberValue: 500,
+				},
+			]),
+		]);
+
+		expect(call.questions[0]).toMatchObject({
+			options: [{ label: "100 ms" }, { label: "500 ms" }],
+			presets: [100, 500],
+			unit: "ms",
+			min: 0,
+			max: 1000,
+			step: 50,
+		});
+		expect(findAnswerRevisions(call.questions, [{ selectedOptions: ["500 ms"], numberValue: 500 }])).toEqual([]);
+		expect(findAnswerRevisions(call.questions, [{ selectedOptions: ["500"], numberValue: 500 }])).toEqual([]);
+		expect(findAnswerRevisions(call.questions, [{ selectedOptions: ["100 ms"], numberValue: 100 }])).toEqual([
+			{ id: "delay", before: "500 ms", after: "100 ms" },
+		]);
+	});
+});
+
+describe("runAskHistoryCommand", () => {
+	function createCommandHarness(options: { entries?: SessionEntry[]; pick?: (labels: string[]) => string | undefined; tabState?: any; idle?: boolean }) {
+		const notifications: string[] = [];
+		const sentMessages: { content: string; options?: unknown }[] = [];
+		const pi = {
+			sendUserMessage: (content: string, sendOptions?: unknown) => sentMessages.push({ content, options: sendOptions }),
+		} as unknown as ExtensionAPI;
+		const ctx = {
+			hasUI: true,
+			sessionManager: { getBranch: () => options.entries ?? branch },
+			isIdle: () => options.idle ?? true,
+			ui: {
+				notify: (message: string) => notifications.push(message),
+				select: async (_title: string, labels: string[]) => options.pick?.(labels),
+				custom: async () => options.tabState,
+			},
+		} as any;
+		return { run: () => runAskHistoryCommand(pi, ctx), notifications, sentMessages };
+	}
+
+	it("tells the user when there is nothing to revise", async () => {
+		const harness = createCommandHarness({ entries: [] });
+		await harness.run();
+		expect(harness.notifications).toEqual(["No ask calls on this session branch yet"]);
+	});
+
+	it("lists calls newest first and stops when nothing is picked", async () => {
+		let listed: string[] = [];
+		const harness = createCommandHarness({
+			pick: (labels) => {
+				listed = labels;
+				return undefined;
+			},
+		});
+		await harness.run();
+		expect(listed.map((label) => label.slice(0, 2))).toEqual(["#2", "#1"]);
+		expect(harness.sentMessages).toEqual([]);
+	});
+
+	it("sends a follow-up message when the reopened answers change", async () => {
+		const harness = createCommandHarness({
+			pick: (labels) => labels[1],
+			idle: false,
+			tabState: {
+				cancelled: false,
+				selectedOptionIndexesByQuestion: [[0], [0]],
+				noteByQuestionByOption: [["", "", ""], ["", "", ""]],
+			},
+		});
+		await harness.run();
+
+		expect(harness.sentMessages).toEqual([
+			{
+				content:
+					"I revised my answers to the ask call from 2026-01-01 10:00:\n- auth: Session - split → JWT\n- ttl: (no answer) → 1h\nTreat the revised answers as the current decision.",
+				options: { deliverAs: "followUp" },
+			},
+		]);
+	});
+
+	it("does nothing on cancel and notifies when answers are unchanged", async () => {
+		const cancelled = createCommandHarness({ pick: (labels) => labels[1], tabState: { cancelled: true } });
+		await cancelled.run();
+		expect(cancelled.sentMessages).toEqual([]);
+		expect(cancelled.notifications).toEqual([]);
+
+		const unchanged = createCommandHarness({
+			pick: (labels) => labels[1],
+			tabState: {
+				cancelled: false,
+				selectedOptionIndexesByQuestion: [[1], []],
+				noteByQuestionByOption: [["", "split", ""], ["", "", ""]],
+			},
+		});
+		await unchanged.run();
+		expect(unchanged.sentMessages).toEqual([]);
+		expect(unchanged.notifications).toEqual(["No answers changed"]);
+	});
+
+	describe("keybindings file", () => {
+		afterEach(() => {
+			delete process.env.PI_ASK_KEYBINDINGS_FILE;
+		});
+
+		it("warns about a malformed keybindings file and still reopens the answers", async () => {
+			const keybindingsFilePath = join(mkdtempSync(join(tmpdir(), "pi-ask-history-keys-")), "keys.json");
+			writeFileSync(keybindingsFilePath, '{"vim":1}');
+			process.env.PI_ASK_KEYBINDINGS_FILE = keybindingsFilePath;
+			let listed: string[] = [];
+			const harness = createCommandHarness({
+				pick: (labels) => {
+					listed = labels;
+					return undefined;
+				},
+			});
+			await harness.run();
+
+			expect(harness.notifications).toEqual([
+				`Could not read ask keybindings file ${keybindingsFilePath}: "vim" must be true or false • using the default keys`,
+			]);
+			expect(listed).toHaveLength(2);
+		});
+
+		it("notifies in the configured locale", async () => {
+			const keybindingsFilePath = join(mkdtempSync(join(tmpdir(), "pi-ask-history-keys-")), "keys.json");
+			writeFileSync(keybindingsFilePath, '{"locale":"ko"}');
+			process.env.PI_ASK_KEYBINDINGS_FILE = keybindingsFilePath;
+			const harness = createCommandHarness({ entries: [] });
+			await harness.run();
+
+			expect(harness.notifications).toEqual(["이 세션 브랜치에는 아직 ask 호출이 없습니다"]);
+		});
+	});
+});
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	DEFAULT_ASK_KEYMAP,
+	formatAskKeyHints,
+	formatKeyLabel,
+	getBoundCharacterKeys,
+	loadAskKeybindingsConfig,
+	loadAskKeybindingsConfigOrDefault,
+	matchesAskKey,
+	matchesStopEditingKey,
+	parseAskKeybindingsConfig,
+	resolveAskKeybindingsFilePath,
+	resolveAskKeymap,
+} from "../src/ask-keymap";
+
+describe("parseAskKeybindingsConfig", () => {
+	it("reads the vim flag and per-action overrides", () => {
+		expect(parseAskKeybindingsConfig('{"vim":true,"note":"n","cancel":["escape","q"]}')).toEqual({
+			vim: true,
+			bindings: { note: ["n"], cancel: ["escape", "q"] },
+		});
+		expect(parseAskKeybindingsConfig("{}")).toEqual({});
+	});
+
+	it("reads the display locale from the same file", () => {
+		expect(parseAskKeybindingsConfig('{"locale":"ja_JP"}')).toEqual({ locale: "ja" });
+		expect(() => parseAskKeybindingsConfig('{"locale":"fr"}')).toThrow('"locale" must be one of: en, ko, ja');
+	});
+
+	it("rejects malformed configs with a readable message", () => {
+		expect(() => parseAskKeybindingsConfig("[]")).toThrow("keybindings file must contain a JSON object keyed by ask action");
+		expect(() => parseAskKeybindingsConfig('{"vim":"yes"}')).toThrow('"vim" must be true or false');
+		expect(() => parseAskKeybindingsConfig('{"jump":"j"}')).toThrow('unknown ask key action "jump"');
+		expect(() => parseAskKeybindingsConfig('{"up":[]}')).toThrow(
+			'keys for "up" must be a key name or a non-empty array of key names',
+		);
+	});
+});
+
+describe("loadAskKeybindingsConfig", () => {
+	afterEach(() => {
+		delete process.env.PI_ASK_KEYBINDINGS_FILE;
+	});
+
+	it("treats a missing file as no overrides", () => {
+		const directory = mkdtempSync(join(tmpdir(), "pi-ask-keymap-"));
+		expect(loadAskKeybindingsConfig(join(directory, "missing.json"))).toEqual({});
+	});
+
+	it("falls back to the default keys and warns once about an unreadable file", () => {
+		const filePath = join(mkdtempSync(join(tmpdir(), "pi-ask-keymap-")), "keys.json");
+		writeFileSync(filePath, "{not json");
+		const warnings: string[] = [];
+
+		expect(loadAskKeybindingsConfigOrDefault(filePath, (warning) => warnings.push(warning))).toEqual({});
+		expect(loadAskKeybindingsConfigOrDefault(filePath, (warning) => warnings.push(warning))).toEqual({});
+		expect(warnings).toHaveLength(1);
+		expect(warnings[0]).toStartWith(`Could not read ask keybindings file ${filePath}:`);
+		expect(warnings[0]).toEndWith("• using the default keys");
+	});
+
+	it("resolves the file from the agent directory unless overridden by env", () => {
+		expect(resolveAskKeybindingsFilePath("/home/me/.pi/agent")).toBe("/home/me/.pi/agent/ask-keybindings.json");
+		process.env.PI_ASK_KEYBINDINGS_FILE = "/tmp/keys.json";
+		expect(resolveAskKeybindingsFilePath("/home/me/.pi/agent")).toBe("/tmp/keys.json");
+	});
+});
+
+describe("resolveAskKeymap", () => {
+	it("layers pi select keybindings, vim keys and explicit overrides", () => {
+		const piKeybindings = {
+			getEffectiveConfig: () => ({ selectUp: ["up", "ctrl+p"], selectDown: "down", selectCancel: ["escape", "ctrl+c"] }),
+		};
+		const keymap = resolveAskKeymap({ vim: true, bindings: { nextTab: ["tab"] } }, piKeybindings);
+
+		expect(keymap.up).toEqual(["up", "ctrl+p", "k"]);
+		expect(keymap.down).toEqual(["down", "j"]);
+		expect(keymap.cancel).toEqual(["escape", "ctrl+c"]);
+		expect(keymap.previousTab).toEqual(["left", "h"]);
+		expect(keymap.nextTab).toEqual(["tab"]);
+		expect(keymap.select).toEqual(DEFAULT_ASK_KEYMAP.select);
+	});
+
+	it("falls back to the defaults without a keybindings manager", () => {
+		expect(resolveAskKeymap(undefined, {})).toEqual(DEFAULT_ASK_KEYMAP);
+	});
+});
+
+describe("key matching", () => {
+	const keymap = resolveAskKeymap({ vim: true, bindings: { note: ["tab", "n"] } });
+
+	it("matches named keys and single characters", () => {
+		expect(matchesAskKey(keymap, "\u001b[A", "up")).toBe(true);
+		expect(matchesAskKey(keymap, "k", "up")).toBe(true);
+		expect(matchesAskKey(keymap, "k", "up", { ignoreCharacterKeys: true })).toBe(false);
+		expect(matchesAskKey(keymap, "\u001b[1;2A", "reorderUp")).toBe(true);
+		expect(matchesAskKey(keymap, "\u0003", "interrupt")).toBe(true);
+	});
+
+	it("only stops note editing on keys that cannot be typed", () => {
+		expect(matchesStopEditingKey(keymap, "\t")).toBe(true);
+		expect(matchesStopEditingKey(keymap, "\u001b")).toBe(true);
+		expect(matchesStopEditingKey(keymap, "n")).toBe(false);
+	});
+
+	it("lists character keys so quick-select can skip them", () => {
+		expect(getBoundCharacterKeys(keymap).sort()).toEqual(["/", "h", "j", "k", "l", "n"]);
+	});
+});
+
+describe("key hints", () => {
+	it("formats key names for on-screen hints", () => {
+		expect(formatKeyLabel("escape")).toBe("Esc");
+		expect(formatKeyLabel("shift+up")).toBe("Shift+↑");
+		expect(formatKeyLabel("ctrl+c")).toBe("Ctrl+C");
+		expect(formatKeyLabel("j")).toBe("j");
+	});
+
+	it("renders the default hints unchanged", () => {
+		expect(formatAskKeyHints(DEFAULT_ASK_KEYMAP)).toEqual({
+			move: "↑↓",
+			typingMove: "↑↓",
+			reorder: "Shift+↑↓",
+			switchTabs: "←/→",
+			select: "Enter",
+			note: "Tab",
+			expandNote: "Ctrl+O",
+			externalEditor: "Ctrl+G",
+			skip: "Ctrl+S",
+			cancel: "Esc",
+			typingCancel: "Esc",
+			filter: "/",
+			scroll: "PgUp/PgDn",
+			stopEditing: "Tab/Esc",
+		});
+	});
+
+	it("shows vim keys and overrides from the same table", () => {
+		const hints = formatAskKeyHints(
+			resolveAskKeymap({ vim: true, bindings: { note: ["n"], cancel: ["escape", "ctrl+c"] } }, undefined),
+		);
+		expect(hints).toMatchObject({
+			move: "↑↓ kj",
+			typingMove: "↑↓",
+			switchTabs: "←/→ h/l",
+			note: "n",
+			typingCancel: "Esc",
+			stopEditing: "Esc",
+		});
+	});
+});
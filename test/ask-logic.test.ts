@@ -1,14 +1,34 @@
 import { describe, expect, it } from "bun:test";
 import {
 	OTHER_OPTION,
+	allowsOtherOption,
 	appendRecommendedTagToOptionLabels,
 	buildMultiSelectionResult,
+	buildNumberSelectionResult,
+	buildRankSelectionResult,
+	buildSelectedOptionRecords,
 	buildSingleSelectionResult,
+	buildTextSelectionResult,
+	formatNumberConstraints,
+	formatRanking,
+	formatSelectionLimits,
+	getMultiSelectionIssue,
+	getNumberAnswerIssue,
+	getTextAnswerIssue,
+	isMultiSelectionFull,
+	isQuestionConditionMet,
+	moveRankedOption,
+	parseNumberAnswer,
+	resolveRecommendedOptionIndexes,
 } from "../src/ask-logic";
+import { getAskMessages } from "../src/ask-messages";
 import {
 	INLINE_NOTE_WRAP_PADDING,
+	buildExpandedNoteLines,
 	buildOptionLabelWithInlineNote,
 	buildWrappedOptionLabelWithInlineNote,
+	isMultilineNote,
+	splitNoteLines,
 } from "../src/ask-inline-note";
 
 const CURSOR_INVERT_ON = "\u001b[7m";
@@ -26,6 +46,20 @@ describe("appendRecommendedTagToOptionLabels", () => {
 		expect(appendRecommendedTagToOptionLabels(["A", "B", "C"], 9)).toEqual(["A", "B", "C"]);
 	});
 
+	it("tags every valid recommended index", () => {
+		expect(appendRecommendedTagToOptionLabels(["A", "B", "C"], [2, 0, 7])).toEqual([
+			"A (Recommended)",
+			"B",
+			"C (Recommended)",
+		]);
+		expect(resolveRecommendedOptionIndexes([2, 0, 2, -1, 1.5], 3)).toEqual([2, 0]);
+		expect(resolveRecommendedOptionIndexes(undefined, 3)).toEqual([]);
+	});
+
+	it("uses the given localized tag", () => {
+		expect(appendRecommendedTagToOptionLabels(["A", "B"], 0, " (추천)")).toEqual(["A (추천)", "B"]);
+	});
+
 	it("does not duplicate existing recommended tag", () => {
 		expect(appendRecommendedTagToOptionLabels(["Fast", "Safe (Recommended)"], 1)).toEqual([
 			"Fast",
@@ -45,6 +79,11 @@ describe("buildSingleSelectionResult", () => {
 		});
 	});
 
+	it("removes localized recommended tags from selected options", () => {
+		expect(buildSingleSelectionResult("세션 인증 (추천)", "")).toEqual({ selectedOptions: ["세션 인증"] });
+		expect(buildMultiSelectionResult(["JWT (推奨)", "Session"], [0], [], 2)).toEqual({ selectedOptions: ["JWT"] });
+	});
+
 	it("appends note for predefined option", () => {
 		expect(buildSingleSelectionResult("Session auth", "split-session")).toEqual({
 			selectedOptions: ["Session auth - split-session"],
@@ -57,6 +96,10 @@ describe("buildSingleSelectionResult", () => {
 			customInput: "custom auth flow",
 		});
 	});
+
+	it("treats the Other label as a regular option when Other is not allowed", () => {
+		expect(buildSingleSelectionResult(OTHER_OPTION, "", false)).toEqual({ selectedOptions: [OTHER_OPTION] });
+	});
 });
 
 describe("buildMultiSelectionResult", () => {
@@ -84,6 +127,155 @@ describe("buildMultiSelectionResult", () => {
 			customInput: "organization-sso",
 		});
 	});
+
+	it("keeps every note on a regular option when the question has no Other option", () => {
+		const result = buildMultiSelectionResult(["Approve", "Reject"], [0, 1], ["", "flaky test"], -1);
+
+		expect(result).toEqual({ selectedOptions: ["Approve", "Reject - flaky test"] });
+	});
+});
+
+describe("allowsOtherOption", () => {
+	it("offers Other on choice questions unless allowOther is false", () => {
+		expect(allowsOtherOption({})).toBe(true);
+		expect(allowsOtherOption({ type: "choice", allowOther: true })).toBe(true);
+		expect(allowsOtherOption({ allowOther: false })).toBe(false);
+		expect(allowsOtherOption({ type: "rank" })).toBe(false);
+		expect(allowsOtherOption({ type: "number" })).toBe(false);
+	});
+});
+
+describe("buildSelectedOptionRecords", () => {
+	it("pairs each selected option's value with its label, index and trimmed note", () => {
+		const options = [{ label: "JSON Web Tokens", value: "jwt" }, { label: "Session" }];
+
+		expect(buildSelectedOptionRecords(options, [1, 0], [" team-wide ", "stateful"])).toEqual([
+			{ value: "Session", label: "Session", index: 1, note: "stateful" },
+			{ value: "jwt", label: "JSON Web Tokens", index: 0, note: "team-wide" },
+		]);
+	});
+
+	it("skips indexes outside the option list such as Other", () => {
+		expect(buildSelectedOptionRecords([{ label: "JWT" }], [0, 1, -1], ["", "custom"])).toEqual([
+			{ value: "JWT", label: "JWT", index: 0 },
+		]);
+	});
+});
+
+describe("getTextAnswerIssue", () => {
+	it("requires an answer unless required is false", () => {
+		expect(getTextAnswerIssue({}, "   ")).toBe("An answer is required");
+		expect(getTextAnswerIssue({ required: false }, "")).toBeUndefined();
+	});
+
+	it("checks trimmed length against minLength and maxLength", () => {
+		expect(getTextAnswerIssue({ minLength: 3 }, " ab ")).toBe("Enter at least 3 characters");
+		expect(getTextAnswerIssue({ maxLength: 3 }, "abcd")).toBe("Keep it to 3 characters or fewer");
+		expect(getTextAnswerIssue({ minLength: 3, maxLength: 3, required: false }, "abc")).toBeUndefined();
+	});
+});
+
+describe("buildTextSelectionResult", () => {
+	it("stores trimmed text in customInput and marks empty answers as skipped", () => {
+		expect(buildTextSelectionResult("  line one\nline two ")).toEqual({
+			selectedOptions: [],
+			customInput: "line one\nline two",
+		});
+		expect(buildTextSelectionResult(" ")).toEqual({ selectedOptions: [], skipped: true });
+	});
+});
+
+describe("number answers", () => {
+	it("parses plain decimal numbers only", () => {
+		expect(parseNumberAnswer(" 8080 ")).toBe(8080);
+		expect(parseNumberAnswer("-1.5e2")).toBe(-150);
+		expect(parseNumberAnswer("0x10")).toBeUndefined();
+		expect(parseNumberAnswer("12ms")).toBeUndefined();
+	});
+
+	it("reports the first violated constraint", () => {
+		expect(getNumberAnswerIssue({}, " ")).toBe("Enter a number");
+		expect(getNumberAnswerIssue({}, "abc")).toBe("Not a number");
+		expect(getNumberAnswerIssue({ min: 1 }, "0")).toBe("Must be at least 1");
+		expect(getNumberAnswerIssue({ max: 10 }, "11")).toBe("Must be at most 10");
+		expect(getNumberAnswerIssue({ step: 5 }, "12")).toBe("Must be a multiple of 5");
+		expect(getNumberAnswerIssue({ min: 1, step: 2 }, "4")).toBe("Must be 1 plus a multiple of 2");
+		expect(getNumberAnswerIssue({ min: 0, max: 1, step: 0.1 }, "0.3")).toBeUndefined();
+	});
+
+	it("reports validation issues in the UI locale", () => {
+		const koreanMessages = getAskMessages("ko");
+		expect(getNumberAnswerIssue({ min: 1 }, "0", koreanMessages)).toBe("1 이상이어야 합니다");
+		expect(getTextAnswerIssue({ minLength: 3 }, "ab", getAskMessages("ja"))).toBe("3 文字以上入力してください");
+		expect(getMultiSelectionIssue({ maxSelect: 2 }, 3, koreanMessages)).toBe("2개 이하로 선택하세요");
+		expect(formatSelectionLimits({ minSelect: 2, maxSelect: 3 }, koreanMessages)).toBe("2~3개 선택");
+		expect(formatNumberConstraints({ min: 1, max: 10, step: 2 }, getAskMessages("ja"))).toBe("1〜10, 2 刻み");
+	});
+
+	it("formats constraints and typed selections", () => {
+		expect(formatNumberConstraints({ min: 1, max: 10, step: 1 })).toBe("1 to 10, step 1");
+		expect(formatNumberConstraints({ min: 1 })).toBe("at least 1");
+		expect(formatNumberConstraints({ max: 10 })).toBe("at most 10");
+		expect(formatNumberConstraints({})).toBeUndefined();
+		expect(buildNumberSelectionResult(3, " retries ")).toEqual({ selectedOptions: ["3 retries"], numberValue: 3 });
+		expect(buildNumberSelectionResult(3)).toEqual({ selectedOptions: ["3"], numberValue: 3 });
+	});
+});
+
+describe("multi-select limits", () => {
+	it("requires at least one pick by default and honours minSelect/maxSelect", () => {
+		expect(getMultiSelectionIssue({}, 0)).toBe("Pick at least 1");
+		expect(getMultiSelectionIssue({ minSelect: 2 }, 1)).toBe("Pick at least 2");
+		expect(getMultiSelectionIssue({ maxSelect: 2 }, 3)).toBe("Pick at most 2");
+		expect(getMultiSelectionIssue({ minSelect: 2, maxSelect: 3 }, 3)).toBeUndefined();
+		expect(isMultiSelectionFull({ maxSelect: 2 }, 2)).toBe(true);
+		expect(isMultiSelectionFull({}, 9)).toBe(false);
+	});
+
+	it("formats the limits for hints and answer context", () => {
+		expect(formatSelectionLimits({ minSelect: 2, maxSelect: 3 })).toBe("pick 2 to 3");
+		expect(formatSelectionLimits({ minSelect: 2, maxSelect: 2 })).toBe("pick exactly 2");
+		expect(formatSelectionLimits({ minSelect: 2 })).toBe("pick at least 2");
+		expect(formatSelectionLimits({ maxSelect: 3 })).toBe("pick at most 3");
+		expect(formatSelectionLimits({})).toBeUndefined();
+	});
+});
+
+describe("moveRankedOption", () => {
+	it("swaps the option with its neighbour in the given direction", () => {
+		expect(moveRankedOption([0, 1, 2], 1, -1)).toEqual([1, 0, 2]);
+		expect(moveRankedOption([0, 1, 2], 1, 1)).toEqual([0, 2, 1]);
+	});
+
+	it("keeps the ranking unchanged at the edges or for invalid positions", () => {
+		const ranking = [0, 1, 2];
+		expect(moveRankedOption(ranking, 0, -1)).toBe(ranking);
+		expect(moveRankedOption(ranking, 2, 1)).toBe(ranking);
+		expect(moveRankedOption(ranking, 5, -1)).toBe(ranking);
+	});
+});
+
+describe("buildRankSelectionResult", () => {
+	it("returns labels in ranked order", () => {
+		expect(buildRankSelectionResult(["A", "B", "C"], [2, 0, 1])).toEqual({ selectedOptions: ["C", "A", "B"] });
+		expect(formatRanking(["C", "A"])).toBe("1. C, 2. A");
+	});
+});
+
+describe("isQuestionConditionMet", () => {
+	it("is met without a condition", () => {
+		expect(isQuestionConditionMet(undefined, undefined)).toBe(true);
+	});
+
+	it("matches any of the expected labels", () => {
+		expect(isQuestionConditionMet({ id: "cache", selected: "Redis" }, ["Redis"])).toBe(true);
+		expect(isQuestionConditionMet({ id: "cache", selected: ["Redis", "Memcached"] }, ["Memcached"])).toBe(true);
+		expect(isQuestionConditionMet({ id: "cache", selected: "Redis" }, ["None"])).toBe(false);
+	});
+
+	it("is not met when the referenced question has no answer", () => {
+		expect(isQuestionConditionMet({ id: "cache", selected: "Redis" }, undefined)).toBe(false);
+	});
 });
 
 describe("buildOptionLabelWithInlineNote", () => {
@@ -97,9 +289,25 @@ describe("buildOptionLabelWithInlineNote", () => {
 		);
 	});
 
+	it("labels the inline note in the UI locale", () => {
+		const koreanMessages = getAskMessages("ko");
+		expect(buildOptionLabelWithInlineNote("Session", "split", false, undefined, undefined, koreanMessages)).toBe(
+			"Session — 메모: split",
+		);
+		expect(buildOptionLabelWithInlineNote("Session", "a\nb", false, undefined, undefined, koreanMessages)).toBe(
+			"Session — 메모 (2줄): a",
+		);
+	});
+
 	it("sanitizes multiline/control note characters for inline display", () => {
-		expect(buildOptionLabelWithInlineNote("Session", "line1\nline2\t\u0007", false)).toBe(
-			"Session — note: line1 line2",
+		expect(buildOptionLabelWithInlineNote("Session", "line1 \tline2\u0007", false)).toBe(
+			"Session — note: line1  line2",
+		);
+		expect(buildOptionLabelWithInlineNote("Session", "line1\t\u0007\nline2\r\nline3\n", false)).toBe(
+			"Session — note (3 lines): line1",
+		);
+		expect(buildOptionLabelWithInlineNote("Session", "line1\nline2", true)).toBe(
+			`Session — note: line1 line2\u001b[7m \u001b[27m`,
 		);
 	});
 
@@ -182,3 +390,24 @@ describe("buildWrappedOptionLabelWithInlineNote", () => {
 		expect(wrapped.join(" ")).toContain(`0123${renderCursorCell("4")}56789`);
 	});
 });
+
+describe("multi-line notes", () => {
+	it("splits notes on any line ending and ignores surrounding blank lines", () => {
+		expect(splitNoteLines("\nfirst\r\nsecond\rthird\n")).toEqual(["first", "second", "third"]);
+		expect(isMultilineNote("one line")).toBe(false);
+		expect(isMultilineNote("one line\n")).toBe(false);
+		expect(isMultilineNote("first\nsecond")).toBe(true);
+	});
+
+	it("renders the expanded editor with a header and the cursor on the active line", () => {
+		const lines = buildExpandedNoteLines("Redis", ["first", "second"], 40, { line: 1, col: 2 });
+
+		expect(lines[0]).toBe("Note on Redis (2 lines):");
+		expect(lines[1]).toBe("first");
+		expect(lines[2]).toBe(`se${renderCursorCell("c")}ond`);
+	});
+
+	it("uses the singular line count for a one-line note", () => {
+		expect(buildExpandedNoteLines("Redis", [""], 40, { line: 0, col: 0 })[0]).toBe("Note on Redis (1 line):");
+	});
+});
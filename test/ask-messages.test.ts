@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+import { NUMBER_ENTRY_OPTION, OTHER_OPTION } from "../src/ask-logic";
+import {
+	ASK_LOCALE_ENV,
+	ASK_LOCALES,
+	ASK_MESSAGES,
+	getAskMessages,
+	parseAskLocale,
+	resolveAskLocale,
+} from "../src/ask-messages";
+
+function collectMessageKeys(messages: object, prefix = ""): string[] {
+	return Object.entries(messages).flatMap(([key, value]) =>
+		value != null && typeof value === "object" ? collectMessageKeys(value, `${prefix}${key}.`) : [`${prefix}${key}`],
+	);
+}
+
+describe("ask message catalog", () => {
+	it("keeps the English catalog in sync with the canonical labels", () => {
+		expect(getAskMessages().otherOption).toBe(OTHER_OPTION);
+		expect(getAskMessages().numberEntryOption).toBe(NUMBER_ENTRY_OPTION);
+	});
+
+	it("translates every message in every locale", () => {
+		const englishKeys = collectMessageKeys(ASK_MESSAGES.en);
+		for (const locale of ASK_LOCALES) {
+			expect(collectMessageKeys(ASK_MESSAGES[locale])).toEqual(englishKeys);
+		}
+	});
+
+	it("formats parameterized messages in locale word order", () => {
+		expect(getAskMessages("en").countdown("Cancelling", "9s")).toBe("Cancelling in 9s • any key resets");
+		expect(getAskMessages("ko").countdown("취소", "9s")).toBe("9s 후 취소 • 아무 키나 누르면 초기화");
+		expect(getAskMessages("ja").selectedCount(2)).toBe("2 件選択");
+	});
+});
+
+describe("resolveAskLocale", () => {
+	it("accepts language tags with regions and encodings", () => {
+		expect(parseAskLocale("ko")).toBe("ko");
+		expect(parseAskLocale("ja_JP.UTF-8")).toBe("ja");
+		expect(parseAskLocale("EN-us")).toBe("en");
+		expect(parseAskLocale("fr")).toBeUndefined();
+		expect(parseAskLocale(undefined)).toBeUndefined();
+	});
+
+	it("prefers the configured locale, then the environment, then English", () => {
+		expect(resolveAskLocale("ja", { [ASK_LOCALE_ENV]: "ko" })).toBe("ja");
+		expect(resolveAskLocale(undefined, { [ASK_LOCALE_ENV]: "ko_KR" })).toBe("ko");
+		expect(resolveAskLocale(undefined, { [ASK_LOCALE_ENV]: "fr" })).toBe("en");
+		expect(resolveAskLocale(undefined, {})).toBe("en");
+	});
+});
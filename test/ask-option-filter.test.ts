@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+import { getAskMessages } from "../src/ask-messages";
+import {
+	filterOptionIndexes,
+	findFuzzyMatchPositions,
+	formatOptionFilterStatus,
+	highlightMatchPositions,
+	moveCursorWithinVisibleOptions,
+	resolveVisibleCursorIndex,
+} from "../src/ask-option-filter";
+
+describe("findFuzzyMatchPositions", () => {
+	it("prefers a contiguous match and falls back to an in-order subsequence", () => {
+		expect(findFuzzyMatchPositions("package.json", "JSON")).toEqual([8, 9, 10, 11]);
+		expect(findFuzzyMatchPositions("package-lock.json", "plj")).toEqual([0, 8, 13]);
+		expect(findFuzzyMatchPositions("Postgres", "p g")).toEqual([0, 4]);
+		expect(findFuzzyMatchPositions("Redis", "sr")).toBeUndefined();
+		expect(findFuzzyMatchPositions("Redis", "  ")).toEqual([]);
+	});
+});
+
+describe("filterOptionIndexes", () => {
+	it("keeps matching options in order plus the always-visible option", () => {
+		const labels = ["src/index.ts", "README.md", "src/ask-logic.ts"];
+		expect(filterOptionIndexes(labels, "src", 3)).toEqual([0, 2, 3]);
+		expect(filterOptionIndexes(labels, "zzz", 3)).toEqual([3]);
+		expect(filterOptionIndexes(labels, "md")).toEqual([1]);
+		expect(filterOptionIndexes(labels, "md", -1)).toEqual([1]);
+	});
+});
+
+describe("highlightMatchPositions", () => {
+	it("wraps runs of matched characters", () => {
+		const highlight = (text: string) => `[${text}]`;
+		expect(highlightMatchPositions("Postgres", [0, 1, 5], highlight)).toBe("[Po]stg[r]es");
+		expect(highlightMatchPositions("Redis (Recommended)", [], highlight)).toBe("Redis (Recommended)");
+	});
+});
+
+describe("filtered cursor movement", () => {
+	it("keeps the cursor on a visible option and clamps at the ends", () => {
+		expect(resolveVisibleCursorIndex([1, 4], 4)).toBe(4);
+		expect(resolveVisibleCursorIndex([1, 4], 2)).toBe(1);
+		expect(resolveVisibleCursorIndex([], 2)).toBe(2);
+		expect(moveCursorWithinVisibleOptions([1, 4, 6], 4, 1)).toBe(6);
+		expect(moveCursorWithinVisibleOptions([1, 4, 6], 6, 1)).toBe(6);
+		expect(moveCursorWithinVisibleOptions([1, 4, 6], 1, -1)).toBe(1);
+		expect(moveCursorWithinVisibleOptions([1, 4, 6], 3, -1)).toBe(1);
+	});
+});
+
+describe("formatOptionFilterStatus", () => {
+	it("reports matches and hidden selections", () => {
+		expect(formatOptionFilterStatus("re", 2, 10, 0)).toBe("Filter: re▏ • 2 of 10 match");
+		expect(formatOptionFilterStatus("zz", 0, 10, 3)).toBe("Filter: zz▏ • no matches • 3 selected hidden");
+	});
+
+	it("uses the UI locale", () => {
+		expect(formatOptionFilterStatus("re", 2, 10, 1, getAskMessages("ja"))).toBe(
+			"絞り込み: re▏ • 10 件中 2 件一致 • 選択済み 1 件が非表示",
+		);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { findAskPreset, loadAskPresets, parseAskPresets, resolveAskPreset } from "../src/ask-presets";
+
+describe("parseAskPresets", () => {
+	it("accepts answer shorthands and { answer, mode } entries", () => {
+		expect(parseAskPresets('{"test-framework":"Vitest","lint-*":{"answer":["ESLint"],"mode":"auto"}}')).toEqual([
+			{ pattern: "test-framework", answer: "Vitest", mode: "prefill" },
+			{ pattern: "lint-*", answer: ["ESLint"], mode: "auto" },
+		]);
+		expect(parseAskPresets('{"pm":{"answer":"pnpm"}}')).toEqual([{ pattern: "pm", answer: "pnpm", mode: "prefill" }]);
+	});
+
+	it("rejects non-object documents and invalid entries", () => {
+		expect(() => parseAskPresets("[]")).toThrow("JSON object keyed by question id or id pattern");
+		expect(() => parseAskPresets('{"pm":1}')).toThrow('preset for "pm"');
+		expect(() => parseAskPresets('{"pm":{"answer":2}}')).toThrow('preset answer for "pm"');
+		expect(() => parseAskPresets('{"pm":{"answer":"pnpm","mode":"always"}}')).toThrow('preset mode for "pm"');
+	});
+
+	it("treats a missing presets file as no presets", () => {
+		const directory = mkdtempSync(join(tmpdir(), "pi-ask-presets-"));
+		expect(loadAskPresets(join(directory, "missing.json"))).toEqual([]);
+		writeFileSync(join(directory, "presets.json"), '{"pm":"pnpm"}');
+		expect(loadAskPresets(join(directory, "presets.json"))).toEqual([{ pattern: "pm", answer: "pnpm", mode: "prefill" }]);
+		expect(() => loadAskPresets(directory)).toThrow();
+	});
+});
+
+describe("findAskPreset", () => {
+	const presets = parseAskPresets('{"test-*":"Jest","*.framework":"Vitest","test-framework":"Mocha","a.b":"dot"}');
+
+	it("prefers an exact id over patterns and tries patterns in file order", () => {
+		expect(findAskPreset(presets, "test-framework")?.answer).toBe("Mocha");
+		expect(findAskPreset(presets, "test-runner")?.answer).toBe("Jest");
+		expect(findAskPreset(presets, "web.framework")?.answer).toBe("Vitest");
+		expect(findAskPreset(presets, "axb")).toBeUndefined();
+		expect(findAskPreset(presets, "framework")).toBeUndefined();
+	});
+});
+
+describe("resolveAskPreset", () => {
+	const question = { id: "pm", question: "Package manager?", options: [{ label: "npm" }, { label: "pnpm", value: "p" }] };
+
+	it("maps the preset answer onto the question like an answers file", () => {
+		expect(resolveAskPreset(parseAskPresets('{"pm":{"answer":"p","mode":"auto"}}'), question)).toEqual({
+			mode: "auto",
+			selection: { selectedOptions: ["pnpm"], selectedOptionRecords: [{ value: "p", label: "pnpm", index: 1 }] },
+		});
+	});
+
+	it("ignores unmatched ids and answers that resolve to nothing", () => {
+		expect(resolveAskPreset(parseAskPresets('{"other":"npm"}'), question)).toBeUndefined();
+		expect(resolveAskPreset(parseAskPresets('{"pm":" "}'), question)).toBeUndefined();
+	});
+});
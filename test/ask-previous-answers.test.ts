@@ -0,0 +1,200 @@
+import { describe, expect, it } from "bun:test";
+import type { SessionEntry } from "@mariozechner/pi-coding-agent";
+import { getAskMessages } from "../src/ask-messages";
+import {
+	collectPreviousAnswers,
+	formatPrefilledAnswerHint,
+	resolvePrefilledAnswerState,
+} from "../src/ask-previous-answers";
+
+function toolResultEntry(toolName: string, details: unknown, isError = false): SessionEntry {
+	return {
+		type: "message",
+		id: `entry-${Math.random()}`,
+		parentId: null,
+		timestamp: "2026-01-01T00:00:00.000Z",
+		message: { role: "toolResult", toolCallId: "call", toolName, content: [], details, isError, timestamp: 0 },
+	} as SessionEntry;
+}
+
+describe("collectPreviousAnswers", () => {
+	it("keeps the latest answered result per question id", () => {
+		const previousAnswers = collectPreviousAnswers([
+			toolResultEntry("ask", {
+				results: [
+					{ id: "auth", selectedOptions: ["JWT"] },
+					{ id: "cache", selectedOptions: ["Redis"], selectedOptionRecords: [{ value: "redis", label: "Redis", index: 0 }] },
+				],
+			}),
+			toolResultEntry("ask", {
+				results: [
+					{ id: "auth", selectedOptions: [], customInput: "Passkeys" },
+					{ id: "cache", selectedOptions: [] },
+					{ id: "ttl", selectedOptions: ["1m"], notApplicable: true },
+					{ id: "port", selectedOptions: ["8080"], numberValue: 8080 },
+				],
+			}),
+		]);
+
+		expect(Object.fromEntries(previousAnswers)).toEqual({
+			auth: { selectedOptions: [], customInput: "Passkeys" },
+			cache: { selectedOptions: ["Redis"], selectedOptionRecords: [{ value: "redis", label: "Redis", index: 0 }] },
+			port: { selectedOptions: ["8080"], numberValue: 8080 },
+		});
+	});
+
+	it("skips answers that were auto-resolved or timed out instead of given by the user", () => {
+		const previousAnswers = collectPreviousAnswers([
+			toolResultEntry("ask", {
+				results: [
+					{ id: "auth", selectedOptions: ["JWT"] },
+					{ id: "region", selectedOptions: ["eu"], autoResolved: "preset" },
+				],
+			}),
+			toolResultEntry("ask", {
+				results: [
+					{ id: "auth", selectedOptions: ["Session"], autoResolved: "first" },
+					{ id: "cache", selectedOptions: ["Redis"], autoResolved: "recommended" },
+					{ id: "ttl", selectedOptions: ["1m"], timedOut: true },
+				],
+			}),
+		]);
+
+		expect(Object.fromEntries(previousAnswers)).toEqual({
+			auth: { selectedOptions: ["JWT"] },
+			region: { selectedOptions: ["eu"] },
+		});
+	});
+
+	it("ignores other tools, errors, aborted calls and malformed details", () => {
+		const previousAnswers = collectPreviousAnswers([
+			{ type: "label", id: "l1", parentId: null, timestamp: "", targetId: "x", label: "x" } as SessionEntry,
+			toolResultEntry("bash", { results: [{ id: "auth", selectedOptions: ["JWT"] }] }),
+			toolResultEntry("ask", { results: [{ id: "auth", selectedOptions: ["JWT"] }] }, true),
+			toolResultEntry("ask", { aborted: true }),
+			toolResultEntry("ask", { results: [null, { id: 7, selectedOptions: ["JWT"] }, { id: "auth", selectedOptions: "JWT" }] }),
+		]);
+
+		expect(previousAnswers.size).toBe(0);
+	});
+});
+
+describe("resolvePrefilledAnswerState", () => {
+	const options = [{ label: "JSON Web Tokens", value: "jwt" }, { label: "Session" }];
+
+	it("returns nothing without a usable previous answer", () => {
+		expect(resolvePrefilledAnswerState({ options })).toBeUndefined();
+		expect(
+			resolvePrefilledAnswerState({ options, previousAnswer: { selectedOptions: ["Removed option"] } }),
+		).toBeUndefined();
+		expect(resolvePrefilledAnswerState({ type: "text", options: [], previousAnswer: { selectedOptions: [] } })).toBeUndefined();
+		expect(
+			resolvePrefilledAnswerState({ type: "number", options: [], previousAnswer: { selectedOptions: ["8080"] } }),
+		).toBeUndefined();
+		expect(
+			resolvePrefilledAnswerState({ type: "rank", options, previousAnswer: { selectedOptions: ["Removed option"] } }),
+		).toBeUndefined();
+	});
+
+	it("matches choice answers by value first and restores notes", () => {
+		const state = resolvePrefilledAnswerState({
+			options: [{ label: "JWT (renamed)", value: "jwt" }, { label: "Session" }],
+			previousAnswer: {
+				selectedOptions: ["JSON Web Tokens - short-lived"],
+				selectedOptionRecords: [{ value: "jwt", label: "JSON Web Tokens", index: 0, note: "short-lived" }],
+			},
+		});
+
+		expect(state).toEqual({
+			source: "previous",
+			selectedOptionIndexes: [0],
+			noteByOptionIndex: ["short-lived", "", ""],
+			textAnswer: "",
+			summary: "JSON Web Tokens - short-lived",
+		});
+	});
+
+	it("ignores previous Other input when the question no longer allows Other", () => {
+		expect(
+			resolvePrefilledAnswerState({ options, allowOther: false, previousAnswer: { selectedOptions: [], customInput: "org" } }),
+		).toBeUndefined();
+	});
+
+	it("restores multi-select picks plus Other input in option order", () => {
+		const state = resolvePrefilledAnswerState({
+			options,
+			multi: true,
+			previousAnswer: {
+				selectedOptions: ["Session", "JSON Web Tokens"],
+				customInput: "org\nsso",
+			},
+		});
+
+		expect(state).toEqual({
+			source: "previous",
+			selectedOptionIndexes: [0, 1, 2],
+			noteByOptionIndex: ["", "", "org\nsso"],
+			textAnswer: "",
+			summary: 'Session, JSON Web Tokens, Other: "org sso"',
+		});
+	});
+
+	it("restores number presets or typed entries", () => {
+		const numberQuestion = { type: "number" as const, options: [{ label: "80" }, { label: "8080" }], presets: [80, 8080] };
+
+		expect(
+			resolvePrefilledAnswerState({ ...numberQuestion, previousAnswer: { selectedOptions: ["8080"], numberValue: 8080 } }),
+		).toMatchObject({ selectedOptionIndexes: [1], summary: "8080" });
+		expect(
+			resolvePrefilledAnswerState({ ...numberQuestion, previousAnswer: { selectedOptions: ["3000"], numberValue: 3000 } }),
+		).toMatchObject({ selectedOptionIndexes: [2], noteByOptionIndex: ["", "", "3000"] });
+	});
+
+	it("restores rankings and free-text answers", () => {
+		expect(
+			resolvePrefilledAnswerState({
+				type: "rank",
+				options: [{ label: "A" }, { label: "B" }, { label: "C" }],
+				previousAnswer: { selectedOptions: ["C", "A"] },
+			}),
+		).toMatchObject({ selectedOptionIndexes: [2, 0, 1], summary: "1. C, 2. A" });
+		expect(
+			resolvePrefilledAnswerState({
+				type: "text",
+				options: [],
+				previousAnswer: { selectedOptions: [], customInput: "Cache\nmisses" },
+			}),
+		).toEqual({
+			source: "previous",
+			selectedOptionIndexes: [],
+			noteByOptionIndex: [],
+			textAnswer: "Cache\nmisses",
+			summary: '"Cache misses"',
+		});
+	});
+
+	it("falls back to a preset answer when no previous answer applies", () => {
+		const presetState = resolvePrefilledAnswerState({
+			options,
+			previousAnswer: { selectedOptions: ["Removed option"] },
+			presetAnswer: { selectedOptions: ["Session"] },
+		});
+		expect(presetState).toMatchObject({ source: "preset", selectedOptionIndexes: [1] });
+		expect(formatPrefilledAnswerHint(presetState!)).toBe("★ Project preset: Session");
+
+		const previousState = resolvePrefilledAnswerState({
+			options,
+			previousAnswer: { selectedOptions: ["JSON Web Tokens"] },
+			presetAnswer: { selectedOptions: ["Session"] },
+		});
+		expect(formatPrefilledAnswerHint(previousState!)).toBe("↺ Previously answered: JSON Web Tokens");
+	});
+
+	it("summarizes Other answers in the UI locale", () => {
+		const state = resolvePrefilledAnswerState(
+			{ options, multi: true, previousAnswer: { selectedOptions: ["Session"], customInput: "org sso" } },
+			getAskMessages("ko"),
+		);
+		expect(state?.summary).toBe('Session, 기타: "org sso"');
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "bun:test";
+import {
+	findQuickSelectOptionIndex,
+	formatQuickSelectGutter,
+	getQuickSelectKey,
+	resolveQuickSelectKeys,
+} from "../src/ask-quick-select";
+
+describe("quick-select keys", () => {
+	it("assigns digits first and letters beyond nine options", () => {
+		expect(getQuickSelectKey(0)).toBe("1");
+		expect(getQuickSelectKey(8)).toBe("9");
+		expect(getQuickSelectKey(9)).toBe("a");
+		expect(getQuickSelectKey(34)).toBe("z");
+		expect(getQuickSelectKey(35)).toBeUndefined();
+		expect(getQuickSelectKey(-1)).toBeUndefined();
+	});
+
+	it("maps a pressed key back to an option index within range", () => {
+		expect(findQuickSelectOptionIndex("1", 3)).toBe(0);
+		expect(findQuickSelectOptionIndex("3", 3)).toBe(2);
+		expect(findQuickSelectOptionIndex("4", 3)).toBeUndefined();
+		expect(findQuickSelectOptionIndex("b", 12)).toBe(10);
+		expect(findQuickSelectOptionIndex("B", 12)).toBeUndefined();
+		expect(findQuickSelectOptionIndex("0", 12)).toBeUndefined();
+		expect(findQuickSelectOptionIndex("\u001b[A", 12)).toBeUndefined();
+	});
+
+	it("renders a fixed-width gutter that blanks out when quick-select is unavailable", () => {
+		const formatKey = (key: string) => `<${key}>`;
+		expect(formatQuickSelectGutter(1, true, formatKey)).toEqual({ text: "<2> ", width: 2 });
+		expect(formatQuickSelectGutter(1, false, formatKey)).toEqual({ text: "  ", width: 2 });
+		expect(formatQuickSelectGutter(40, true, formatKey)).toEqual({ text: "  ", width: 2 });
+	});
+});
+
+describe("resolveQuickSelectKeys", () => {
+	it("skips keys that are bound to other actions", () => {
+		const quickSelectKeys = resolveQuickSelectKeys(["h", "j", "k", "l", "/"]);
+		expect(quickSelectKeys).toBe("123456789abcdefgimnopqrstuvwxyz");
+		expect(getQuickSelectKey(16, quickSelectKeys)).toBe("i");
+		expect(findQuickSelectOptionIndex("m", 20, quickSelectKeys)).toBe(17);
+		expect(findQuickSelectOptionIndex("j", 20, quickSelectKeys)).toBeUndefined();
+		expect(formatQuickSelectGutter(16, true, (key) => key, quickSelectKeys).text).toBe("i ");
+	});
+});
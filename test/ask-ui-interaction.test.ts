@@ -1,7 +1,12 @@
-import { describe, expect, it } from "bun:test";
+import { afterEach, describe, expect, it, jest } from "bun:test";
+import { chmodSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
+import { NUMBER_ENTRY_OPTION, OTHER_OPTION } from "../src/ask-logic";
 import { askSingleQuestionWithInlineNote } from "../src/ask-inline-ui";
 import { askQuestionsWithTabs, formatSelectionForSubmitReview } from "../src/ask-tabs-ui";
+import { askSingleTextQuestion } from "../src/ask-text-ui";
 
 function createFakeTheme() {
 	return {
@@ -14,6 +19,10 @@ function createFakeTheme() {
 	};
 }
 
+function optionRecord(label: string, index: number, note?: string) {
+	return { value: label, label, index, ...(note ? { note } : {}) };
+}
+
 const RICH_MARKDOWN = `# Heading
 
 A [link](https://example.com) and \`inline\` code with **bold** and *italic* and ~~strike~~ and <u>underline</u>.
@@ -126,6 +135,45 @@ describe("askSingleQuestionWithInlineNote interactive branches", () => {
 		expect(result).toEqual({ selectedOptions: [] });
 	});
 
+	it("closes the picker when the abort signal fires and ignores later input", async () => {
+		const controller = new AbortController();
+		let renderRequests = 0;
+		const ui = {
+			custom: async (factory: any) => {
+				const tui = {
+					requestRender() {
+						renderRequests++;
+					},
+				};
+				let result: any;
+				let doneCalls = 0;
+				const done = (value: any) => {
+					doneCalls++;
+					result = value;
+				};
+
+				const component = await factory(tui, createFakeTheme(), {}, done);
+				component.handleInput("\t");
+				controller.abort();
+				const requestsAfterAbort = renderRequests;
+				component.handleInput("x");
+				component.handleInput("\r");
+				component.dispose();
+				expect(renderRequests).toBe(requestsAfterAbort);
+				expect(doneCalls).toBe(1);
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askSingleQuestionWithInlineNote(
+			ui,
+			{ question: "Choose one", options: [{ label: "A" }, { label: "B" }] },
+			{ signal: controller.signal },
+		);
+
+		expect(result).toEqual({ selectedOptions: [] });
+	});
+
 	it("submits selected predefined option with Enter", async () => {
 		const ui = {
 			custom: async (factory: any) => {
@@ -148,7 +196,7 @@ describe("askSingleQuestionWithInlineNote interactive branches", () => {
 			options: [{ label: "Fast path" }, { label: "Safe path" }],
 		});
 
-		expect(result).toEqual({ selectedOptions: ["Fast path"] });
+		expect(result).toEqual({ selectedOptions: ["Fast path"], selectedOptionRecords: [optionRecord("Fast path", 0)] });
 	});
 });
 
@@ -273,7 +321,7 @@ describe("askQuestionsWithTabs interactive branches", () => {
 
 		expect(result).toEqual({
 			cancelled: false,
-			selections: [{ selectedOptions: ["A"] }],
+			selections: [{ selectedOptions: ["A"], selectedOptionRecords: [optionRecord("A", 0)] }],
 		});
 	});
 
@@ -307,7 +355,7 @@ describe("askQuestionsWithTabs interactive branches", () => {
 		});
 	});
 
-	it("cancels tab flow on Ctrl-C from submit tab", async () => {
+	it("cancels tab flow on Ctrl-C from submit tab and keeps the answered question", async () => {
 		const ui = {
 			custom: async (factory: any) => {
 				const tui = { requestRender() {} };
@@ -331,7 +379,12 @@ describe("askQuestionsWithTabs interactive branches", () => {
 
 		expect(result).toEqual({
 			cancelled: true,
-			selections: [{ selectedOptions: [] }],
+			selections: [
+				{
+					selectedOptions: ["A"],
+					selectedOptionRecords: [{ value: "A", label: "A", index: 0 }],
+				},
+			],
 		});
 	});
 
@@ -367,6 +420,63 @@ describe("askQuestionsWithTabs interactive branches", () => {
 		});
 	});
 
+	it("returns the questions answered before Esc", async () => {
+		const ui = {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				component.handleInput("\u001b[B");
+				component.handleInput("\r");
+				component.handleInput("\u001b");
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "q1", question: "Question 1", options: [{ label: "A" }, { label: "B" }] },
+			{ id: "q2", question: "Question 2", options: [{ label: "C" }] },
+		]);
+
+		expect(result).toEqual({
+			cancelled: true,
+			selections: [
+				{ selectedOptions: ["B"], selectedOptionRecords: [{ value: "B", label: "B", index: 1 }] },
+				{ selectedOptions: [] },
+			],
+		});
+	});
+
+	it("drops prefilled answers on questions the user never confirmed when Esc cancels", async () => {
+		const ui = {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				component.handleInput("\r");
+				component.handleInput("\u001b");
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "q1", question: "Question 1", options: [{ label: "A" }, { label: "B" }] },
+			{ id: "q2", question: "Question 2", options: [{ label: "C" }, { label: "D" }], multi: true, defaults: [{ index: 1 }] },
+			{ id: "q3", question: "Question 3", options: [{ label: "E" }], previousAnswer: { selectedOptions: ["E"] } },
+		]);
+
+		expect(result).toEqual({
+			cancelled: true,
+			selections: [
+				{ selectedOptions: ["A"], selectedOptionRecords: [{ value: "A", label: "A", index: 0 }] },
+				{ selectedOptions: [] },
+				{ selectedOptions: [] },
+			],
+		});
+	});
+
 	it("covers cancel via Esc on question tab and invalidate", async () => {
 		const ui = {
 			custom: async (factory: any) => {
@@ -396,6 +506,111 @@ describe("askQuestionsWithTabs interactive branches", () => {
 		});
 	});
 
+	it("closes when the abort signal was already aborted before the picker opened", async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const ui = {
+			custom: (factory: any) =>
+				new Promise((resolve) => {
+					const component = factory({ requestRender() {} }, createFakeTheme(), {}, resolve);
+					component.render(40);
+				}),
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(
+			ui,
+			[
+				{ id: "q1", question: "Question 1", options: [{ label: "A" }] },
+				{ id: "q2", question: "Question 2", options: [{ label: "B" }] },
+			],
+			{ signal: controller.signal },
+		);
+
+		expect(result).toEqual({
+			cancelled: true,
+			selections: [{ selectedOptions: [] }, { selectedOptions: [] }],
+		});
+	});
+
+	it("stops listening for aborts once disposed", async () => {
+		const controller = new AbortController();
+		let doneCalls = 0;
+		const ui = {
+			custom: async (factory: any) => {
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, () => {
+					doneCalls++;
+				});
+				component.dispose();
+				controller.abort();
+				return {
+					cancelled: false,
+					selectedOptionIndexesByQuestion: [[0]],
+					noteByQuestionByOption: [["", ""]],
+				};
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(
+			ui,
+			[{ id: "q1", question: "Question 1", options: [{ label: "A" }] }],
+			{ signal: controller.signal },
+		);
+
+		expect(doneCalls).toBe(0);
+		expect(result.selections).toEqual([{ selectedOptions: ["A"], selectedOptionRecords: [optionRecord("A", 0)] }]);
+	});
+
+	it("shows follow-up tabs only when their showIf condition is met", async () => {
+		const screens: string[] = [];
+		const ui = {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\u001b[B");
+				component.handleInput("\r");
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\u001b[D");
+				component.handleInput("\u001b[A");
+				component.handleInput("\r");
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\r");
+				component.handleInput("\u001b[D");
+				component.handleInput("\u001b[C");
+				component.handleInput("\r");
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }, { label: "None" }] },
+			{
+				id: "cache_ttl",
+				question: "Cache TTL?",
+				options: [{ label: "1m" }, { label: "1h" }],
+				showIf: { id: "cache", selected: "Redis" },
+			},
+			{ id: "ignored", question: "Never shown", options: [{ label: "X" }], showIf: { id: "missing", selected: "Y" } },
+		]);
+
+		expect(screens[0]).not.toContain("cache ttl");
+		expect(screens[1]).toContain("Review answers");
+		expect(screens[1]).toContain("cache ttl: (not applicable)");
+		expect(screens[1]).toContain("Press Enter to submit");
+		expect(screens[2]).toContain("□ cache ttl");
+		expect(screens[2]).toContain("Cache TTL?");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: ["Redis"], selectedOptionRecords: [optionRecord("Redis", 0)] },
+				{ selectedOptions: ["1m"], selectedOptionRecords: [optionRecord("1m", 0)] },
+				{ selectedOptions: [], notApplicable: true },
+			],
+		});
+	});
+
 	it("clamps recommended indexes for negative, overflow, and valid values", async () => {
 		const ui = {
 			custom: async () => ({
@@ -417,18 +632,1599 @@ describe("askQuestionsWithTabs interactive branches", () => {
 
 		expect(result).toEqual({
 			cancelled: false,
-			selections: [{ selectedOptions: ["A"] }, { selectedOptions: ["C"] }, { selectedOptions: ["E"] }],
+			selections: [
+				{ selectedOptions: ["A"], selectedOptionRecords: [optionRecord("A", 0)] },
+				{ selectedOptions: ["C"], selectedOptionRecords: [optionRecord("C", 0)] },
+				{ selectedOptions: ["E"], selectedOptionRecords: [optionRecord("E", 0)] },
+			],
 		});
 	});
 });
 
-describe("formatSelectionForSubmitReview branch coverage", () => {
-	it("returns selected-only value for single and multi modes", () => {
-		expect(formatSelectionForSubmitReview({ selectedOptions: ["A"] }, false)).toBe("A");
-		expect(formatSelectionForSubmitReview({ selectedOptions: ["A", "B"] }, true)).toBe("[A, B]");
+describe("free-text questions", () => {
+	function createTextUi(run: (component: any) => void, screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				run(component);
+				screens.push(component.render(60).join("\n"));
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("validates length limits before submitting a single text question", async () => {
+		const screens: string[] = [];
+		const ui = createTextUi((component) => {
+			screens.push(component.render(60).join("\n"));
+			component.handleInput("\r");
+			screens.push(component.render(60).join("\n"));
+			for (const ch of "ab") component.handleInput(ch);
+			screens.push(component.render(60).join("\n"));
+			for (const ch of "cd") component.handleInput(ch);
+			component.handleInput("\r");
+		});
+
+		const result = await askSingleTextQuestion(ui, {
+			question: "Describe the bug",
+			description: "Steps to reproduce",
+			placeholder: "What happened?",
+			minLength: 3,
+			maxLength: 10,
+		});
+
+		expect(screens[0]).toContain("What happened?");
+		expect(screens[0]).toContain("0/10 chars");
+		expect(screens[1]).toContain("An answer is required • 0/10 chars");
+		expect(screens[2]).toContain("Enter at least 3 characters • 2/10 chars");
+		expect(result).toEqual({ selectedOptions: [], customInput: "abcd" });
 	});
 
-	it("returns not answered when nothing is selected", () => {
-		expect(formatSelectionForSubmitReview({ selectedOptions: [] }, false)).toBe("(not answered)");
+	it("returns skipped for an empty optional answer and nothing when cancelled", async () => {
+		const skipped = await askSingleTextQuestion(
+			createTextUi((component) => component.handleInput("\r")),
+			{ question: "Anything else?", required: false },
+		);
+		const cancelled = await askSingleTextQuestion(
+			createTextUi((component) => {
+				component.handleInput("x");
+				component.handleInput("\u001b");
+				component.handleInput("y");
+			}),
+			{ question: "Anything else?" },
+		);
+
+		expect(skipped).toEqual({ selectedOptions: [], skipped: true });
+		expect(cancelled).toEqual({ selectedOptions: [] });
+	});
+
+	it("edits text tabs inline and shows the answer in review", async () => {
+		const screens: string[] = [];
+		const ui = createTextUi((component) => {
+			component.handleInput("\r");
+			screens.push(component.render(60).join("\n"));
+			component.handleInput("\r");
+			for (const ch of "Cache misses") component.handleInput(ch);
+			component.handleInput("\r");
+			screens.push(component.render(60).join("\n"));
+			component.handleInput("\u001b[D");
+			component.handleInput("\u001b[A");
+			component.handleInput("\u001b[B");
+			component.handleInput("\t");
+			component.handleInput("\u001b");
+			screens.push(component.render(60).join("\n"));
+			component.handleInput("\u001b[C");
+			component.handleInput("\r");
+		}, screens);
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }, { label: "None" }] },
+			{ id: "reason", question: "Why?", type: "text", options: [], placeholder: "One sentence", maxLength: 40 },
+		]);
+
+		expect(screens[0]).toContain("Why?");
+		expect(screens[0]).toContain("One sentence");
+		expect(screens[0]).toContain("Enter/Tab edit answer");
+		expect(screens[1]).toContain("reason: Cache misses");
+		expect(screens[2]).toContain("Cache misses");
+		expect(screens[2]).toContain("12/40 chars");
+		expect(screens[2]).toContain("Enter/Tab edit answer");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: ["Redis"], selectedOptionRecords: [optionRecord("Redis", 0)] },
+				{ selectedOptions: [], customInput: "Cache misses" },
+			],
+		});
+	});
+
+	it("starts editing a text tab on typing and keeps required answers open", async () => {
+		const screens: string[] = [];
+		const ui = createTextUi((component) => {
+			component.handleInput("\r");
+			component.handleInput(" ");
+			component.handleInput(" ");
+			component.handleInput("\r");
+			screens.push(component.render(60).join("\n"));
+			component.handleInput("\u001b");
+			component.handleInput("o");
+			component.handleInput("k");
+			component.handleInput("\r");
+			component.handleInput("\r");
+		}, screens);
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }] },
+			{ id: "reason", question: "Why?", type: "text", options: [] },
+		]);
+
+		expect(screens[0]).toContain("An answer is required");
+		expect(screens[0]).toContain("Typing answer");
+		expect(result.selections[1]).toEqual({ selectedOptions: [], customInput: "ok" });
+	});
+});
+
+describe("rank questions", () => {
+	it("reorders options with shift/alt arrows and returns the confirmed order", async () => {
+		const screens: string[] = [];
+		const ui = {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				screens.push(component.render(60).join("\n"));
+				component.handleInput("\u001b[B");
+				component.handleInput("\u001b[B");
+				component.handleInput("\u001b[1;2A");
+				component.handleInput("\u001b[1;2A");
+				component.handleInput("\u001b[1;2A");
+				component.handleInput("\t");
+				screens.push(component.render(60).join("\n"));
+				component.handleInput("\r");
+				screens.push(component.render(60).join("\n"));
+				component.handleInput("\u001b[D");
+				component.handleInput("\u001b[B");
+				component.handleInput("\u001b[1;3B");
+				component.handleInput("\u001b[C");
+				screens.push(component.render(60).join("\n"));
+				component.handleInput("\r");
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(ui, [
+			{
+				id: "priority",
+				question: "Order these by priority",
+				type: "rank",
+				options: [{ label: "Auth" }, { label: "Billing" }, { label: "Search" }],
+				recommended: 2,
+			},
+		]);
+
+		expect(screens[0]).toContain("→ 1. Auth");
+		expect(screens[0]).toContain("Shift+↑↓ reorder");
+		expect(screens[0]).not.toContain("Other");
+		expect(screens[1]).toContain("→ 1. Search\n  2. Auth\n  3. Billing");
+		expect(screens[2]).toContain("priority: 1. Search, 2. Auth, 3. Billing");
+		expect(screens[3]).toContain("priority: 1. Search, 2. Billing, 3. Auth");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{
+					selectedOptions: ["Search", "Billing", "Auth"],
+					selectedOptionRecords: [optionRecord("Search", 2), optionRecord("Billing", 1), optionRecord("Auth", 0)],
+				},
+			],
+		});
+	});
+});
+
+describe("number questions", () => {
+	it("validates typed numbers live and returns a typed value", async () => {
+		const screens: string[] = [];
+		const ui = {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\t");
+				for (const ch of "70000") component.handleInput(ch);
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\r");
+				screens.push(component.render(80).join("\n"));
+				for (let index = 0; index < 5; index++) component.handleInput("\x7f");
+				for (const ch of "3000") component.handleInput(ch);
+				component.handleInput("\r");
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\r");
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(ui, [
+			{
+				id: "port",
+				question: "Which port?",
+				type: "number",
+				options: [],
+				presets: [80, 8080],
+				recommended: 1,
+				min: 1,
+				max: 65535,
+				step: 1,
+				unit: "tcp",
+			},
+		]);
+
+		expect(screens[0]).toContain("→ ○ 8080 tcp (Recommended)");
+		expect(screens[0]).toContain("○ Enter a number");
+		expect(screens[0]).toContain("Allowed: 1 to 65535, step 1");
+		expect(screens[0]).toContain("Tab type a number");
+		expect(screens[1]).toContain("Enter a number — note: 70000");
+		expect(screens[1]).toContain("Must be at most 65535");
+		expect(screens[2]).toContain("Typing number");
+		expect(screens[3]).toContain("port: 3000 tcp");
+		expect(result).toEqual({ cancelled: false, selections: [{ selectedOptions: ["3000 tcp"], numberValue: 3000 }] });
+	});
+
+	it("selects presets with Enter and requires a valid number for free entry", async () => {
+		const ui = {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				component.handleInput("\u001b[B");
+				component.handleInput("\r");
+				component.handleInput("\u001b");
+				component.handleInput("\u001b[A");
+				component.handleInput("\r");
+				component.handleInput("\r");
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "retries", question: "Retries?", type: "number", options: [], presets: [3] },
+		]);
+
+		expect(result).toEqual({ cancelled: false, selections: [{ selectedOptions: ["3"], numberValue: 3 }] });
+	});
+});
+
+describe("option descriptions", () => {
+	function captureScreens(keys: string[], screens: string[]): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				screens.push(component.render(60).join("\n"));
+				for (const key of keys) {
+					component.handleInput(key);
+					screens.push(component.render(60).join("\n"));
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	const options = [
+		{ label: "JWT", description: "**Stateless** tokens; hard to revoke" },
+		{ label: "Session" },
+	];
+
+	it("shows the highlighted option's description in the single-question picker", async () => {
+		const screens: string[] = [];
+		await askSingleQuestionWithInlineNote(captureScreens(["\u001b[B", "\u001b"], screens), {
+			question: "Which auth?",
+			options,
+		});
+
+		expect(screens[0]).toContain("Stateless tokens; hard to revoke");
+		expect(screens[1]).not.toContain("Stateless");
+	});
+
+	it("shows the highlighted option's description in the tab flow, following rank order", async () => {
+		const screens: string[] = [];
+		await askQuestionsWithTabs(captureScreens(["\u001b[B", "\u001b[C", "\u001b[1;2B", "\u001b"], screens), [
+			{ id: "auth", question: "Which auth?", options },
+			{ id: "order", question: "Rank", type: "rank", options },
+		]);
+
+		expect(screens[0]).toContain("   Stateless tokens; hard to revoke");
+		expect(screens[1]).not.toContain("Stateless");
+		expect(screens[2]).toContain("Stateless tokens");
+		expect(screens[3]).toContain("→ 2. JWT");
+		expect(screens[3]).toContain("Stateless tokens");
+	});
+});
+
+describe("multi-select limits", () => {
+	it("blocks toggles past maxSelect and refuses to submit below minSelect", async () => {
+		const screens: string[] = [];
+		const ui = {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\r");
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\u001b[C");
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\r");
+				component.handleInput("\u001b[D");
+				component.handleInput("\u001b[B");
+				component.handleInput("\r");
+				component.handleInput("\u001b[B");
+				component.handleInput("\r");
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\t");
+				for (const ch of "later") component.handleInput(ch);
+				component.handleInput("\r");
+				component.handleInput("\u001b[B");
+				screens.push(component.render(80).join("\n"));
+				component.handleInput("\u001b[C");
+				component.handleInput("\r");
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await askQuestionsWithTabs(ui, [
+			{
+				id: "features",
+				question: "Which features?",
+				options: [{ label: "Logs" }, { label: "Metrics" }, { label: "Traces" }],
+				multi: true,
+				minSelect: 2,
+				maxSelect: 2,
+			},
+		]);
+
+		expect(screens[0]).toContain("Pick exactly 2 • 0 selected");
+		expect(screens[1]).toContain("Pick at least 2 • 1 selected");
+		expect(screens[2]).toContain("Complete required answers: features");
+		expect(screens[3]).toContain("Maximum of 2 reached • deselect an option first");
+		expect(screens[3]).toContain("[ ] Traces");
+		expect(screens[4]).toContain("[ ] Traces — note: later");
+		expect(screens[4]).toContain("Pick exactly 2 • 2 selected");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [{ selectedOptions: ["Logs", "Metrics"], selectedOptionRecords: [optionRecord("Logs", 0), optionRecord("Metrics", 1)] }],
+		});
+	});
+});
+
+describe("multi-select defaults", () => {
+	function runKeys(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				screens.push(component.render(80).join("\n"));
+				for (const key of keys) component.handleInput(key);
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	const featuresQuestion = {
+		id: "features",
+		question: "Which features?",
+		options: [{ label: "Logs" }, { label: "Metrics" }, { label: "Traces" }],
+		multi: true,
+		recommended: [0, 2],
+		defaults: [{ index: 0 }, { index: 2, note: "sampled" }, { index: 9 }],
+	};
+
+	it("pre-checks defaults, tags every recommendation and reports unchanged defaults", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(runKeys(["\u001b[C", "\r"], screens), [featuresQuestion]);
+
+		expect(screens[0]).toContain("[x] Logs (Recommended)");
+		expect(screens[0]).toContain("[ ] Metrics");
+		expect(screens[0]).toContain("[x] Traces (Recommended) — note: sampled");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{
+					selectedOptions: ["Logs", "Traces - sampled"],
+					selectedOptionRecords: [optionRecord("Logs", 0), optionRecord("Traces", 2, "sampled")],
+					defaultsAccepted: true,
+				},
+			],
+		});
+	});
+
+	it("reports changed defaults when the user edits the selection or a note", async () => {
+		const toggled = await askQuestionsWithTabs(runKeys(["\u001b[B", "\r", "\u001b[C", "\r"]), [featuresQuestion]);
+		const renoted = await askQuestionsWithTabs(
+			runKeys(["\u001b[B", "\u001b[B", "\t", "\x7f", "\r", "\u001b[C", "\r"]),
+			[featuresQuestion],
+		);
+
+		expect(toggled.selections[0]).toEqual({
+			selectedOptions: ["Logs", "Metrics", "Traces - sampled"],
+			selectedOptionRecords: [optionRecord("Logs", 0), optionRecord("Metrics", 1), optionRecord("Traces", 2, "sampled")],
+			defaultsAccepted: false,
+		});
+		expect(renoted.selections[0]).toEqual({
+			selectedOptions: ["Logs", "Traces - sample"],
+			selectedOptionRecords: [optionRecord("Logs", 0), optionRecord("Traces", 2, "sample")],
+			defaultsAccepted: false,
+		});
+	});
+});
+
+describe("previous answers", () => {
+	function runKeys(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				screens.push(component.render(80).join("\n"));
+				for (const key of keys) component.handleInput(key);
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("pre-selects the previous multi-select answer over defaults and shows a hint", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(runKeys(["\u001b[C", "\r"], screens), [
+			{
+				id: "features",
+				question: "Which features?",
+				options: [{ label: "Logs" }, { label: "Metrics" }],
+				multi: true,
+				defaults: [{ index: 0 }],
+				previousAnswer: {
+					selectedOptions: ["Metrics - keep"],
+					selectedOptionRecords: [optionRecord("Metrics", 1, "keep")],
+					customInput: "Traces",
+				},
+			},
+		]);
+
+		expect(screens[0]).toContain('↺ Previously answered: Metrics - keep, Other: "Traces"');
+		expect(screens[0]).toContain("[ ] Logs");
+		expect(screens[0]).toContain("→ [x] Metrics — note: keep");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{
+					selectedOptions: ["Metrics - keep"],
+					selectedOptionRecords: [optionRecord("Metrics", 1, "keep")],
+					customInput: "Traces",
+				},
+			],
+		});
+	});
+
+	it("restores previous rankings and text answers so the tabs can be submitted unchanged", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(runKeys(["\u001b[D", "\r"], screens), [
+			{
+				id: "priority",
+				question: "Order?",
+				type: "rank",
+				options: [{ label: "A" }, { label: "B" }],
+				previousAnswer: { selectedOptions: ["B", "A"] },
+			},
+			{
+				id: "reason",
+				question: "Why?",
+				type: "text",
+				options: [],
+				previousAnswer: { selectedOptions: [], customInput: "Cache misses" },
+			},
+		]);
+
+		expect(screens[0]).toContain("↺ Previously answered: 1. B, 2. A");
+		expect(screens[0]).toContain("→ 1. B\n  2. A");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: ["B", "A"], selectedOptionRecords: [optionRecord("B", 1), optionRecord("A", 0)] },
+				{ selectedOptions: [], customInput: "Cache misses" },
+			],
+		});
+	});
+
+	it("starts the inline picker on the previous option with its note", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(runKeys(["\r"], screens), {
+			question: "Which auth?",
+			options: [{ label: "JWT" }, { label: "Session" }],
+			recommended: 0,
+			previousAnswer: {
+				selectedOptions: ["Session - split"],
+				selectedOptionRecords: [optionRecord("Session", 1, "split")],
+			},
+		});
+
+		expect(screens[0]).toContain("↺ Previously answered: Session - split");
+		expect(screens[0]).toContain("→ ● Session — note: split");
+		expect(result).toEqual({
+			selectedOptions: ["Session - split"],
+			selectedOptionRecords: [optionRecord("Session", 1, "split")],
+		});
+	});
+
+	it("pre-fills the free-text editor with the previous answer", async () => {
+		const screens: string[] = [];
+		const result = await askSingleTextQuestion(runKeys(["\r"], screens), {
+			question: "Why?",
+			previousAnswer: { selectedOptions: [], customInput: "Cache misses" },
+		});
+
+		expect(screens[0]).toContain('↺ Previously answered: "Cache misses"');
+		expect(result).toEqual({ selectedOptions: [], customInput: "Cache misses" });
+	});
+});
+
+describe("ask UI timeouts", () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	function createTimedUi(run: (component: any) => void): ExtensionUIContext {
+		return {
+			custom: (factory: any) =>
+				new Promise((resolve) => {
+					const component = factory({ requestRender() {} }, createFakeTheme(), {}, resolve);
+					run(component);
+				}),
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("auto-selects the recommended option in the single-question picker", async () => {
+		jest.useFakeTimers();
+		let countdownLine = "";
+		const ui = createTimedUi((component) => {
+			component.handleInput("\u001b[B");
+			jest.advanceTimersByTime(4000);
+			countdownLine = component.render(80).find((line: string) => line.includes("⏱")) ?? "";
+			jest.advanceTimersByTime(1000);
+		});
+
+		const result = await askSingleQuestionWithInlineNote(ui, {
+			question: "Choose",
+			options: [{ label: "A" }, { label: "B" }],
+			recommended: 1,
+			timeoutSeconds: 5,
+		});
+
+		expect(countdownLine).toContain('Auto-selecting "B" in 1s');
+		expect(result).toEqual({ selectedOptions: ["B"], selectedOptionRecords: [optionRecord("B", 1)], timedOut: true });
+	});
+
+	it("cancels the single-question picker on timeout without a recommended option", async () => {
+		jest.useFakeTimers();
+		let countdownLine = "";
+		const ui = createTimedUi((component) => {
+			countdownLine = component.render(80).find((line: string) => line.includes("⏱")) ?? "";
+			jest.advanceTimersByTime(2000);
+		});
+
+		const result = await askSingleQuestionWithInlineNote(ui, {
+			question: "Choose",
+			options: [{ label: "A" }],
+			timeoutSeconds: 2,
+		});
+
+		expect(countdownLine).toContain("Cancelling in 2s");
+		expect(result).toEqual({ selectedOptions: [], timedOut: true });
+	});
+
+	it("times out tab questions one by one and submits once every question is resolved", async () => {
+		jest.useFakeTimers();
+		const countdownLines: string[] = [];
+		const ui = createTimedUi((component) => {
+			countdownLines.push(component.render(80).find((line: string) => line.includes("⏱")) ?? "");
+			jest.advanceTimersByTime(3000);
+			countdownLines.push(component.render(80).find((line: string) => line.includes("⏱")) ?? "");
+			component.handleInput("\r");
+			countdownLines.push(component.render(80).find((line: string) => line.includes("⏱")) ?? "");
+			jest.advanceTimersByTime(6000);
+		});
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "q1", question: "Q1", options: [{ label: "A" }, { label: "B" }], recommended: 1, timeoutSeconds: 3 },
+			{ id: "q2", question: "Q2", options: [{ label: "C" }], multi: true, timeoutSeconds: 3 },
+			{ id: "q3", question: "Q3", options: [{ label: "D" }], timeoutSeconds: 3 },
+		]);
+
+		expect(countdownLines[0]).toContain('Auto-selecting "B" in 3s');
+		expect(countdownLines[1]).toContain("Leaving unanswered in 3s");
+		expect(countdownLines[2]).toContain("Moving on in 3s");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: ["B"], selectedOptionRecords: [optionRecord("B", 1)], timedOut: true },
+				{ selectedOptions: ["C"], selectedOptionRecords: [optionRecord("C", 0)] },
+				{ selectedOptions: [], timedOut: true },
+			],
+		});
+	});
+
+	it("times out open questions from the Submit tab instead of waiting forever", async () => {
+		jest.useFakeTimers();
+		let submitScreen = "";
+		const ui = createTimedUi((component) => {
+			component.handleInput("\u001b[D");
+			submitScreen = component.render(80).join("\n");
+			jest.advanceTimersByTime(4000);
+		});
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "q1", question: "Q1", options: [{ label: "A" }, { label: "B" }], recommended: 0, timeoutSeconds: 10 },
+			{ id: "q2", question: "Q2", options: [{ label: "C" }], timeoutSeconds: 4 },
+		]);
+
+		expect(submitScreen).toContain("Timing out q1, q2 in 4s");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: ["A"], selectedOptionRecords: [optionRecord("A", 0)], timedOut: true },
+				{ selectedOptions: [], timedOut: true },
+			],
+		});
+	});
+
+	it("keeps the current order when a rank question times out", async () => {
+		jest.useFakeTimers();
+		let screen = "";
+		const ui = createTimedUi((component) => {
+			screen = component.render(60).join("\n");
+			component.handleInput("\u001b[1;2B");
+			jest.advanceTimersByTime(5000);
+		});
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "priority", question: "Order", type: "rank", options: [{ label: "A" }, { label: "B" }], timeoutSeconds: 5 },
+		]);
+
+		expect(screen).toContain("Keeping current order in 5s");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [{ selectedOptions: ["B", "A"], selectedOptionRecords: [optionRecord("B", 1), optionRecord("A", 0)], timedOut: true }],
+		});
+	});
+
+	it("auto-selects every recommended option for timed-out multi-select tabs", async () => {
+		jest.useFakeTimers();
+		let screen = "";
+		const ui = createTimedUi((component) => {
+			screen = component.render(80).join("\n");
+			jest.advanceTimersByTime(5000);
+		});
+
+		const result = await askQuestionsWithTabs(ui, [
+			{
+				id: "features",
+				question: "Which?",
+				options: [{ label: "A" }, { label: "B" }, { label: "C" }],
+				multi: true,
+				recommended: [2, 0],
+				timeoutSeconds: 5,
+			},
+		]);
+
+		expect(screen).toContain('Auto-selecting "C", "A" in 5s');
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [{ selectedOptions: ["A", "C"], selectedOptionRecords: [optionRecord("A", 0), optionRecord("C", 2)], timedOut: true }],
+		});
+	});
+
+	it("shows timed-out questions in review and clears the flag when the user answers", async () => {
+		jest.useFakeTimers();
+		let reviewScreen = "";
+		const ui = createTimedUi((component) => {
+			jest.advanceTimersByTime(2000);
+			component.handleInput("\u001b[C");
+			reviewScreen = component.render(80).join("\n");
+			component.handleInput("\u001b[C");
+			component.handleInput("\r");
+			component.handleInput("\r");
+			component.handleInput("\r");
+		});
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "q1", question: "Q1", options: [{ label: "A" }], timeoutSeconds: 2 },
+			{ id: "q2", question: "Q2", options: [{ label: "B" }] },
+		]);
+
+		expect(reviewScreen).toContain("q1: (not answered) (timed out)");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: ["A"], selectedOptionRecords: [optionRecord("A", 0)] },
+				{ selectedOptions: ["B"], selectedOptionRecords: [optionRecord("B", 0)] },
+			],
+		});
+	});
+});
+
+describe("formatSelectionForSubmitReview branch coverage", () => {
+	it("returns selected-only value for single and multi modes", () => {
+		expect(formatSelectionForSubmitReview({ selectedOptions: ["A"] }, false)).toBe("A");
+		expect(formatSelectionForSubmitReview({ selectedOptions: ["A", "B"] }, true)).toBe("[A, B]");
+	});
+
+	it("returns not answered when nothing is selected", () => {
+		expect(formatSelectionForSubmitReview({ selectedOptions: [] }, false)).toBe("(not answered)");
+	});
+
+	it("returns skipped for a skipped optional question", () => {
+		expect(formatSelectionForSubmitReview({ selectedOptions: [], skipped: true }, true)).toBe("(skipped)");
+	});
+});
+
+describe("option filter", () => {
+	function runKeysWithSnapshots(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(80).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("filters the tab list, keeps Other visible and preserves hidden selections", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeysWithSnapshots(
+				["<snapshot>", "\r", "/", "b", "e", "<snapshot>", "\r", "\u001b", "<snapshot>", "\u001b[C", "\r"],
+				screens,
+			),
+			[
+				{
+					id: "fruit",
+					question: "Which fruit?",
+					options: [{ label: "Apple" }, { label: "Banana" }, { label: "Cherry" }, { label: "Blueberry" }],
+					multi: true,
+				},
+			],
+		);
+
+		expect(screens[0]).toContain("/ filter");
+		expect(screens[1]).toContain("Filter: be▏ • 1 of 4 match • 1 selected hidden");
+		expect(screens[1]).toContain("→ [ ] Blueberry");
+		expect(screens[1]).toContain(`[ ] ${OTHER_OPTION}`);
+		expect(screens[1]).not.toContain("Apple");
+		expect(screens[1]).toContain("Esc clear filter");
+		expect(screens[2]).toContain("[x] Apple");
+		expect(screens[2]).toContain("→ [x] Blueberry");
+		expect(screens[2]).not.toContain("Filter:");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{
+					selectedOptions: ["Apple", "Blueberry"],
+					selectedOptionRecords: [optionRecord("Apple", 0), optionRecord("Blueberry", 3)],
+				},
+			],
+		});
+	});
+
+	it("moves within matches and lands on Other when nothing matches in number tabs", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeysWithSnapshots(["/", "9", "<snapshot>", "\x7f", "8", "<snapshot>", "\u001b[B", "\u001b[A", "\r", "\r"], screens),
+			[{ id: "port", question: "Port?", type: "number", options: [], presets: [80, 8080, 3000] }],
+		);
+
+		expect(screens[0]).toContain("Filter: 9▏ • no matches");
+		expect(screens[0]).toContain(`→ ○ ${NUMBER_ENTRY_OPTION}`);
+		expect(screens[1]).toContain("Filter: 8▏ • 2 of 3 match");
+		expect(screens[1]).toContain("→ ○ 80");
+		expect(screens[1]).not.toContain("3000");
+		expect(screens[1]).toContain("Tab type a number • Esc clear filter");
+		expect(result.selections).toEqual([{ selectedOptions: ["80"], numberValue: 80 }]);
+	});
+
+	it("filters the single-question picker with fuzzy matching", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeysWithSnapshots(["/", "p", "g", "<snapshot>", "\u001b[B", "\u001b[A", "\r"], screens),
+			{
+				question: "Which database?",
+				options: [{ label: "Redis" }, { label: "Memcached" }, { label: "Postgres" }],
+			},
+		);
+
+		expect(screens[0]).toContain("Filter: pg▏ • 1 of 3 match");
+		expect(screens[0]).toContain("→ ● Postgres");
+		expect(screens[0]).toContain(`○ ${OTHER_OPTION}`);
+		expect(screens[0]).not.toContain("Redis");
+		expect(screens[0]).toContain("Type to filter");
+		expect(result).toEqual({ selectedOptions: ["Postgres"], selectedOptionRecords: [optionRecord("Postgres", 2)] });
+	});
+
+	it("leaves filter mode on Esc or Backspace before cancelling the picker", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeysWithSnapshots(["<snapshot>", "/", "x", "\u001b", "<snapshot>", "/", "\x7f", "<snapshot>", "\u001b"], screens),
+			{ question: "Which database?", options: [{ label: "Redis" }, { label: "Postgres" }] },
+		);
+
+		expect(screens[0]).toContain("/ filter • Esc cancel");
+		expect(screens[1]).not.toContain("Filter:");
+		expect(screens[1]).toContain(`→ ● ${OTHER_OPTION}`);
+		expect(screens[2]).not.toContain("Filter:");
+		expect(result).toEqual({ selectedOptions: [] });
+	});
+});
+
+describe("height-aware viewport", () => {
+	function runKeysInTerminal(rows: number, keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const tui = { requestRender() {}, terminal: { rows } };
+				const component = await factory(tui, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(80).join("\n"));
+						continue;
+					}
+					if (key === "<resize>") {
+						tui.terminal.rows = 60;
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	const longDescription = Array.from({ length: 20 }, (_value, index) => `Paragraph ${index + 1}.`).join("\n\n");
+	const manyOptions = Array.from({ length: 15 }, (_value, index) => ({ label: `Option ${index + 1}` }));
+
+	it("keeps the cursor option on screen and reports hidden options", async () => {
+		const screens: string[] = [];
+		const downKeys = Array.from({ length: 12 }, () => "\u001b[B");
+		const result = await askQuestionsWithTabs(
+			runKeysInTerminal(18, ["<snapshot>", ...downKeys, "<snapshot>", "\r", "\r"], screens),
+			[{ id: "pick", question: "Pick one", options: manyOptions }],
+		);
+
+		for (const screen of screens) expect(screen.split("\n").length).toBeLessThanOrEqual(15);
+		expect(screens[0]).toContain("→ ○ Option 1");
+		expect(screens[0]).toMatch(/↓ \d+ more/);
+		expect(screens[1]).toContain("Pick one");
+		expect(screens[1]).toContain("→ ○ Option 13");
+		expect(screens[1]).not.toContain("Option 1\n");
+		expect(screens[1]).toMatch(/↑ \d+ more/);
+		expect(result.selections).toEqual([
+			{ selectedOptions: ["Option 13"], selectedOptionRecords: [optionRecord("Option 13", 12)] },
+		]);
+	});
+
+	it("scrolls long descriptions with PageUp and PageDown and re-renders on resize", async () => {
+		const screens: string[] = [];
+		await askQuestionsWithTabs(
+			runKeysInTerminal(
+				20,
+				["<snapshot>", "\u001b[6~", "<snapshot>", "\u001b[5~", "<snapshot>", "<resize>", "<snapshot>", "\u001b"],
+				screens,
+			),
+			[{ id: "pick", question: "Pick one", description: longDescription, options: [{ label: "A" }, { label: "B" }] }],
+		);
+
+		expect(screens[0]).toContain("Paragraph 1.");
+		expect(screens[0]).toContain("PgUp/PgDn scroll");
+		expect(screens[0]).toContain("→ ○ A");
+		expect(screens[1]).not.toContain("Paragraph 1.");
+		expect(screens[1]).toMatch(/↑ \d+ more \/ ↓ \d+ more lines/);
+		expect(screens[1]).toContain("→ ○ A");
+		expect(screens[2]).toEqual(screens[0]);
+		expect(screens[3]).toContain("Paragraph 20.");
+		expect(screens[3]).not.toContain("PgUp/PgDn scroll");
+	});
+});
+
+describe("quick-select keys", () => {
+	function runKeys(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(80).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("selects an option in the single-question picker by its number", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(runKeys(["<snapshot>", "2"], screens), {
+			question: "Which database?",
+			options: [{ label: "Redis" }, { label: "Postgres" }],
+		});
+
+		expect(screens[0]).toContain("1 → ● Redis");
+		expect(screens[0]).toContain("2   ○ Postgres");
+		expect(screens[0]).toContain(`3   ○ ${OTHER_OPTION}`);
+		expect(result).toEqual({ selectedOptions: ["Postgres"], selectedOptionRecords: [optionRecord("Postgres", 1)] });
+	});
+
+	it("opens the note editor for Other and keeps digits inside the note", async () => {
+		const result = await askSingleQuestionWithInlineNote(runKeys(["3", "4", "2", "\r"]), {
+			question: "How many replicas?",
+			options: [{ label: "One" }, { label: "Two" }],
+		});
+
+		expect(result).toEqual({ selectedOptions: [], customInput: "42" });
+	});
+
+	it("toggles multi-select options, uses letters beyond nine and advances single-select tabs", async () => {
+		const screens: string[] = [];
+		const manyOptions = Array.from({ length: 11 }, (_value, index) => ({ label: `Region ${index + 1}` }));
+		const result = await askQuestionsWithTabs(
+			runKeys(["1", "a", "3", "1", "<snapshot>", "\u001b[C", "<snapshot>", "2", "\r"], screens),
+			[
+				{ id: "regions", question: "Regions?", options: manyOptions, multi: true },
+				{ id: "tier", question: "Tier?", options: [{ label: "Free" }, { label: "Pro" }] },
+			],
+		);
+
+		expect(screens[0]).toContain("1 → [ ] Region 1");
+		expect(screens[0]).toContain("a   [x] Region 10");
+		expect(screens[0]).toContain("b   [ ] Region 11");
+		expect(screens[0]).toContain(`c   [ ] ${OTHER_OPTION}`);
+		expect(screens[1]).toContain("2   ○ Pro");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{
+					selectedOptions: ["Region 3", "Region 10"],
+					selectedOptionRecords: [optionRecord("Region 3", 2), optionRecord("Region 10", 9)],
+				},
+				{ selectedOptions: ["Pro"], selectedOptionRecords: [optionRecord("Pro", 1)] },
+			],
+		});
+	});
+
+	it("hides the key hints and types into the query while filtering", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["/", "2", "<snapshot>", "\r", "\r"], screens),
+			[{ id: "version", question: "Version?", options: [{ label: "v1" }, { label: "v2" }, { label: "v3" }] }],
+		);
+
+		expect(screens[0]).toContain("Filter: 2▏ • 1 of 3 match");
+		expect(screens[0]).toContain("  → ○ v2");
+		expect(screens[0]).not.toContain("2 → ○ v2");
+		expect(result.selections).toEqual([{ selectedOptions: ["v2"], selectedOptionRecords: [optionRecord("v2", 1)] }]);
+	});
+});
+
+describe("configurable keybindings", () => {
+	function runKeys(keys: string[], screens: string[] = [], keybindingsManager: unknown = {}): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), keybindingsManager, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(100).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("drives the tab flow with vim keys and shows them in the hints", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["<snapshot>", "j", "j", "k", "\r", "l", "h", "j", "\r", "\r"], screens),
+			[
+				{ id: "auth", question: "Auth?", options: [{ label: "JWT" }, { label: "Session" }, { label: "OAuth" }] },
+				{ id: "cache", question: "Cache?", options: [{ label: "Redis" }, { label: "None" }] },
+			],
+			{ keybindings: { vim: true } },
+		);
+
+		expect(screens[0]).toContain("↑↓ kj move • Enter select • Tab add note • / filter • ←/→ h/l switch tabs • Esc cancel");
+		expect(result.selections).toEqual([
+			{ selectedOptions: ["Session"], selectedOptionRecords: [optionRecord("Session", 1)] },
+			{ selectedOptions: ["None"], selectedOptionRecords: [optionRecord("None", 1)] },
+		]);
+	});
+
+	it("keeps bound letters typeable in text answers and filters and skips them for quick-select", async () => {
+		const screens: string[] = [];
+		const manyOptions = Array.from({ length: 17 }, (_value, index) => ({ label: `Zone ${index + 1}` }));
+		const result = await askQuestionsWithTabs(
+			runKeys(["h", "i", "\t", "\u001b[C", "<snapshot>", "/", "k", "<snapshot>", "\u001b", "i", "\r"], screens),
+			[
+				{ id: "name", question: "Name?", type: "text", options: [] },
+				{ id: "zone", question: "Zone?", options: manyOptions },
+			],
+			{ keybindings: { vim: true } },
+		);
+
+		expect(screens[0]).toContain("i   ○ Zone 17");
+		expect(screens[0]).toContain(`m   ○ ${OTHER_OPTION}`);
+		expect(screens[1]).toContain("Filter: k▏ • no matches");
+		expect(screens[1]).toContain("Type to filter • ↑↓ move");
+		expect(result.selections).toEqual([
+			{ selectedOptions: [], customInput: "hi" },
+			{ selectedOptions: ["Zone 17"], selectedOptionRecords: [optionRecord("Zone 17", 16)] },
+		]);
+	});
+
+	it("applies per-action overrides to the single-question picker", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeys(["\t", "<snapshot>", "n", "n", "o", "<snapshot>", "\u001b", "\r"], screens),
+			{ question: "Which database?", options: [{ label: "Redis" }, { label: "Postgres" }] },
+			{ keybindings: { bindings: { note: ["n"] } } },
+		);
+
+		expect(screens[0]).toContain("↑↓ move • Enter submit • n add note • / filter • Esc cancel");
+		expect(screens[1]).toContain("Typing note inline • Enter submit • Esc stop editing");
+		expect(result).toEqual({
+			selectedOptions: ["Redis - no"],
+			customInput: undefined,
+			selectedOptionRecords: [{ ...optionRecord("Redis", 0), note: "no" }],
+		});
+	});
+
+	it("applies cancel overrides to the free-text question and keeps bound letters typeable", async () => {
+		const screens: string[] = [];
+		const keybindings = { bindings: { cancel: ["q", "ctrl+q"] } };
+		const answered = await askSingleTextQuestion(
+			runKeys(["q", "<snapshot>", "\u001b", "\r"], screens),
+			{ question: "Why?" },
+			{ keybindings },
+		);
+		const cancelled = await askSingleTextQuestion(runKeys(["a", "\u0011", "\r"]), { question: "Why?" }, { keybindings });
+
+		expect(screens[0]).toContain("Enter submit • Shift+Enter new line • Ctrl+Q cancel");
+		expect(answered).toEqual({ selectedOptions: [], customInput: "q" });
+		expect(cancelled).toEqual({ selectedOptions: [] });
+	});
+
+	it("follows pi's select keybindings", async () => {
+		const keybindingsManager = {
+			getEffectiveConfig: () => ({ selectUp: ["ctrl+p"], selectDown: ["ctrl+n"], selectConfirm: ["ctrl+y"] }),
+		};
+		const result = await askSingleQuestionWithInlineNote(runKeys(["\u000e", "\u000e", "\u0010", "\r", "\u0019"], [], keybindingsManager), {
+			question: "Which database?",
+			options: [{ label: "Redis" }, { label: "Postgres" }, { label: "SQLite" }],
+		});
+
+		expect(result).toEqual({ selectedOptions: ["Postgres"], selectedOptionRecords: [optionRecord("Postgres", 1)] });
+	});
+});
+
+describe("multi-line notes", () => {
+	function runKeys(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(80).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("expands the inline note editor with Ctrl+O and keeps new lines in the note", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeys(["\t", "<snapshot>", "\u000f", "<snapshot>", "a", "\n", "b", "<snapshot>", "\r"], screens),
+			{
+				question: "Which database?",
+				options: [{ label: "Redis" }, { label: "Postgres" }],
+			},
+		);
+
+		expect(screens[0]).toContain("Typing note inline • Enter submit • Tab/Esc stop editing • Ctrl+O expand");
+		expect(screens[1]).toContain("Note on Redis (1 line):");
+		expect(screens[1]).toContain("Editing note • Enter submit • Shift+Enter new line • Ctrl+O collapse");
+		expect(screens[2]).toContain("Note on Redis (2 lines):");
+		expect(screens[2]).toContain("   a");
+		expect(result).toEqual({
+			selectedOptions: ["Redis - a\nb"],
+			selectedOptionRecords: [{ ...optionRecord("Redis", 0), note: "a\nb" }],
+		});
+	});
+
+	it("shows a collapsed preview of multi-line notes and reopens them expanded in the tab flow", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["\t", "x", "\n", "y", "\t", "<snapshot>", "\t", "<snapshot>", "\u000f", "<snapshot>", "\u001b", "\r", "\r"], screens),
+			[{ id: "cache", question: "Cache?", options: [{ label: "Redis" }, { label: "None" }] }],
+		);
+
+		expect(screens[0]).toContain("Redis — note (2 lines): x");
+		expect(screens[1]).toContain("Note on Redis (2 lines):");
+		expect(screens[1]).toContain("Enter save note • Shift+Enter new line • Ctrl+O collapse");
+		expect(screens[2]).not.toContain("Note on Redis");
+		expect(screens[2]).toContain("Typing note inline • Enter save note • Tab/Esc stop editing • Ctrl+O expand");
+		expect(result.selections).toEqual([
+			{
+				selectedOptions: ["Redis - x\ny"],
+				selectedOptionRecords: [{ ...optionRecord("Redis", 0), note: "x\ny" }],
+			},
+		]);
+	});
+
+	it("does not offer the expanded editor for free-text answers", async () => {
+		const screens: string[] = [];
+		await askQuestionsWithTabs(runKeys(["h", "\u000f", "<snapshot>", "\u001b", "\u001b"], screens), [
+			{ id: "notes", question: "Notes?", type: "text", options: [] },
+		]);
+
+		expect(screens[0]).not.toContain("Note on");
+	});
+});
+
+describe("external note editor", () => {
+	const originalVisual = process.env.VISUAL;
+
+	afterEach(() => {
+		if (originalVisual == null) delete process.env.VISUAL;
+		else process.env.VISUAL = originalVisual;
+	});
+
+	function useStubEditor(script: string) {
+		const editorPath = join(mkdtempSync(join(tmpdir(), "ask-editor-")), "editor.sh");
+		writeFileSync(editorPath, `#!/bin/sh\n${script}\n`);
+		chmodSync(editorPath, 0o755);
+		process.env.VISUAL = editorPath;
+	}
+
+	function runKeys(keys: string[], screens: string[] = [], tuiCalls: string[] = []): ExtensionUIContext {
+		const tui = {
+			stop: () => tuiCalls.push("stop"),
+			start: () => tuiCalls.push("start"),
+			requestRender() {},
+		};
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory(tui, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(120).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("edits the Other answer in $VISUAL and submits it from the inline picker", async () => {
+		useStubEditor('printf "long answer\\nwith details\\n" > "$1"');
+		const screens: string[] = [];
+		const tuiCalls: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeys(["3", "<snapshot>", "\u0007", "<snapshot>", "\r"], screens, tuiCalls),
+			{ question: "Which database?", options: [{ label: "Redis" }, { label: "Postgres" }] },
+		);
+
+		expect(screens[0]).toContain("Ctrl+O expand • Ctrl+G external editor");
+		expect(screens[1]).toContain("Note on Other (type your own) (2 lines):");
+		expect(tuiCalls).toEqual(["stop", "start"]);
+		expect(result).toEqual({ selectedOptions: [], customInput: "long answer\nwith details" });
+	});
+
+	it("writes the edited note back into the tab flow", async () => {
+		useStubEditor('printf "from editor" > "$1"');
+		const result = await askQuestionsWithTabs(runKeys(["\u0007", "\r", "\r"]), [
+			{ id: "cache", question: "Cache?", options: [{ label: "Redis" }, { label: "None" }] },
+		]);
+
+		expect(result.selections).toEqual([
+			{ selectedOptions: ["Redis - from editor"], selectedOptionRecords: [optionRecord("Redis", 0, "from editor")] },
+		]);
+	});
+
+	it("keeps the note and shows the failure when the editor exits with an error", async () => {
+		useStubEditor('printf "discarded" > "$1"; exit 2');
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["\t", "k", "e", "e", "p", "\u0007", "<snapshot>", "\r", "\r"], screens),
+			[{ id: "cache", question: "Cache?", options: [{ label: "Redis" }, { label: "None" }] }],
+		);
+
+		expect(screens[0]).toContain("Editor exited with code 2; note unchanged");
+		expect(screens[0]).toContain("Redis — note: keep");
+		expect(result.selections).toEqual([
+			{ selectedOptions: ["Redis - keep"], selectedOptionRecords: [optionRecord("Redis", 0, "keep")] },
+		]);
+	});
+});
+
+describe("localized UI", () => {
+	function runKeys(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(120).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("renders Korean labels and hints in the tab flow and keeps results canonical", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["<snapshot>", "\r", "\u001b[B", "\u001b[B", "\r", "s", "s", "o", "\r", "<snapshot>", "\r"], screens),
+			[
+				{ id: "auth", question: "Auth?", options: [{ label: "JWT" }, { label: "Session" }], recommended: 0 },
+				{ id: "sso", question: "SSO?", options: [{ label: "None" }, { label: "Okta" }] },
+			],
+			{ locale: "ko" },
+		);
+
+		expect(screens[0]).toContain("JWT (추천)");
+		expect(screens[0]).toContain("기타 (직접 입력)");
+		expect(screens[0]).toContain("✓ 제출");
+		expect(screens[0]).toContain("↑↓ 이동 • Enter 선택 • Tab 메모 추가 • / 필터 • ←/→ 탭 전환 • Esc 취소");
+		expect(screens[1]).toContain("답변 검토");
+		expect(screens[1]).toContain("sso: 기타: sso");
+		expect(result.selections).toEqual([
+			{ selectedOptions: ["JWT"], selectedOptionRecords: [optionRecord("JWT", 0)] },
+			{ selectedOptions: [], customInput: "sso" },
+		]);
+	});
+
+	it("renders selection limits and number constraints in the UI locale", async () => {
+		const screens: string[] = [];
+		await askQuestionsWithTabs(
+			runKeys(["<snapshot>", "\u001b[C", "<snapshot>", "\u001b"], screens),
+			[
+				{
+					id: "features",
+					question: "Features?",
+					options: [{ label: "A" }, { label: "B" }, { label: "C" }],
+					multi: true,
+					minSelect: 2,
+					maxSelect: 3,
+				},
+				{ id: "retries", question: "Retries?", type: "number", options: [], min: 1, max: 10, step: 2 },
+			],
+			{ locale: "ko" },
+		);
+
+		expect(screens[0]).toContain("2~3개 선택 • 0개 선택됨");
+		expect(screens[1]).toContain("허용 범위: 1~10, 2 단위");
+	});
+
+	it("returns the canonical Other answer from the Japanese single-question picker", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeys(["3", "<snapshot>", "x", "\r"], screens),
+			{ question: "Which database?", options: [{ label: "Redis" }, { label: "Postgres" }] },
+			{ locale: "ja" },
+		);
+
+		expect(screens[0]).toContain("その他 (自由入力)");
+		expect(screens[0]).toContain("メモを入力中 • Enter 送信");
+		expect(result).toEqual({ selectedOptions: [], customInput: "x" });
+	});
+
+	it("localizes the free-text hints", async () => {
+		const screens: string[] = [];
+		await askSingleTextQuestion(runKeys(["<snapshot>", "\u001b"], screens), { question: "Why?" }, { locale: "ja" });
+
+		expect(screens[0]).toContain("Enter 送信 • Shift+Enter 改行 • Esc キャンセル");
+	});
+
+	it("localizes the answer length counter", async () => {
+		const screens: string[] = [];
+		await askSingleTextQuestion(
+			runKeys(["a", "b", "<snapshot>", "\u001b"], screens),
+			{ question: "Why?", maxLength: 10 },
+			{ locale: "ko" },
+		);
+
+		expect(screens[0]).toContain("2/10자");
+	});
+});
+
+describe("Other option control", () => {
+	function runKeys(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(120).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("hides Other in the inline picker for closed choices", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeys(["<snapshot>", "\u001b[B", "\u001b[B", "\r"], screens),
+			{ question: "Ship it?", options: [{ label: "Approve" }, { label: "Reject" }], allowOther: false },
+		);
+
+		expect(screens[0]).not.toContain(OTHER_OPTION);
+		expect(result).toEqual({ selectedOptions: ["Reject"], selectedOptionRecords: [optionRecord("Reject", 1)] });
+	});
+
+	it("submits a closed-choice option whose label matches the default Other label as a regular answer", async () => {
+		const result = await askSingleQuestionWithInlineNote(runKeys(["\r"]), {
+			question: "Pick",
+			options: [{ label: OTHER_OPTION }],
+			allowOther: false,
+		});
+
+		expect(result).toEqual({ selectedOptions: [OTHER_OPTION], selectedOptionRecords: [optionRecord(OTHER_OPTION, 0)] });
+	});
+
+	it("reports the chosen option in the inline picker when labels repeat or match the Other label", async () => {
+		const duplicateResult = await askSingleQuestionWithInlineNote(runKeys(["\u001b[B", "\r"]), {
+			question: "Which region?",
+			options: [
+				{ label: "Europe", value: "eu-west" },
+				{ label: "Europe", value: "eu-central" },
+			],
+		});
+		const otherLabelResult = await askSingleQuestionWithInlineNote(runKeys(["\r"]), {
+			question: "Which runtime?",
+			options: [{ label: "Something else", value: "custom-runtime" }],
+			otherLabel: "Something else",
+		});
+
+		expect(duplicateResult).toEqual({
+			selectedOptions: ["Europe"],
+			selectedOptionRecords: [{ value: "eu-central", label: "Europe", index: 1 }],
+		});
+		expect(otherLabelResult).toEqual({
+			selectedOptions: ["Something else"],
+			selectedOptionRecords: [{ value: "custom-runtime", label: "Something else", index: 0 }],
+		});
+	});
+
+	it("shows the custom Other label and placeholder in the inline picker", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeys(["2", "<snapshot>", "v", "2", "\r"], screens),
+			{
+				question: "Which version?",
+				options: [{ label: "v1" }],
+				otherLabel: "Pin a version",
+				otherPlaceholder: "e.g. v1.4.2",
+			},
+		);
+
+		expect(screens[0]).toContain("Pin a version — note:");
+		expect(screens[0]).toContain("e.g. v1.4.2");
+		expect(result).toEqual({ selectedOptions: [], customInput: "v2" });
+	});
+
+	it("skips the Other text requirement in the tab flow when Other is disabled", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["<snapshot>", "\u001b[B", "\r", "\r", "\u001b[C", "\r"], screens),
+			[
+				{ id: "ship", question: "Ship it?", options: [{ label: "Approve" }, { label: "Reject" }], allowOther: false },
+				{ id: "why", question: "Why?", options: [{ label: "Tests pass" }], multi: true, allowOther: false },
+			],
+		);
+
+		expect(screens[0]).not.toContain(OTHER_OPTION);
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: ["Reject"], selectedOptionRecords: [optionRecord("Reject", 1)] },
+				{ selectedOptions: ["Tests pass"], selectedOptionRecords: [optionRecord("Tests pass", 0)] },
+			],
+		});
+	});
+
+	it("ignores Enter in the inline picker when the filter matches nothing and Other is disabled", async () => {
+		const screens: string[] = [];
+		const result = await askSingleQuestionWithInlineNote(
+			runKeys(["\u001b[B", "/", "z", "\r", "<snapshot>", "\x7f", "\r"], screens),
+			{ question: "Ship it?", options: [{ label: "Approve" }, { label: "Reject" }], allowOther: false },
+		);
+
+		expect(screens[0]).toContain("Filter: z▏ • no matches");
+		expect(result).toEqual({ selectedOptions: ["Reject"], selectedOptionRecords: [optionRecord("Reject", 1)] });
+	});
+
+	it("ignores Enter in the tab flow when the filter matches nothing and Other is disabled", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["\u001b[B", "/", "z", "\r", "<snapshot>", "\u001b", "\r", "\r"], screens),
+			[{ id: "ship", question: "Ship it?", options: [{ label: "Approve" }, { label: "Reject" }], allowOther: false }],
+		);
+
+		expect(screens[0]).toContain("Filter: z▏ • no matches");
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [{ selectedOptions: ["Reject"], selectedOptionRecords: [optionRecord("Reject", 1)] }],
+		});
+	});
+
+	it("uses the custom Other label and placeholder in the tab flow", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["2", "<snapshot>", "b", "u", "n", "\r", "\r"], screens),
+			[
+				{
+					id: "runtime",
+					question: "Runtime?",
+					options: [{ label: "Node" }],
+					otherLabel: "Something else",
+					otherPlaceholder: "name the runtime",
+				},
+			],
+		);
+
+		expect(screens[0]).toContain("Something else — note:");
+		expect(screens[0]).toContain("name the runtime");
+		expect(result).toEqual({ cancelled: false, selections: [{ selectedOptions: [], customInput: "bun" }] });
+	});
+});
+
+describe("optional questions", () => {
+	function runKeys(keys: string[], screens: string[] = []): ExtensionUIContext {
+		return {
+			custom: async (factory: any) => {
+				let result: any;
+				const component = await factory({ requestRender() {} }, createFakeTheme(), {}, (value: any) => {
+					result = value;
+				});
+				for (const key of keys) {
+					if (key === "<snapshot>") {
+						screens.push(component.render(120).join("\n"));
+						continue;
+					}
+					component.handleInput(key);
+				}
+				return result;
+			},
+		} as unknown as ExtensionUIContext;
+	}
+
+	it("skips an optional question with the skip key and reports it in the review", async () => {
+		const screens: string[] = [];
+		const result = await askQuestionsWithTabs(
+			runKeys(["<snapshot>", "\u0013", "\r", "<snapshot>", "\r"], screens),
+			[
+				{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }], required: false },
+				{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }] },
+			],
+		);
+
+		expect(screens[0]).toContain("Ctrl+S skip");
+		expect(screens[1]).toContain("– cache: (skipped)");
+		expect(screens[1]).toContain("Press Enter to submit");
+		expect(result.selections).toEqual([
+			{ selectedOptions: [], skipped: true },
+			{ selectedOptions: ["JWT"], selectedOptionRecords: [optionRecord("JWT", 0)] },
+		]);
+	});
+
+	it("clears an earlier answer when an optional question is skipped", async () => {
+		const result = await askQuestionsWithTabs(
+			runKeys(["\r", "\u0013", "\u0013", "\r"]),
+			[
+				{ id: "tags", question: "Tags?", options: [{ label: "api" }], multi: true, required: false },
+				{ id: "notes", question: "Notes?", type: "text", options: [], required: false },
+			],
+		);
+
+		expect(result).toEqual({
+			cancelled: false,
+			selections: [
+				{ selectedOptions: [], skipped: true },
+				{ selectedOptions: [], skipped: true },
+			],
+		});
+	});
+
+	it("ignores the skip key on required questions", async () => {
+		const screens: string[] = [];
+		await askQuestionsWithTabs(runKeys(["\u0013", "<snapshot>", "\u001b"], screens), [
+			{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }] },
+			{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }] },
+		]);
+
+		expect(screens[0]).not.toContain("skip");
+		expect(screens[0]).toContain("Which auth?");
+	});
+
+	it("reports an unanswered optional question that timed out as timed out", async () => {
+		jest.useFakeTimers();
+		try {
+			const ui = {
+				custom: (factory: any) =>
+					new Promise((resolve) => {
+						factory({ requestRender() {} }, createFakeTheme(), {}, resolve);
+						jest.advanceTimersByTime(1000);
+					}),
+			} as unknown as ExtensionUIContext;
+
+			const result = await askQuestionsWithTabs(ui, [
+				{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }], required: false, timeoutSeconds: 1 },
+			]);
+
+			expect(result.selections).toEqual([{ selectedOptions: [], timedOut: true }]);
+		} finally {
+			jest.useRealTimers();
+		}
 	});
 });
@@ -1,6 +1,6 @@
 import { describe, expect, it } from "bun:test";
 import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
-import { OTHER_OPTION, type AskQuestion } from "../src/ask-logic";
+import type { AskQuestion } from "../src/ask-logic";
 import { askSingleQuestionWithInlineNote } from "../src/ask-inline-ui";
 import { askQuestionsWithTabs, formatSelectionForSubmitReview } from "../src/ask-tabs-ui";
 
@@ -29,7 +29,7 @@ describe("askSingleQuestionWithInlineNote", () => {
 	it("combines selected option with note", async () => {
 		const ui = uiWithCustomResult({
 			cancelled: false,
-			selectedOption: "Session auth (Recommended)",
+			selectedOptionIndex: 1,
 			note: "split-session",
 		});
 
@@ -39,13 +39,16 @@ describe("askSingleQuestionWithInlineNote", () => {
 			recommended: 1,
 		});
 
-		expect(result).toEqual({ selectedOptions: ["Session auth - split-session"] });
+		expect(result).toEqual({
+			selectedOptions: ["Session auth - split-session"],
+			selectedOptionRecords: [{ value: "Session auth", label: "Session auth", index: 1, note: "split-session" }],
+		});
 	});
 
 	it("maps Other + note to customInput", async () => {
 		const ui = uiWithCustomResult({
 			cancelled: false,
-			selectedOption: OTHER_OPTION,
+			selectedOptionIndex: 1,
 			note: "custom-auth-flow",
 		});
 
@@ -148,7 +151,13 @@ describe("askQuestionsWithTabs", () => {
 
 		expect(result).toEqual({
 			cancelled: false,
-			selections: [{ selectedOptions: ["Session - split"] }, { selectedOptions: ["Redis"] }],
+			selections: [
+				{
+					selectedOptions: ["Session - split"],
+					selectedOptionRecords: [{ value: "Session", label: "Session", index: 1, note: "split" }],
+				},
+				{ selectedOptions: ["Redis"], selectedOptionRecords: [{ value: "Redis", label: "Redis", index: 0 }] },
+			],
 		});
 	});
 
@@ -178,8 +187,15 @@ describe("askQuestionsWithTabs", () => {
 		expect(result).toEqual({
 			cancelled: false,
 			selections: [
-				{ selectedOptions: ["JWT"], customInput: "org-sso" },
-				{ selectedOptions: ["None - local"] },
+				{
+					selectedOptions: ["JWT"],
+					selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }],
+					customInput: "org-sso",
+				},
+				{
+					selectedOptions: ["None - local"],
+					selectedOptionRecords: [{ value: "None", label: "None", index: 1, note: "local" }],
+				},
 			],
 		});
 	});
@@ -204,11 +220,43 @@ describe("askQuestionsWithTabs", () => {
 
 		expect(result).toEqual({
 			cancelled: false,
-			selections: [{ selectedOptions: ["Session - stateful"] }],
+			selections: [
+				{
+					selectedOptions: ["Session - stateful"],
+					selectedOptionRecords: [{ value: "Session", label: "Session", index: 1, note: "stateful" }],
+				},
+			],
+		});
+	});
+
+	it("reports stable option values alongside labels in selection records", async () => {
+		const questions: AskQuestion[] = [
+			{
+				id: "auth",
+				question: "Which auth methods?",
+				options: [
+					{ label: "JSON Web Tokens", value: "jwt" },
+					{ label: "Server sessions", value: "session" },
+				],
+				multi: true,
+			},
+		];
+
+		const ui = uiWithCustomResult({
+			cancelled: false,
+			selectedOptionIndexesByQuestion: [[0, 1]],
+			noteByQuestionByOption: [["", "sticky"]],
 		});
+
+		const result = await askQuestionsWithTabs(ui, questions);
+
+		expect(result.selections[0].selectedOptionRecords).toEqual([
+			{ value: "jwt", label: "JSON Web Tokens", index: 0 },
+			{ value: "session", label: "Server sessions", index: 1, note: "sticky" },
+		]);
 	});
 
-	it("returns empty selections when tab flow is cancelled", async () => {
+	it("keeps answered selections when tab flow is cancelled", async () => {
 		const questions: AskQuestion[] = [
 			{
 				id: "auth",
@@ -227,10 +275,40 @@ describe("askQuestionsWithTabs", () => {
 			cancelled: true,
 			selectedOptionIndexesByQuestion: [[0, 2], [1]],
 			noteByQuestionByOption: [["", "", "org-sso"], ["", "local"]],
+			editedByQuestion: [true, true],
 		});
 
 		const result = await askQuestionsWithTabs(ui, questions);
 
+		expect(result).toEqual({
+			cancelled: true,
+			selections: [
+				{
+					selectedOptions: ["JWT"],
+					customInput: "org-sso",
+					selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }],
+				},
+				{
+					selectedOptions: ["None - local"],
+					selectedOptionRecords: [{ value: "None", label: "None", index: 1, note: "local" }],
+				},
+			],
+		});
+	});
+
+	it("drops selections that were not valid when the tab flow was cancelled", async () => {
+		const ui = uiWithCustomResult({
+			cancelled: true,
+			selectedOptionIndexesByQuestion: [[0], []],
+			noteByQuestionByOption: [[""], []],
+			editedByQuestion: [true, false],
+		});
+
+		const result = await askQuestionsWithTabs(ui, [
+			{ id: "auth", question: "Which auth methods?", options: [{ label: "JWT" }, { label: "Session" }], multi: true, minSelect: 2 },
+			{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }, { label: "None" }] },
+		]);
+
 		expect(result).toEqual({
 			cancelled: true,
 			selections: [{ selectedOptions: [] }, { selectedOptions: [] }],
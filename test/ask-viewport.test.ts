@@ -0,0 +1,135 @@
+import { describe, expect, it } from "bun:test";
+import { getAskMessages } from "../src/ask-messages";
+import {
+	formatHiddenLinesIndicator,
+	layoutViewport,
+	resolveViewportHeight,
+	selectOptionWindow,
+	type ViewportSections,
+} from "../src/ask-viewport";
+
+function createSections(overrides: Partial<ViewportSections> = {}): ViewportSections {
+	return {
+		top: ["question"],
+		description: [],
+		middle: [""],
+		options: [],
+		cursorOptionPosition: 0,
+		bottom: ["hints"],
+		...overrides,
+	};
+}
+
+const identity = (text: string) => text;
+
+describe("resolveViewportHeight", () => {
+	it("reserves rows for the editor chrome and enforces a minimum", () => {
+		expect(resolveViewportHeight(40)).toBe(37);
+		expect(resolveViewportHeight(5)).toBe(8);
+	});
+
+	it("returns undefined when the terminal height is unknown", () => {
+		expect(resolveViewportHeight(undefined)).toBeUndefined();
+		expect(resolveViewportHeight(0)).toBeUndefined();
+		expect(resolveViewportHeight(Number.NaN)).toBeUndefined();
+	});
+});
+
+describe("formatHiddenLinesIndicator", () => {
+	it("describes hidden lines above and below", () => {
+		expect(formatHiddenLinesIndicator(3, 5)).toBe("↑ 3 more / ↓ 5 more");
+		expect(formatHiddenLinesIndicator(0, 2)).toBe("↓ 2 more");
+		expect(formatHiddenLinesIndicator(4, 0)).toBe("↑ 4 more");
+		expect(formatHiddenLinesIndicator(0, 0)).toBe("");
+	});
+
+	it("uses the UI locale", () => {
+		expect(formatHiddenLinesIndicator(3, 5, getAskMessages("ko"))).toBe("↑ 3개 더 / ↓ 5개 더");
+	});
+});
+
+describe("selectOptionWindow", () => {
+	it("returns every option when they fit", () => {
+		expect(selectOptionWindow([1, 1, 1], 1, 3)).toEqual({ start: 0, end: 3 });
+	});
+
+	it("keeps the cursor option inside the window and leaves room for the indicator", () => {
+		expect(selectOptionWindow([1, 1, 1, 1, 1, 1, 1, 1], 6, 4)).toEqual({ start: 5, end: 8 });
+		expect(selectOptionWindow([1, 1, 1, 1, 1, 1, 1, 1], 0, 4)).toEqual({ start: 0, end: 3 });
+	});
+
+	it("accounts for options that wrap over several lines", () => {
+		expect(selectOptionWindow([2, 3, 1, 1], 1, 5)).toEqual({ start: 1, end: 3 });
+		expect(selectOptionWindow([2, 3, 1, 1], 1, 4)).toEqual({ start: 1, end: 2 });
+	});
+
+	it("handles empty option lists", () => {
+		expect(selectOptionWindow([], 0, 5)).toEqual({ start: 0, end: 0 });
+	});
+});
+
+describe("layoutViewport", () => {
+	it("returns every line unchanged when the content fits or the height is unknown", () => {
+		const sections = createSections({ description: ["d1", "d2"], options: [["o1"], ["o2"]] });
+		const expectedLines = ["question", "d1", "d2", "", "o1", "o2", "hints"];
+
+		expect(layoutViewport(sections, 20, 0, identity).lines).toEqual(expectedLines);
+		expect(layoutViewport(sections, undefined, 5, identity)).toEqual({
+			lines: expectedLines,
+			descriptionScrollOffset: 0,
+			descriptionPageSize: 2,
+		});
+	});
+
+	it("windows the options around the cursor and reports hidden options", () => {
+		const options = Array.from({ length: 10 }, (_value, index) => [`o${index}`]);
+		const layout = layoutViewport(createSections({ options, cursorOptionPosition: 7 }), 8, 0, identity);
+
+		expect(layout.lines).toEqual(["question", "", "o6", "o7", "o8", "o9", "  ↑ 6 more", "hints"]);
+	});
+
+	it("scrolls a long description while keeping the options visible", () => {
+		const description = Array.from({ length: 12 }, (_value, index) => `d${index}`);
+		const sections = createSections({ description, options: [["o1"], ["o2"]] });
+
+		const firstPage = layoutViewport(sections, 9, 0, identity);
+		expect(firstPage.lines).toEqual([
+			"question",
+			"d0",
+			"d1",
+			"d2",
+			" ↓ 9 more lines • PgUp/PgDn scroll",
+			"",
+			"o1",
+			"o2",
+			"hints",
+		]);
+		expect(firstPage.descriptionPageSize).toBe(3);
+
+		const scrolled = layoutViewport(sections, 9, 4, identity);
+		expect(scrolled.lines.slice(1, 5)).toEqual(["d4", "d5", "d6", " ↑ 4 more / ↓ 5 more lines • PgUp/PgDn scroll"]);
+
+		const clamped = layoutViewport(sections, 9, 100, identity);
+		expect(clamped.descriptionScrollOffset).toBe(9);
+		expect(clamped.lines.slice(1, 5)).toEqual(["d9", "d10", "d11", " ↑ 9 more lines • PgUp/PgDn scroll"]);
+	});
+
+	it("keeps a minimum description page when many options compete for space", () => {
+		const description = Array.from({ length: 6 }, (_value, index) => `d${index}`);
+		const options = Array.from({ length: 10 }, (_value, index) => [`o${index}`]);
+		const layout = layoutViewport(createSections({ description, options }), 10, 0, (text) => `<${text}>`);
+
+		expect(layout.lines).toEqual([
+			"question",
+			"d0",
+			"d1",
+			"< ↓ 4 more lines • PgUp/PgDn scroll>",
+			"",
+			"o0",
+			"o1",
+			"o2",
+			"<  ↓ 7 more>",
+			"hints",
+		]);
+	});
+});
@@ -1,16 +1,29 @@
-import { describe, expect, it } from "bun:test";
-import type { ExtensionAPI, ExtensionUIContext, ToolDefinition } from "@mariozechner/pi-coding-agent";
+import { afterEach, describe, expect, it } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type {
+	ExtensionAPI,
+	ExtensionUIContext,
+	RegisteredCommand,
+	ToolDefinition,
+} from "@mariozechner/pi-coding-agent";
 import { OTHER_OPTION } from "../src/ask-logic";
 import askExtension from "../src/index";
 
 type AskTool = ToolDefinition<any, any>;
 
+const registeredCommands = new Map<string, Omit<RegisteredCommand, "name">>();
+
 function createAskTool(): AskTool {
 	let registered: AskTool | undefined;
 	const pi = {
 		registerTool(tool: AskTool) {
 			registered = tool;
 		},
+		registerCommand(name: string, options: Omit<RegisteredCommand, "name">) {
+			registeredCommands.set(name, options);
+		},
 	} as unknown as ExtensionAPI;
 
 	askExtension(pi);
@@ -39,6 +52,16 @@ describe("ask extension tool", () => {
 		expect(tool.label).toBe("Ask");
 	});
 
+	it("registers the /ask-history command", async () => {
+		createAskTool();
+		const command = registeredCommands.get("ask-history");
+		const notifications: string[] = [];
+		await command?.handler("", { hasUI: false, ui: { notify: (message: string) => notifications.push(message) } } as any);
+
+		expect(command?.description).toContain("revise");
+		expect(notifications).toEqual(["/ask-history requires interactive mode"]);
+	});
+
 	it("returns error when UI is unavailable", async () => {
 		const tool = createAskTool();
 		const result = await tool.execute(
@@ -53,6 +76,1105 @@ describe("ask extension tool", () => {
 		expect(getTextContent(result)).toContain("requires interactive mode");
 	});
 
+	describe("headless fallback", () => {
+		const questions = [
+			{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }, { label: "Session" }], recommended: 1 },
+			{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }, { label: "None" }] },
+		];
+
+		afterEach(() => {
+			delete process.env.PI_ASK_HEADLESS;
+			delete process.env.PI_ASK_ANSWERS_FILE;
+		});
+
+		it("auto-resolves recommended answers and marks them in details and context", async () => {
+			process.env.PI_ASK_HEADLESS = "recommended";
+			const tool = createAskTool();
+			const result = await tool.execute("call-h1", { questions }, undefined, undefined, {
+				hasUI: false,
+				cwd: process.cwd(),
+			} as any);
+
+			const text = getTextContent(result);
+			expect(text).toContain("User answers:\nauth: Session (auto-resolved)\ncache: Redis (auto-resolved)");
+			expect(text).toContain("Auto-resolved: recommended (no interactive UI; not answered by a human)");
+			expect(text).toContain("Auto-resolved: first (no interactive UI; not answered by a human)");
+			expect(result.details?.results).toEqual([
+				{
+					id: "auth",
+					question: "Which auth?",
+					options: ["JWT", "Session"],
+					multi: false,
+					status: "answered",
+					selectedOptions: ["Session"],
+					selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }],
+					customInput: undefined,
+					autoResolved: "recommended",
+				},
+				{
+					id: "cache",
+					question: "Which cache?",
+					options: ["Redis", "None"],
+					multi: false,
+					status: "answered",
+					selectedOptions: ["Redis"],
+					selectedOptionRecords: [{ value: "Redis", label: "Redis", index: 0 }],
+					customInput: undefined,
+					autoResolved: "first",
+				},
+			]);
+		});
+
+		it("reads answers file relative to cwd and keeps single-question details shape", async () => {
+			const directory = mkdtempSync(join(tmpdir(), "pi-ask-index-"));
+			writeFileSync(join(directory, "answers.json"), '{"auth":"Passkeys"}');
+			process.env.PI_ASK_HEADLESS = "answers";
+			process.env.PI_ASK_ANSWERS_FILE = "answers.json";
+
+			const tool = createAskTool();
+			const result = await tool.execute("call-h2", { questions: [questions[0]] }, undefined, undefined, {
+				hasUI: false,
+				cwd: directory,
+			} as any);
+
+			expect(getTextContent(result)).toContain('User answers:\nauth: "Passkeys" (auto-resolved)');
+			expect(result.details?.customInput).toBe("Passkeys");
+			expect(result.details?.autoResolved).toBe("answers-file");
+			expect(result.details?.results?.[0]?.autoResolved).toBe("answers-file");
+		});
+
+		it("marks questions whose showIf condition is not met as not applicable", async () => {
+			process.env.PI_ASK_HEADLESS = "first";
+			const tool = createAskTool();
+			const result = await tool.execute(
+				"call-h4",
+				{
+					questions: [
+						{ id: "cache", question: "Which cache?", options: [{ label: "None" }, { label: "Redis" }] },
+						{
+							id: "cache_ttl",
+							question: "Cache TTL?",
+							options: [{ label: "1m" }],
+							showIf: { id: "cache", selected: "Redis" },
+						},
+					],
+				},
+				undefined,
+				undefined,
+				{ hasUI: false, cwd: process.cwd() } as any,
+			);
+
+			const text = getTextContent(result);
+			expect(text).toContain("cache_ttl: (not applicable)");
+			expect(result.details?.results?.[1]?.notApplicable).toBe(true);
+			expect(result.details?.results?.[1]?.autoResolved).toBeUndefined();
+		});
+
+		it("returns an error when the answers file cannot be read", async () => {
+			process.env.PI_ASK_HEADLESS = "answers";
+			const directory = mkdtempSync(join(tmpdir(), "pi-ask-index-"));
+
+			const tool = createAskTool();
+			const result = await tool.execute("call-h3", { questions }, undefined, undefined, {
+				hasUI: false,
+				cwd: directory,
+			} as any);
+
+			expect(getTextContent(result)).toContain("Error: could not read ask answers file");
+			expect(getTextContent(result)).toContain(join(directory, ".pi/ask-answers.json"));
+			expect(result.details).toEqual({});
+		});
+	});
+
+	it("returns aborted details without opening UI when the signal is already aborted", async () => {
+		const tool = createAskTool();
+		const controller = new AbortController();
+		controller.abort();
+		const result = await tool.execute(
+			"call-a1",
+			{ questions: [{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }] }] },
+			controller.signal,
+			undefined,
+			{ hasUI: true, ui: uiWithCustomQueue([]) } as any,
+		);
+
+		expect(getTextContent(result)).toBe(
+			"Ask aborted: the request was aborted before the user answered (auth).",
+		);
+		expect(result.details).toEqual({ aborted: true });
+	});
+
+	it("reports aborted instead of cancelled when the signal fires while the UI is open", async () => {
+		const questionSets = [
+			[{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }] }],
+			[{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }], multi: true }],
+			[
+				{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }] },
+				{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }] },
+			],
+		];
+
+		for (const questions of questionSets) {
+			const tool = createAskTool();
+			const controller = new AbortController();
+			const ui = {
+				custom: async () => {
+					controller.abort();
+					return { cancelled: true, selectedOptionIndexesByQuestion: [], noteByQuestionByOption: [] };
+				},
+			} as unknown as ExtensionUIContext;
+
+			const result = await tool.execute("call-a2", { questions }, controller.signal, undefined, {
+				hasUI: true,
+				ui,
+			} as any);
+
+			expect(getTextContent(result)).toContain("Ask aborted");
+			expect(result.details).toEqual({ aborted: true });
+		}
+	});
+
+	it("applies call-level timeoutSeconds and reports timed-out answers", async () => {
+		const tool = createAskTool();
+		let countdownLine = "";
+		const ui = {
+			custom: async (factory: any) => {
+				const theme = { fg: (_color: string, text: string) => text, bg: (_color: string, text: string) => text };
+				const component = factory({ requestRender() {} }, theme, {}, () => {});
+				countdownLine = component.render(80).find((line: string) => line.includes("⏱")) ?? "";
+				component.dispose();
+				return {
+					cancelled: false,
+					selectedOptionIndexesByQuestion: [[1], []],
+					noteByQuestionByOption: [["", "", ""], ["", ""]],
+					timedOutByQuestion: [true, true],
+				};
+			},
+		} as unknown as ExtensionUIContext;
+
+		const result = await tool.execute(
+			"call-t1",
+			{
+				timeoutSeconds: 30,
+				questions: [
+					{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }, { label: "Session" }], recommended: 1 },
+					{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }], timeoutSeconds: 5 },
+				],
+			},
+			undefined,
+			undefined,
+			{ hasUI: true, ui } as any,
+		);
+
+		const text = getTextContent(result);
+		expect(countdownLine).toContain('Auto-selecting "Session" in 30s');
+		expect(text).toContain("User answers:\nauth: Session (timed out)\ncache: (timed out)");
+		expect(text).toContain("Timed out: user did not respond in time; the recommended option was auto-selected");
+		expect(text).toContain("Timed out: user did not respond in time; no answer was recorded");
+		expect(text).toContain("Selected: (timed out)");
+		expect(result.details?.results?.map((entry: any) => entry.timedOut)).toEqual([true, true]);
+	});
+
+	it("reports closed choices and custom Other labels in the summary and context", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-other",
+			{
+				questions: [
+					{ id: "ship", question: "Ship it?", options: [{ label: "Approve" }, { label: "Reject" }], allowOther: false },
+					{
+						id: "runtime",
+						question: "Which runtimes?",
+						options: [{ label: "Node" }, { label: "Deno" }],
+						multi: true,
+						otherLabel: "Something else",
+					},
+					{ id: "region", question: "Region?", options: [{ label: "eu" }], otherLabel: "Another region" },
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{
+						cancelled: false,
+						selectedOptionIndexesByQuestion: [[1], [0, 2], [1]],
+						noteByQuestionByOption: [["", ""], ["", "", "bun"], ["", "ap-south"]],
+					},
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain('User answers:\nship: Reject\nruntime: [Node] + Something else: "bun"\nregion: "ap-south"');
+		expect(text).toContain("Other: not offered (closed choice)");
+		expect(text).toContain("Selected: Another region");
+		expect(result.details?.results?.map((entry: any) => [entry.allowOther, entry.otherLabel])).toEqual([
+			[false, undefined],
+			[undefined, "Something else"],
+			[undefined, "Another region"],
+		]);
+	});
+
+	it("reports skipped optional questions apart from cancelled ones", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-optional",
+			{
+				questions: [
+					{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }], required: false },
+					{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }] },
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{ cancelled: false, selectedOptionIndexesByQuestion: [[], [0]], noteByQuestionByOption: [["", ""], ["", ""]] },
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain("User answers:\ncache: (skipped)\nauth: JWT");
+		expect(text).toContain("Skipped: user chose not to answer this optional question");
+		expect(result.details?.results?.map((entry: any) => entry.status)).toEqual(["skipped", "answered"]);
+	});
+
+	it("asks a single optional choice question in the tab flow so it can be skipped", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-optional-single",
+			{
+				format: "json",
+				questions: [{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }], required: false }],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([{ cancelled: false, selectedOptionIndexesByQuestion: [[]], noteByQuestionByOption: [["", ""]] }]),
+			} as any,
+		);
+
+		expect(JSON.parse(getTextContent(result))).toEqual({ answers: [{ id: "cache", status: "skipped", selected: [] }] });
+		expect(result.details?.status).toBe("skipped");
+		expect(result.details?.required).toBe(false);
+	});
+
+	describe("answer formats", () => {
+		const questions = [
+			{
+				id: "auth",
+				question: "Which auth methods?",
+				options: [
+					{ label: "JSON Web Tokens", value: "jwt" },
+					{ label: "Session", value: "session" },
+				],
+				multi: true,
+			},
+			{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }, { label: "None" }] },
+			{ id: "ttl", question: "TTL?", options: [{ label: "1m" }], showIf: { id: "cache", selected: "Redis" } },
+			{ id: "port", question: "Port?", type: "number", presets: [80, 8080] },
+			{ id: "reason", question: "Why?", type: "text", required: false },
+		];
+		const tabState = {
+			cancelled: false,
+			selectedOptionIndexesByQuestion: [[0, 2], [], [], [1], []],
+			noteByQuestionByOption: [["team\nwide", "", "org-sso"], ["", "", ""], ["", ""], ["", "", ""], []],
+			timedOutByQuestion: [false, true, false, false, false],
+			textAnswerByQuestion: ["", "", "", "", "  "],
+		};
+
+		it("returns a strict JSON document with ids, statuses, values, notes and custom input", async () => {
+			const tool = createAskTool();
+			const result = await tool.execute(
+				"call-f1",
+				{ format: "json", questions },
+				undefined,
+				undefined,
+				{ hasUI: true, ui: uiWithCustomQueue([tabState]) } as any,
+			);
+
+			expect(JSON.parse(getTextContent(result))).toEqual({
+				answers: [
+					{
+						id: "auth",
+						status: "answered",
+						selected: [{ value: "jwt", label: "JSON Web Tokens", note: "team\nwide" }],
+						customInput: "org-sso",
+					},
+					{ id: "cache", status: "timed_out", selected: [], timedOut: true },
+					{ id: "ttl", status: "not_applicable", selected: [] },
+					{ id: "port", status: "answered", selected: [], numberValue: 8080 },
+					{ id: "reason", status: "skipped", selected: [] },
+				],
+			});
+			expect(result.details?.results).toHaveLength(5);
+		});
+
+		it("returns one summary line per question in compact format", async () => {
+			const tool = createAskTool();
+			const result = await tool.execute(
+				"call-f2",
+				{ format: "compact", questions },
+				undefined,
+				undefined,
+				{ hasUI: true, ui: uiWithCustomQueue([tabState]) } as any,
+			);
+
+			expect(getTextContent(result)).toBe(
+				[
+					"User answers:",
+					'auth: [JSON Web Tokens - team wide] + Other: "org-sso"',
+					"cache: (timed out)",
+					"ttl: (not applicable)",
+					"port: 8080",
+					"reason: (skipped)",
+				].join("\n"),
+			);
+		});
+	});
+
+	describe("previous answers", () => {
+		const sessionManager = {
+			getBranch: () => [
+				{
+					type: "message",
+					message: {
+						role: "toolResult",
+						toolName: "ask",
+						isError: false,
+						details: {
+							results: [
+								{
+									id: "auth",
+									selectedOptions: ["Session - split"],
+									selectedOptionRecords: [{ value: "session", label: "Session", index: 1, note: "split" }],
+								},
+							],
+						},
+					},
+				},
+			],
+		};
+		const authQuestion = {
+			id: "auth",
+			question: "Which auth?",
+			options: [
+				{ label: "JWT", value: "jwt" },
+				{ label: "Session", value: "session" },
+			],
+		};
+
+		it("pre-fills the UI from the session branch when an id is asked again", async () => {
+			const tool = createAskTool();
+			let screen = "";
+			const ui = {
+				custom: async (factory: any) => {
+					const theme = { fg: (_color: string, text: string) => text, bg: (_color: string, text: string) => text };
+					const component = factory({ requestRender() {} }, theme, {}, () => {});
+					screen = component.render(80).join("\n");
+					return { cancelled: false, selectedOptionIndex: 1, note: "split" };
+				},
+			} as unknown as ExtensionUIContext;
+
+			const result = await tool.execute("call-p1", { questions: [authQuestion] }, undefined, undefined, {
+				hasUI: true,
+				ui,
+				sessionManager,
+			} as any);
+
+			expect(screen).toContain("↺ Previously answered: Session - split");
+			expect(getTextContent(result)).toContain("User answers:\nauth: Session - split\n");
+			expect(result.details?.reusedPrevious).toBeUndefined();
+		});
+
+		it("returns reusable previous answers without opening the UI", async () => {
+			const tool = createAskTool();
+			const result = await tool.execute(
+				"call-p2",
+				{
+					questions: [
+						{ ...authQuestion, reusePrevious: true },
+						{
+							id: "ttl",
+							question: "Token TTL?",
+							options: [{ label: "1h" }],
+							showIf: { id: "auth", selected: "JWT" },
+						},
+					],
+				},
+				undefined,
+				undefined,
+				{ hasUI: false, ui: uiWithCustomQueue([]), sessionManager } as any,
+			);
+
+			const text = getTextContent(result);
+			expect(text).toContain("User answers:\nauth: Session - split (reused previous answer)\nttl: (not applicable)");
+			expect(text).toContain("Reused: answer given earlier in this session; the user was not asked again");
+			expect(result.details?.results?.[0]).toMatchObject({
+				reusedPrevious: true,
+				selectedOptionRecords: [{ value: "session", label: "Session", index: 1, note: "split" }],
+			});
+		});
+
+		it("asks again when a question opting into reuse has no previous answer", async () => {
+			const tool = createAskTool();
+			const result = await tool.execute(
+				"call-p3",
+				{ questions: [{ ...authQuestion, id: "cache", reusePrevious: true }] },
+				undefined,
+				undefined,
+				{
+					hasUI: true,
+					ui: uiWithCustomQueue([{ cancelled: false, selectedOptionIndex: 0, note: "" }]),
+					sessionManager,
+				} as any,
+			);
+
+			expect(getTextContent(result)).toContain("User answers:\ncache: JWT\n");
+		});
+
+		it("reuses what it can and only asks the remaining questions", async () => {
+			const tool = createAskTool();
+			const result = await tool.execute(
+				"call-p4",
+				{
+					questions: [
+						{ ...authQuestion, reusePrevious: true },
+						{
+							id: "store",
+							question: "Session store?",
+							options: [{ label: "Redis" }, { label: "Postgres" }],
+							showIf: { id: "auth", selected: "Session" },
+						},
+					],
+				},
+				undefined,
+				undefined,
+				{
+					hasUI: true,
+					ui: uiWithCustomQueue([{ cancelled: false, selectedOptionIndex: 0, note: "" }]),
+					sessionManager,
+				} as any,
+			);
+
+			expect(getTextContent(result)).toContain(
+				"User answers:\nauth: Session - split (reused previous answer)\nstore: Redis\n",
+			);
+			expect(result.details?.results?.[1]).toMatchObject({ id: "store", showIf: { id: "auth", selected: "Session" } });
+		});
+	});
+
+	describe("presets", () => {
+		function createPresetsDirectory(presets: string): string {
+			const directory = mkdtempSync(join(tmpdir(), "pi-ask-presets-"));
+			mkdirSync(join(directory, ".pi"));
+			writeFileSync(join(directory, ".pi", "ask-presets.json"), presets);
+			return directory;
+		}
+
+		const testFrameworkQuestion = {
+			id: "test-framework",
+			question: "Test framework?",
+			options: [{ label: "Vitest" }, { label: "Jest" }],
+		};
+
+		it("auto-answers matching questions from the presets file without opening the UI", async () => {
+			const tool = createAskTool();
+			const directory = createPresetsDirectory(
+				JSON.stringify({ "test-*": { answer: "Vitest", mode: "auto" }, "package-manager": { answer: "pnpm", mode: "auto" } }),
+			);
+			const result = await tool.execute(
+				"call-preset-1",
+				{
+					questions: [
+						testFrameworkQuestion,
+						{ id: "package-manager", question: "Package manager?", options: [{ label: "npm" }, { label: "pnpm" }] },
+					],
+				},
+				undefined,
+				undefined,
+				{ hasUI: true, ui: uiWithCustomQueue([]), cwd: directory } as any,
+			);
+
+			const text = getTextContent(result);
+			expect(text).toContain("User answers:\ntest-framework: Vitest (auto-resolved)\npackage-manager: pnpm (auto-resolved)");
+			expect(text).toContain("Auto-resolved: preset (answered from the project presets file; the user was not asked)");
+			expect(result.details?.results?.[1]).toMatchObject({ autoResolved: "preset", selectedOptions: ["pnpm"] });
+		});
+
+		it("pre-fills prefill presets in the UI and still asks the user", async () => {
+			const tool = createAskTool();
+			const directory = createPresetsDirectory(JSON.stringify({ "test-framework": "Jest" }));
+			let screen = "";
+			const ui = {
+				custom: async (factory: any) => {
+					const theme = { fg: (_color: string, text: string) => text, bg: (_color: string, text: string) => text };
+					const component = factory({ requestRender() {} }, theme, {}, () => {});
+					screen = component.render(80).join("\n");
+					return { cancelled: false, selectedOptionIndex: 0, note: "" };
+				},
+			} as unknown as ExtensionUIContext;
+
+			const result = await tool.execute(
+				"call-preset-2",
+				{ questions: [testFrameworkQuestion] },
+				undefined,
+				undefined,
+				{ hasUI: true, ui, cwd: directory } as any,
+			);
+
+			expect(screen).toContain("★ Project preset: Jest");
+			expect(getTextContent(result)).toContain("User answers:\ntest-framework: Vitest\n");
+			expect(result.details?.autoResolved).toBeUndefined();
+		});
+
+		it("reports malformed presets files", async () => {
+			const tool = createAskTool();
+			const directory = createPresetsDirectory('{"test-framework":{"answer":"Jest","mode":"always"}}');
+			const result = await tool.execute(
+				"call-preset-3",
+				{ questions: [testFrameworkQuestion] },
+				undefined,
+				undefined,
+				{ hasUI: true, ui: uiWithCustomQueue([]), cwd: directory } as any,
+			);
+
+			expect(getTextContent(result)).toBe(
+				`Error: could not read ask presets file ${join(directory, ".pi", "ask-presets.json")}: preset mode for "test-framework" must be "auto" or "prefill"`,
+			);
+		});
+	});
+
+	describe("keybindings file", () => {
+		afterEach(() => {
+			delete process.env.PI_ASK_KEYBINDINGS_FILE;
+		});
+
+		function writeKeybindingsFile(contents: string): string {
+			const keybindingsFilePath = join(mkdtempSync(join(tmpdir(), "pi-ask-keys-")), "ask-keybindings.json");
+			writeFileSync(keybindingsFilePath, contents);
+			process.env.PI_ASK_KEYBINDINGS_FILE = keybindingsFilePath;
+			return keybindingsFilePath;
+		}
+
+		it("passes user keybindings to the interactive UI", async () => {
+			writeKeybindingsFile('{"vim":true}');
+			const tool = createAskTool();
+			let screen = "";
+			const ui = {
+				custom: async (factory: any) => {
+					const theme = { fg: (_color: string, text: string) => text, bg: (_color: string, text: string) => text };
+					const component = factory({ requestRender() {} }, theme, {}, () => {});
+					screen = component.render(120).join("\n");
+					return { cancelled: false, selectedOptionIndex: 0, note: "" };
+				},
+			} as unknown as ExtensionUIContext;
+
+			await tool.execute(
+				"call-keys-1",
+				{ questions: [{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }, { label: "Session" }] }] },
+				undefined,
+				undefined,
+				{ hasUI: true, ui } as any,
+			);
+
+			expect(screen).toContain("↑↓ kj move");
+		});
+
+		it("renders the configured locale while keeping the model-facing answer canonical", async () => {
+			writeKeybindingsFile('{"locale":"ko"}');
+			const tool = createAskTool();
+			let screen = "";
+			const ui = {
+				custom: async (factory: any) => {
+					const theme = { fg: (_color: string, text: string) => text, bg: (_color: string, text: string) => text };
+					const component = factory({ requestRender() {} }, theme, {}, () => {});
+					screen = component.render(120).join("\n");
+					return { cancelled: false, selectedOptionIndex: 2, note: "sso" };
+				},
+			} as unknown as ExtensionUIContext;
+
+			const result = await tool.execute(
+				"call-keys-locale",
+				{
+					questions: [
+						{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }, { label: "Session" }], recommended: 0 },
+					],
+				},
+				undefined,
+				undefined,
+				{ hasUI: true, ui } as any,
+			);
+
+			expect(screen).toContain("JWT (추천)");
+			expect(screen).toContain("기타 (직접 입력)");
+			const text = getTextContent(result);
+			expect(text).toContain(`Selected: ${OTHER_OPTION}`);
+			expect(text).toContain("Custom input: sso");
+			expect(result.details?.customInput).toBe("sso");
+		});
+
+		it("warns once about malformed keybindings files and still asks with the default keys", async () => {
+			const keybindingsFilePath = writeKeybindingsFile('{"jump":"j"}');
+			const tool = createAskTool();
+			const warnings: string[] = [];
+			const ui = Object.assign(
+				uiWithCustomQueue([
+					{ cancelled: false, selectedOptionIndex: 0, note: "" },
+					{ cancelled: false, selectedOptionIndex: 0, note: "" },
+				]),
+				{ notify: (message: string) => warnings.push(message) },
+			);
+			const params = { questions: [{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }] }] };
+
+			const result = await tool.execute("call-keys-2", params, undefined, undefined, { hasUI: true, ui } as any);
+			await tool.execute("call-keys-3", params, undefined, undefined, { hasUI: true, ui } as any);
+
+			expect(getTextContent(result)).toContain("auth: JWT");
+			expect(warnings).toHaveLength(1);
+			expect(warnings[0]).toStartWith(
+				`Could not read ask keybindings file ${keybindingsFilePath}: unknown ask key action "jump"`,
+			);
+			expect(warnings[0]).toEndWith("• using the default keys");
+		});
+	});
+
+	it("rejects showIf conditions that do not reference an earlier question", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-c1",
+			{
+				questions: [
+					{
+						id: "cache_ttl",
+						question: "Cache TTL?",
+						options: [{ label: "1m" }],
+						showIf: { id: "cache", selected: "Redis" },
+					},
+					{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }] },
+				],
+			},
+			undefined,
+			undefined,
+			{ hasUI: true, ui: uiWithCustomQueue([]) } as any,
+		);
+
+		expect(getTextContent(result)).toBe('Error: question "cache_ttl" showIf must reference an earlier question id');
+	});
+
+	it("reports hidden follow-up questions as not applicable with their condition", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-c2",
+			{
+				questions: [
+					{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }, { label: "None" }] },
+					{
+						id: "cache_ttl",
+						question: "Cache TTL?",
+						options: [{ label: "1m" }],
+						showIf: { id: "cache", selected: ["Redis", "Memcached"] },
+					},
+					{
+						id: "eviction",
+						question: "Eviction?",
+						options: [{ label: "LRU" }],
+						showIf: { id: "cache", selected: "None" },
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{
+						cancelled: false,
+						selectedOptionIndexesByQuestion: [[1], [0], [0]],
+						noteByQuestionByOption: [["", "", ""], ["", ""], ["", ""]],
+					},
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain("User answers:\ncache: None\ncache_ttl: (not applicable)\neviction: LRU");
+		expect(text).toContain("Shown if: cache is one of [Redis, Memcached]");
+		expect(text).toContain("Shown if: cache is None");
+		expect(text).toContain("Selected: (not applicable; condition not met)");
+		expect(result.details?.results?.[1]).toEqual({
+			id: "cache_ttl",
+			question: "Cache TTL?",
+			options: ["1m"],
+			multi: false,
+			status: "not_applicable",
+			selectedOptions: [],
+			customInput: undefined,
+			showIf: { id: "cache", selected: ["Redis", "Memcached"] },
+			notApplicable: true,
+		});
+	});
+
+	it("rejects choice questions without options", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-t0",
+			{ questions: [{ id: "auth", question: "Which auth?" }] },
+			undefined,
+			undefined,
+			{ hasUI: true, ui: uiWithCustomQueue([]) } as any,
+		);
+
+		expect(getTextContent(result)).toBe('Error: question "auth" requires at least one option');
+	});
+
+	it("asks a single text question and reports the typed answer", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-t1",
+			{
+				questions: [
+					{
+						id: "bug",
+						question: "Describe the bug",
+						type: "text",
+						options: [{ label: "ignored" }],
+						multi: true,
+						maxLength: 200,
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([{ cancelled: false, text: "Crash on save\n\tafter rename" }]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain('User answers:\nbug: "Crash on save after rename"');
+		expect(text).toContain("Type: free text");
+		expect(text).toContain("  Text:\n    Crash on save\n    after rename");
+		expect(text).not.toContain("Options:");
+		expect(result.details).toEqual({
+			id: "bug",
+			question: "Describe the bug",
+			type: "text",
+			options: [],
+			multi: false,
+			status: "answered",
+			selectedOptions: [],
+			customInput: "Crash on save\n\tafter rename",
+			results: [
+				{
+					id: "bug",
+					question: "Describe the bug",
+					type: "text",
+					options: [],
+					multi: false,
+					status: "answered",
+					selectedOptions: [],
+					customInput: "Crash on save\n\tafter rename",
+				},
+			],
+		});
+	});
+
+	it("reports skipped optional text answers in the tab flow", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-t2",
+			{
+				questions: [
+					{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }] },
+					{ id: "notes", question: "Anything else?", type: "text", required: false },
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{
+						cancelled: false,
+						selectedOptionIndexesByQuestion: [[0], []],
+						noteByQuestionByOption: [["", ""], []],
+						textAnswerByQuestion: ["", ""],
+					},
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain("User answers:\ncache: Redis\nnotes: (skipped)");
+		expect(text).toContain("Skipped: user submitted an empty answer");
+		expect(result.details?.results?.[1]).toMatchObject({ id: "notes", type: "text", skipped: true });
+	});
+
+	it("routes a single rank question to the tab flow and reports the ranking", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-r1",
+			{
+				questions: [
+					{
+						id: "priority",
+						question: "Order by priority",
+						type: "rank",
+						options: [{ label: "Auth" }, { label: "Billing" }, { label: "Search" }],
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{ cancelled: false, selectedOptionIndexesByQuestion: [[2, 0, 1]], noteByQuestionByOption: [["", "", ""]] },
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain("User answers:\npriority: 1. Search, 2. Auth, 3. Billing");
+		expect(text).toContain("Options:\n  1. Auth\n  2. Billing\n  3. Search");
+		expect(text).toContain("Ranking: 1. Search, 2. Auth, 3. Billing");
+		expect(result.details).toMatchObject({
+			id: "priority",
+			type: "rank",
+			multi: false,
+			selectedOptions: ["Search", "Auth", "Billing"],
+		});
+	});
+
+	it("routes a single number question to the tab flow and reports a typed value", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-n1",
+			{
+				questions: [
+					{
+						id: "retries",
+						question: "How many retries?",
+						type: "number",
+						presets: [1, 3],
+						min: 0,
+						max: 10,
+						unit: "retries",
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{ cancelled: false, selectedOptionIndexesByQuestion: [[2]], noteByQuestionByOption: [["", "", "5"]] },
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain("User answers:\nretries: 5 retries");
+		expect(text).toContain("Type: number (0 to 10)\nPresets: 1 retries, 3 retries");
+		expect(text).toContain("  Number: 5 retries");
+		expect(result.details).toMatchObject({
+			id: "retries",
+			type: "number",
+			options: ["1 retries", "3 retries"],
+			selectedOptions: ["5 retries"],
+			numberValue: 5,
+			numberConstraints: "0 to 10",
+			presets: [1, 3],
+			unit: "retries",
+			min: 0,
+			max: 10,
+		});
+	});
+
+	it("accepts option descriptions without changing the reported option labels", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-d1",
+			{
+				questions: [
+					{
+						id: "auth",
+						question: "Which auth?",
+						options: [{ label: "JWT", description: "Stateless" }, { label: "Session" }],
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{ hasUI: true, ui: uiWithCustomQueue([{ cancelled: false, selectedOptionIndex: 0, note: "" }]) } as any,
+		);
+
+		expect(result.details?.options).toEqual(["JWT", "Session"]);
+		expect(getTextContent(result)).toContain("User answers:\nauth: JWT");
+	});
+
+	it("reports option values in selection records and answer context", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-v1",
+			{
+				questions: [
+					{
+						id: "auth",
+						question: "Which auth?",
+						options: [
+							{ label: "JSON Web Tokens", value: "jwt" },
+							{ label: "Server sessions", value: "session" },
+						],
+						multi: true,
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{ cancelled: false, selectedOptionIndexesByQuestion: [[0, 1]], noteByQuestionByOption: [["", "sticky\nlb"]] },
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain("User answers:\nauth: [JSON Web Tokens, Server sessions - sticky lb]");
+		expect(text).toContain("  Values: jwt, session");
+		expect(result.details?.selectedOptionRecords).toEqual([
+			{ value: "jwt", label: "JSON Web Tokens", index: 0 },
+			{ value: "session", label: "Server sessions", index: 1, note: "sticky\nlb" },
+		]);
+	});
+
+	it("echoes multi-select limits in details and answer context", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-m1",
+			{
+				questions: [
+					{
+						id: "features",
+						question: "Which features?",
+						options: [{ label: "Logs" }, { label: "Metrics" }, { label: "Traces" }],
+						multi: true,
+						minSelect: 2,
+						maxSelect: 3,
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{ cancelled: false, selectedOptionIndexesByQuestion: [[0, 1]], noteByQuestionByOption: [["", "", "", ""]] },
+				]),
+			} as any,
+		);
+
+		expect(getTextContent(result)).toContain("Selection limits: pick 2 to 3 (enforced in the UI)");
+		expect(result.details).toMatchObject({ minSelect: 2, maxSelect: 3, selectedOptions: ["Logs", "Metrics"] });
+	});
+
+	it("rejects minSelect greater than maxSelect", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-m2",
+			{
+				questions: [
+					{ id: "features", question: "Which?", options: [{ label: "A" }], multi: true, minSelect: 3, maxSelect: 2 },
+				],
+			},
+			undefined,
+			undefined,
+			{ hasUI: true, ui: uiWithCustomQueue([]) } as any,
+		);
+
+		expect(getTextContent(result)).toBe('Error: question "features" minSelect must not exceed maxSelect');
+	});
+
+	it("rejects minSelect greater than the number of selectable options", async () => {
+		const tool = createAskTool();
+		const options = [{ label: "A" }, { label: "B" }, { label: "C" }];
+		const tooMany = await tool.execute(
+			"call-m3",
+			{ questions: [{ id: "features", question: "Which?", options, multi: true, minSelect: 5 }] },
+			undefined,
+			undefined,
+			{ hasUI: true, ui: uiWithCustomQueue([]) } as any,
+		);
+		const closedChoice = await tool.execute(
+			"call-m4",
+			{ questions: [{ id: "features", question: "Which?", options, multi: true, minSelect: 4, allowOther: false }] },
+			undefined,
+			undefined,
+			{ hasUI: true, ui: uiWithCustomQueue([]) } as any,
+		);
+
+		expect(getTextContent(tooMany)).toBe(
+			'Error: question "features" minSelect must not exceed the number of selectable options',
+		);
+		expect(getTextContent(closedChoice)).toBe(
+			'Error: question "features" minSelect must not exceed the number of selectable options',
+		);
+	});
+
+	it("reports whether pre-selected defaults were accepted unchanged", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-df1",
+			{
+				questions: [
+					{
+						id: "features",
+						question: "Which features?",
+						options: [{ label: "Logs" }, { label: "Metrics" }],
+						multi: true,
+						defaults: [{ index: 0 }],
+					},
+					{
+						id: "checks",
+						question: "Which checks?",
+						options: [{ label: "Lint" }, { label: "Types" }],
+						multi: true,
+						defaults: [{ index: 1 }],
+					},
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{
+						cancelled: false,
+						selectedOptionIndexesByQuestion: [[0], [0, 1]],
+						noteByQuestionByOption: [
+							["", "", ""],
+							["", "", ""],
+						],
+					},
+				]),
+			} as any,
+		);
+
+		const text = getTextContent(result);
+		expect(text).toContain("User answers:\nfeatures: [Logs] (defaults accepted)\nchecks: [Lint, Types]");
+		expect(text).toContain("Defaults: accepted unchanged (the user submitted the pre-selected answer without edits)");
+		expect(text).toContain("Defaults: changed by the user");
+		expect(result.details?.results?.map((entry: any) => entry.defaultsAccepted)).toEqual([true, false]);
+	});
+
 	it("returns error when questions is empty", async () => {
 		const tool = createAskTool();
 		const result = await tool.execute("call-2", { questions: [] }, undefined, undefined, {
@@ -80,7 +1202,7 @@ describe("ask extension tool", () => {
 			undefined,
 			{
 				hasUI: true,
-				ui: uiWithCustomQueue([{ cancelled: false, selectedOption: "Session", note: "split" }]),
+				ui: uiWithCustomQueue([{ cancelled: false, selectedOptionIndex: 1, note: "split" }]),
 			} as any,
 		);
 
@@ -96,7 +1218,9 @@ describe("ask extension tool", () => {
 			question: "Which auth?",
 			options: ["JWT", "Session"],
 			multi: false,
+			status: "answered",
 			selectedOptions: ["Session - split"],
+			selectedOptionRecords: [{ value: "Session", label: "Session", index: 1, note: "split" }],
 			customInput: undefined,
 			results: [
 				{
@@ -104,7 +1228,9 @@ describe("ask extension tool", () => {
 					question: "Which auth?",
 					options: ["JWT", "Session"],
 					multi: false,
+					status: "answered",
 					selectedOptions: ["Session - split"],
+					selectedOptionRecords: [{ value: "Session", label: "Session", index: 1, note: "split" }],
 					customInput: undefined,
 				},
 			],
@@ -130,7 +1256,7 @@ describe("ask extension tool", () => {
 			undefined,
 			{
 				hasUI: true,
-				ui: uiWithCustomQueue([{ cancelled: false, selectedOption: "Cache-first", note: "" }]),
+				ui: uiWithCustomQueue([{ cancelled: false, selectedOptionIndex: 0, note: "" }]),
 			} as any,
 		);
 
@@ -182,7 +1308,9 @@ describe("ask extension tool", () => {
 			question: "Which auth methods?",
 			options: ["JWT", "Session"],
 			multi: true,
+			status: "answered",
 			selectedOptions: ["JWT"],
+			selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }],
 			customInput: "org-sso",
 			results: [
 				{
@@ -190,7 +1318,9 @@ describe("ask extension tool", () => {
 					question: "Which auth methods?",
 					options: ["JWT", "Session"],
 					multi: true,
+					status: "answered",
 					selectedOptions: ["JWT"],
+					selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }],
 					customInput: "org-sso",
 				},
 			],
@@ -218,15 +1348,15 @@ describe("ask extension tool", () => {
 				ui: uiWithCustomQueue([
 					{
 						cancelled: true,
-						selectedOptionIndexesByQuestion: [[0, 2]],
-						noteByQuestionByOption: [["", "", "org-sso"]],
+						selectedOptionIndexesByQuestion: [[]],
+						noteByQuestionByOption: [[]],
 					},
 				]),
 			} as any,
 		);
 
 		const text = getTextContent(result);
-		expect(text).toContain("User answers:\nauth: (cancelled)");
+		expect(text).toStartWith("User cancelled before answering any question\nUser answers:\nauth: (cancelled)");
 		expect(text).toContain("Question 1 (auth)");
 		expect(text).toContain("Selected: (cancelled)");
 		expect(result.details).toEqual({
@@ -234,14 +1364,17 @@ describe("ask extension tool", () => {
 			question: "Which auth methods?",
 			options: ["JWT", "Session"],
 			multi: true,
+			status: "cancelled",
 			selectedOptions: [],
 			customInput: undefined,
+			cancelled: true,
 			results: [
 				{
 					id: "auth",
 					question: "Which auth methods?",
 					options: ["JWT", "Session"],
 					multi: true,
+					status: "cancelled",
 					selectedOptions: [],
 					customInput: undefined,
 				},
@@ -293,7 +1426,9 @@ describe("ask extension tool", () => {
 				question: "Which auth?",
 				options: ["JWT", "Session"],
 				multi: false,
+				status: "answered",
 				selectedOptions: ["JWT"],
+				selectedOptionRecords: [{ value: "JWT", label: "JWT", index: 0 }],
 				customInput: undefined,
 			},
 			{
@@ -301,7 +1436,9 @@ describe("ask extension tool", () => {
 				question: "Which cache?",
 				options: ["Redis", "None"],
 				multi: false,
+				status: "answered",
 				selectedOptions: ["None"],
+				selectedOptionRecords: [{ value: "None", label: "None", index: 1 }],
 				customInput: undefined,
 			},
 		]);
@@ -352,7 +1489,9 @@ describe("ask extension tool", () => {
 				question: "Which auth methods?",
 				options: ["JWT", "Session"],
 				multi: true,
+				status: "answered",
 				selectedOptions: ["Session"],
+				selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }],
 				customInput: undefined,
 			},
 			{
@@ -360,13 +1499,15 @@ describe("ask extension tool", () => {
 				question: "Which cache?",
 				options: ["Redis", "None"],
 				multi: false,
+				status: "answered",
 				selectedOptions: ["Redis - local"],
+				selectedOptionRecords: [{ value: "Redis", label: "Redis", index: 0, note: "local" }],
 				customInput: undefined,
 			},
 		]);
 	});
 
-	it("returns cancelled markers for all questions when tab flow is cancelled", async () => {
+	it("returns answered questions and cancelled markers for the rest when tab flow is cancelled", async () => {
 		const tool = createAskTool();
 		const result = await tool.execute(
 			"call-6b",
@@ -392,25 +1533,29 @@ describe("ask extension tool", () => {
 				ui: uiWithCustomQueue([
 					{
 						cancelled: true,
-						selectedOptionIndexesByQuestion: [[1], [0]],
-						noteByQuestionByOption: [["", ""], ["local", ""]],
+						selectedOptionIndexesByQuestion: [[1], []],
+						noteByQuestionByOption: [["", ""], []],
+						editedByQuestion: [true, false],
 					},
 				]),
 			} as any,
 		);
 
 		const text = getTextContent(result);
-		expect(text).toContain("User answers:\nauth: (cancelled)\ncache: (cancelled)");
+		expect(text).toStartWith("User cancelled after answering: auth\nUser answers:\nauth: [Session]\ncache: (cancelled)");
 		expect(text).toContain("Question 1 (auth)");
 		expect(text).toContain("Question 2 (cache)");
 		expect(text).toContain("Selected: (cancelled)");
+		expect(result.details?.cancelled).toBe(true);
 		expect(result.details?.results).toEqual([
 			{
 				id: "auth",
 				question: "Which auth methods?",
 				options: ["JWT", "Session"],
 				multi: true,
-				selectedOptions: [],
+				status: "answered",
+				selectedOptions: ["Session"],
+				selectedOptionRecords: [{ value: "Session", label: "Session", index: 1 }],
 				customInput: undefined,
 			},
 			{
@@ -418,12 +1563,48 @@ describe("ask extension tool", () => {
 				question: "Which cache?",
 				options: ["Redis", "None"],
 				multi: false,
+				status: "cancelled",
 				selectedOptions: [],
 				customInput: undefined,
 			},
 		]);
 	});
 
+	it("flags a cancelled call in the JSON format", async () => {
+		const tool = createAskTool();
+		const result = await tool.execute(
+			"call-6c",
+			{
+				format: "json",
+				questions: [
+					{ id: "auth", question: "Which auth?", options: [{ label: "JWT" }, { label: "Session" }] },
+					{ id: "cache", question: "Which cache?", options: [{ label: "Redis" }, { label: "None" }] },
+				],
+			},
+			undefined,
+			undefined,
+			{
+				hasUI: true,
+				ui: uiWithCustomQueue([
+					{
+						cancelled: true,
+						selectedOptionIndexesByQuestion: [[0], []],
+						noteByQuestionByOption: [["", ""], []],
+						editedByQuestion: [true, false],
+					},
+				]),
+			} as any,
+		);
+
+		expect(JSON.parse(getTextContent(result))).toEqual({
+			cancelled: true,
+			answers: [
+				{ id: "auth", status: "answered", selected: [{ value: "JWT", label: "JWT" }] },
+				{ id: "cache", status: "cancelled", selected: [] },
+			],
+		});
+	});
+
 	it("records custom-only answers with explicit Other context", async () => {
 		const tool = createAskTool();
 		const result = await tool.execute(
@@ -441,14 +1622,14 @@ describe("ask extension tool", () => {
 			undefined,
 			{
 				hasUI: true,
-				ui: uiWithCustomQueue([{ cancelled: false, selectedOption: OTHER_OPTION, note: "enterprise\nsso" }]),
+				ui: uiWithCustomQueue([{ cancelled: false, selectedOptionIndex: 2, note: "enterprise\nsso" }]),
 			} as any,
 		);
 
 		const text = getTextContent(result);
 		expect(text).toContain('User answers:\nauth: "enterprise sso"');
 		expect(text).toContain(`Selected: ${OTHER_OPTION}`);
-		expect(text).toContain("Custom input: enterprise sso");
+		expect(text).toContain("Custom input:\n    enterprise\n    sso");
 		expect(result.details?.customInput).toBe("enterprise\nsso");
 		expect(result.details?.results?.[0]?.customInput).toBe("enterprise\nsso");
 	});
@@ -473,7 +1654,7 @@ describe("ask extension tool", () => {
 				ui: uiWithCustomQueue([
 					{
 						cancelled: false,
-						selectedOption: "Sess\nion\u0007",
+						selectedOptionIndex: 1,
 						note: "line1\nline2\t\u0007",
 					},
 				]),
@@ -487,6 +1668,7 @@ describe("ask extension tool", () => {
 		expect(text).toContain("1. JWT Fast");
 		expect(text).toContain("2. Sess ion");
 		expect(text).toContain("Selected: Sess ion - line1 line2");
+		expect(text).toContain("Note on Sess ion:\n    line1\n    line2");
 
 		expect(result.details?.id).toBe("auth\nmode");
 		expect(result.details?.question).toBe("Which\tauth?\nNow");